@@ -0,0 +1,178 @@
+export const ACCESS_ACTIONS = ["search", "export", "contacts"] as const;
+
+export type AccessAction = (typeof ACCESS_ACTIONS)[number];
+
+export type AccessRule = {
+  actions: AccessAction[];
+  maxLimit?: number;
+};
+
+// Users map to roles; a user without a known role gets `default`. Channel rules can only narrow
+// what the user's roles allow.
+export type AccessPolicy = {
+  default: AccessRule;
+  roles: Record<string, AccessRule>;
+  users: Record<string, string[]>;
+  channels: Record<string, Partial<AccessRule>>;
+};
+
+export type AccessSubject = {
+  userId: string | null;
+  roles: string[];
+  channel: string;
+};
+
+export type AccessGrant = {
+  actions: AccessAction[];
+  maxLimit: number | null;
+  roles: string[];
+};
+
+export type AccessNeed = {
+  action: AccessAction;
+  contacts?: boolean;
+  limit?: number;
+};
+
+const ACTION_LABELS: Record<AccessAction, string> = {
+  search: "Searches and company lookups",
+  export: "Exports",
+  contacts: "Contact fields (--with-contact)",
+};
+
+type JsonRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is JsonRecord {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function invalid(path: string, expectation: string): Error {
+  return new Error(`Invalid plugin config: accessPolicy.${path} ${expectation}`);
+}
+
+function parseRule(raw: unknown, path: string, requireActions: boolean): Partial<AccessRule> {
+  if (!isRecord(raw)) {
+    throw invalid(path, "must be an object");
+  }
+  const rule: Partial<AccessRule> = {};
+  if (raw.actions !== undefined || requireActions) {
+    const actions = raw.actions;
+    if (
+      !Array.isArray(actions) ||
+      !actions.every((action) => ACCESS_ACTIONS.includes(action as AccessAction))
+    ) {
+      throw invalid(`${path}.actions`, `must list actions from: ${ACCESS_ACTIONS.join(", ")}`);
+    }
+    rule.actions = [...new Set(actions as AccessAction[])];
+  }
+  if (raw.maxLimit !== undefined) {
+    const maxLimit = Number(raw.maxLimit);
+    if (!Number.isInteger(maxLimit) || maxLimit < 1) {
+      throw invalid(`${path}.maxLimit`, "must be a positive integer");
+    }
+    rule.maxLimit = maxLimit;
+  }
+  return rule;
+}
+
+function parseSection(raw: unknown, path: string): JsonRecord {
+  if (raw === undefined) {
+    return {};
+  }
+  if (!isRecord(raw)) {
+    throw invalid(path, "must be an object");
+  }
+  return raw;
+}
+
+// Without an explicit default, users outside every role may only search.
+export function parseAccessPolicy(raw: unknown): AccessPolicy | null {
+  if (raw === undefined || raw === null) {
+    return null;
+  }
+  if (!isRecord(raw)) {
+    throw new Error("Invalid plugin config: accessPolicy must be an object");
+  }
+
+  const roles: Record<string, AccessRule> = {};
+  for (const [name, rule] of Object.entries(parseSection(raw.roles, "roles"))) {
+    roles[name] = parseRule(rule, `roles.${name}`, true) as AccessRule;
+  }
+
+  const users: Record<string, string[]> = {};
+  for (const [userId, value] of Object.entries(parseSection(raw.users, "users"))) {
+    const names = typeof value === "string" ? [value] : value;
+    if (!Array.isArray(names) || !names.every((name) => typeof name === "string")) {
+      throw invalid(`users.${userId}`, "must be a role name or a list of role names");
+    }
+    const unknown = names.find((name) => !(name in roles));
+    if (unknown !== undefined) {
+      throw invalid(`users.${userId}`, `refers to unknown role "${unknown}"`);
+    }
+    users[userId] = names;
+  }
+
+  const channels: Record<string, Partial<AccessRule>> = {};
+  for (const [channel, rule] of Object.entries(parseSection(raw.channels, "channels"))) {
+    channels[channel.trim().toLowerCase()] = parseRule(rule, `channels.${channel}`, false);
+  }
+
+  return {
+    default:
+      raw.default === undefined
+        ? { actions: ["search"] }
+        : (parseRule(raw.default, "default", true) as AccessRule),
+    roles,
+    users,
+    channels,
+  };
+}
+
+export function resolveAccess(policy: AccessPolicy, subject: AccessSubject): AccessGrant {
+  const assigned = subject.userId ? (policy.users[subject.userId] ?? []) : [];
+  const roles = [...new Set([...assigned, ...subject.roles])].filter(
+    (name) => name in policy.roles,
+  );
+  const rules =
+    roles.length > 0 ? roles.map((name) => policy.roles[name] as AccessRule) : [policy.default];
+
+  let actions = new Set(rules.flatMap((rule) => rule.actions));
+  let maxLimit = rules.some((rule) => rule.maxLimit === undefined)
+    ? null
+    : Math.max(...rules.map((rule) => rule.maxLimit as number));
+
+  const channelRule = policy.channels[subject.channel];
+  if (channelRule?.actions) {
+    const allowed = channelRule.actions;
+    actions = new Set([...actions].filter((action) => allowed.includes(action)));
+  }
+  if (channelRule?.maxLimit !== undefined) {
+    maxLimit = Math.min(maxLimit ?? channelRule.maxLimit, channelRule.maxLimit);
+  }
+
+  return { actions: ACCESS_ACTIONS.filter((action) => actions.has(action)), maxLimit, roles };
+}
+
+function describeSubject(subject: AccessSubject, grant: AccessGrant): string {
+  const who = subject.userId ? `user ${subject.userId}` : "this user";
+  const roles = grant.roles.length > 0 ? `roles: ${grant.roles.join(", ")}` : "default policy";
+  return `${who} (${roles}) in channel ${subject.channel}`;
+}
+
+// Returns the reason a request is refused, or null when the grant covers it.
+export function accessDenial(
+  grant: AccessGrant,
+  need: AccessNeed,
+  subject: AccessSubject,
+): string | null {
+  const required: AccessAction[] = need.contacts ? [need.action, "contacts"] : [need.action];
+  const missing = required.find((action) => !grant.actions.includes(action));
+  if (missing) {
+    const allowed = grant.actions.length > 0 ? grant.actions.join(", ") : "none";
+    return `Access denied: ${ACTION_LABELS[missing]} need the "${missing}" permission, which ${describeSubject(subject, grant)} does not have (allowed: ${allowed}). Ask a workspace admin to update the plugin accessPolicy.`;
+  }
+  if (need.limit !== undefined && grant.maxLimit !== null && need.limit > grant.maxLimit) {
+    return `Access denied: limit ${need.limit} is above the maximum of ${grant.maxLimit} allowed for ${describeSubject(subject, grant)}. Use --limit ${grant.maxLimit} or less.`;
+  }
+  return null;
+}
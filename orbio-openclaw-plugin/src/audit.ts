@@ -0,0 +1,78 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { ContactRedaction } from "./redaction.js";
+
+export const AUDIT_OUTCOMES = ["ok", "denied", "rate_limited", "invalid", "error"] as const;
+
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+// One event per tool invocation. Only field names and counts are recorded, never the values the
+// API returned, so the log itself holds no contact data.
+export type AuditEvent = {
+  ts: string;
+  workspace_id: string;
+  tool: string;
+  action: string | null;
+  user_id: string | null;
+  roles: string[];
+  channel: string;
+  query_text: string | null;
+  fields_requested: string[] | null;
+  fields_granted: string[];
+  contact_requested: boolean;
+  contact_granted: boolean;
+  contact_redaction: ContactRedaction | null;
+  rows: number;
+  export_id: string | null;
+  request_id: string | null;
+  outcome: AuditOutcome;
+  error_code: string | null;
+  duration_ms: number;
+};
+
+export type AuditSink = {
+  write(event: AuditEvent): Promise<void>;
+};
+
+// Appends one JSON line per event; writes are serialized so lines never interleave.
+export function createFileAuditSink(filePath: string): AuditSink {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    write: (event) => {
+      const next = queue.then(async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(event)}\n`, { mode: 0o600 });
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+export function createStdoutAuditSink(
+  stream: { write(chunk: string): unknown } = process.stdout,
+): AuditSink {
+  return {
+    write: async (event) => {
+      stream.write(`${JSON.stringify(event)}\n`);
+    },
+  };
+}
+
+export function createWebhookAuditSink(url: string, opts: { timeoutMs: number }): AuditSink {
+  return {
+    write: async (event) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(opts.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Audit webhook answered HTTP ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,86 @@
+export type CnpjParts = {
+  cnpj: string;
+  root: string;
+  branch: string;
+  checkDigits: string;
+  headquarters: boolean;
+  alphanumeric: boolean;
+};
+
+const CNPJ_SHAPE = /^[0-9A-Z]{12}\d{2}$/;
+const HEADQUARTERS_BRANCH = "0001";
+
+// Alphanumeric CNPJs (Receita Federal, from July 2026) keep the mod-11 algorithm and
+// map each character to its ASCII code minus 48, so digits keep their numeric value.
+function charValue(char: string): number {
+  return char.charCodeAt(0) - 48;
+}
+
+function checkDigit(base: string): number {
+  let weight = base.length - 7;
+  let sum = 0;
+  for (const char of base) {
+    sum += charValue(char) * weight;
+    weight = weight === 2 ? 9 : weight - 1;
+  }
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+export function stripCnpj(value: string): string {
+  return value.replace(/[\s./-]/g, "").toUpperCase();
+}
+
+export function computeCnpjCheckDigits(base: string): string {
+  const stripped = stripCnpj(base);
+  if (!/^[0-9A-Z]{12}$/.test(stripped)) {
+    throw new Error("CNPJ base must have 12 alphanumeric characters.");
+  }
+  const first = checkDigit(stripped);
+  const second = checkDigit(`${stripped}${first}`);
+  return `${first}${second}`;
+}
+
+export function normalizeCnpj(value: string): string | null {
+  const stripped = stripCnpj(value);
+  if (!CNPJ_SHAPE.test(stripped) || /^(.)\1{13}$/.test(stripped)) {
+    return null;
+  }
+  return stripped.endsWith(computeCnpjCheckDigits(stripped.slice(0, 12))) ? stripped : null;
+}
+
+export function isValidCnpj(value: string): boolean {
+  return normalizeCnpj(value) !== null;
+}
+
+export function parseCnpj(value: string): CnpjParts | null {
+  const cnpj = normalizeCnpj(value);
+  if (!cnpj) {
+    return null;
+  }
+  const branch = cnpj.slice(8, 12);
+  return {
+    cnpj,
+    root: cnpj.slice(0, 8),
+    branch,
+    checkDigits: cnpj.slice(12),
+    headquarters: branch === HEADQUARTERS_BRANCH,
+    alphanumeric: /[A-Z]/.test(cnpj),
+  };
+}
+
+export function formatCnpj(value: string): string | null {
+  const cnpj = normalizeCnpj(value);
+  if (!cnpj) {
+    return null;
+  }
+  return `${cnpj.slice(0, 2)}.${cnpj.slice(2, 5)}.${cnpj.slice(5, 8)}/${cnpj.slice(8, 12)}-${cnpj.slice(12)}`;
+}
+
+export function maskCnpj(value: string): string | null {
+  const cnpj = normalizeCnpj(value);
+  if (!cnpj) {
+    return null;
+  }
+  return `${cnpj.slice(0, 2)}.***.***/${cnpj.slice(8, 12)}-**`;
+}
@@ -0,0 +1,145 @@
+import { randomInt } from "node:crypto";
+
+type JsonRecord = Record<string, unknown>;
+
+export type ExportConfirmationPolicy = {
+  // Exports asking for more rows than this wait for /orbio confirm; 50000 (the export cap) turns
+  // the row rule off.
+  rowThreshold: number;
+  contacts: boolean;
+  ttlMs: number;
+};
+
+export type PendingConfirmation<T> = {
+  // Tokens are only issued to identified users; without one anybody in the chat could redeem it.
+  userId: string;
+  workspaceId: string;
+  request: T;
+};
+
+export type ConfirmationStore<T> = {
+  issue(entry: PendingConfirmation<T>): string;
+  // Single use: a token that resolves is gone afterwards.
+  take(
+    token: string,
+    requester: { userId: string | null; workspaceId: string },
+  ): { entry: PendingConfirmation<T> } | { error: string };
+};
+
+// No 0/O or 1/I, so tokens survive being read aloud or retyped from a phone.
+const TOKEN_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const TOKEN_LENGTH = 6;
+const MAX_PENDING = 1_000;
+
+function parseInteger(
+  raw: unknown,
+  path: string,
+  fallback: number,
+  bounds: { min: number; max: number },
+): number {
+  if (raw === undefined) {
+    return fallback;
+  }
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < bounds.min || raw > bounds.max) {
+    throw new Error(
+      `Invalid plugin config: ${path} must be an integer between ${bounds.min} and ${bounds.max}`,
+    );
+  }
+  return raw;
+}
+
+export function parseExportConfirmationPolicy(raw: unknown): ExportConfirmationPolicy {
+  if (raw !== undefined && raw !== null && (typeof raw !== "object" || Array.isArray(raw))) {
+    throw new Error("Invalid plugin config: exportConfirmation must be an object");
+  }
+  const record = (raw ?? {}) as JsonRecord;
+  if (record.contacts !== undefined && typeof record.contacts !== "boolean") {
+    throw new Error("Invalid plugin config: exportConfirmation.contacts must be true or false");
+  }
+  return {
+    rowThreshold: parseInteger(record.rowThreshold, "exportConfirmation.rowThreshold", 1_000, {
+      min: 0,
+      max: 50_000,
+    }),
+    contacts: record.contacts ?? true,
+    ttlMs: parseInteger(record.ttlMs, "exportConfirmation.ttlMs", 600_000, {
+      min: 30_000,
+      max: 86_400_000,
+    }),
+  };
+}
+
+// Why an export must be confirmed first, or an empty list when it may run right away.
+export function confirmationReasons(
+  policy: ExportConfirmationPolicy,
+  request: { limit: number; contacts: boolean },
+): string[] {
+  const reasons: string[] = [];
+  if (request.limit > policy.rowThreshold) {
+    reasons.push(`it asks for up to ${request.limit} rows (more than ${policy.rowThreshold})`);
+  }
+  if (policy.contacts && request.contacts) {
+    reasons.push("it includes contact fields");
+  }
+  return reasons;
+}
+
+// Pending exports live in process memory: a restart drops them and the export must be re-run.
+export function createConfirmationStore<T>(
+  ttlMs: number,
+  now: () => number = Date.now,
+): ConfirmationStore<T> {
+  const pending = new Map<string, PendingConfirmation<T> & { expiresAt: number }>();
+
+  const prune = (): void => {
+    for (const [token, entry] of pending) {
+      if (entry.expiresAt <= now()) {
+        pending.delete(token);
+      }
+    }
+    // Map order is insertion order, so the oldest requests go first.
+    for (const token of pending.keys()) {
+      if (pending.size < MAX_PENDING) {
+        break;
+      }
+      pending.delete(token);
+    }
+  };
+
+  return {
+    issue: (entry) => {
+      prune();
+      let token: string;
+      do {
+        token = Array.from(
+          { length: TOKEN_LENGTH },
+          () => TOKEN_ALPHABET[randomInt(TOKEN_ALPHABET.length)],
+        ).join("");
+      } while (pending.has(token));
+      pending.set(token, { ...entry, expiresAt: now() + ttlMs });
+      return token;
+    },
+    take: (rawToken, requester) => {
+      const token = rawToken.trim().toUpperCase();
+      const entry = pending.get(token);
+      if (!entry || entry.expiresAt <= now()) {
+        pending.delete(token);
+        return {
+          error: `No pending export for token ${token}. Tokens expire after ${Math.round(ttlMs / 60_000)} minutes; run the export again.`,
+        };
+      }
+      if (entry.userId !== requester.userId) {
+        return { error: "That confirmation token belongs to another user." };
+      }
+      if (entry.workspaceId !== requester.workspaceId) {
+        return {
+          error: `That export was planned for workspace ${entry.workspaceId}; confirm it with --workspace ${entry.workspaceId}.`,
+        };
+      }
+      pending.delete(token);
+      return {
+        entry: { userId: entry.userId, workspaceId: entry.workspaceId, request: entry.request },
+      };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { COMPANY_SIZE_CODES, REGISTRATION_STATUS_CODES, UF_NAMES, codeLabel } from "./labels.js";
+import { formatCnae, formatMunicipality } from "./reference.js";
+
+type JsonRecord = Record<string, unknown>;
+
+// The `explain` block a search returns with `output.include_explain: true`: the filters Orbio
+// derived from the query text, the words it could not use and the expected result count.
+export type SearchExplanation = {
+  interpretedFilters: JsonRecord;
+  unmatchedTerms: string[];
+  estimatedTotal: number | null;
+  notes: string[];
+};
+
+const FILTER_LABELS: Record<string, [string, (value: string) => string]> = {
+  cnae: ["Activity (CNAE)", (code) => formatCnae(code) ?? code],
+  uf: [
+    "State",
+    (uf) => (UF_NAMES[uf.toUpperCase()] ? `${uf} (${UF_NAMES[uf.toUpperCase()]})` : uf),
+  ],
+  municipality_ibge: ["City", (code) => formatMunicipality(code) ?? code],
+  company_size_code: ["Size", (code) => codeLabel(COMPANY_SIZE_CODES, code) ?? code],
+  registration_status: ["Status", (code) => codeLabel(REGISTRATION_STATUS_CODES, code) ?? code],
+  started_after: ["Started after", (date) => date],
+};
+
+function strings(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+export function parseSearchExplanation(payload: unknown): SearchExplanation | null {
+  const explain = (payload as JsonRecord | null)?.explain;
+  if (!explain || typeof explain !== "object" || Array.isArray(explain)) {
+    return null;
+  }
+  const record = explain as JsonRecord;
+  const filters = record.interpreted_filters;
+  const total = record.estimated_total;
+  return {
+    interpretedFilters:
+      filters && typeof filters === "object" && !Array.isArray(filters)
+        ? (filters as JsonRecord)
+        : {},
+    unmatchedTerms: strings(record.unmatched_terms),
+    estimatedTotal: typeof total === "number" && Number.isFinite(total) ? total : null,
+    notes: strings(record.notes),
+  };
+}
+
+// One readable line per filter, codes decoded; filters this plugin does not know are shown as-is.
+export function describeFilters(filters: JsonRecord | undefined): string[] {
+  return Object.entries(filters ?? {}).flatMap(([key, value]) => {
+    const values = strings(value);
+    if (values.length === 0) {
+      return [];
+    }
+    const [label, format] = FILTER_LABELS[key] ?? [key, (item: string) => item];
+    return [`- ${label}: ${values.map(format).join("; ")}`];
+  });
+}
+
+export function renderExplanation(
+  queryText: string,
+  explanation: SearchExplanation | null,
+  requestFilters: JsonRecord | undefined,
+): string {
+  const lines = [`How Orbio read "${queryText}":`];
+  if (!explanation) {
+    lines.push("Orbio returned no interpretation for this query.");
+  } else {
+    const interpreted = describeFilters(explanation.interpretedFilters);
+    lines.push(
+      "From the query text:",
+      ...(interpreted.length > 0 ? interpreted : ["- no filters"]),
+    );
+  }
+  const requested = describeFilters(requestFilters);
+  if (requested.length > 0) {
+    lines.push("From your filters:", ...requested);
+  }
+  if (explanation?.unmatchedTerms.length) {
+    lines.push(
+      `Not understood: ${explanation.unmatchedTerms.map((term) => `"${term}"`).join(", ")}`,
+    );
+  }
+  if (explanation && explanation.estimatedTotal !== null) {
+    lines.push(`Estimated matches: ${explanation.estimatedTotal}`);
+  }
+  for (const note of explanation?.notes ?? []) {
+    lines.push(`Note: ${note}`);
+  }
+  return lines.join("\n");
+}
@@ -1,7 +1,273 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { createHash, randomUUID } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
 
+import type { MeterProvider, TracerProvider } from "@opentelemetry/api";
 import { Type, type Static } from "@sinclair/typebox";
 
+import {
+  accessDenial,
+  parseAccessPolicy,
+  resolveAccess,
+  type AccessNeed,
+  type AccessPolicy,
+} from "./access.js";
+import {
+  createFileAuditSink,
+  createStdoutAuditSink,
+  createWebhookAuditSink,
+  type AuditEvent,
+  type AuditOutcome,
+  type AuditSink,
+} from "./audit.js";
+import { formatCnpj, normalizeCnpj } from "./cnpj.js";
+import {
+  confirmationReasons,
+  createConfirmationStore,
+  parseExportConfirmationPolicy,
+  type ExportConfirmationPolicy,
+} from "./confirmations.js";
+import { parseSearchExplanation, renderExplanation, type SearchExplanation } from "./explain.js";
+import {
+  BRAZIL_UFS,
+  COMPANY_SIZE_CODES,
+  REGISTRATION_STATUS_CODES,
+  codeLabel,
+  lookupCode,
+} from "./labels.js";
+import {
+  createMemoryRateLimiter,
+  createRedisRateLimiter,
+  type RateLimiter,
+  type TokenBucketRule,
+} from "./rate-limit.js";
+import {
+  CONTACT_FIELDS,
+  parseContactRedactionPolicy,
+  redactContacts,
+  resolveContactRedaction,
+  type AppliedRedaction,
+  type ContactRedaction,
+  type ContactRedactionPolicy,
+} from "./redaction.js";
+import { createRedisConnection, parseRedisUrl } from "./redis.js";
+import { findCnaes, findMunicipalities } from "./reference.js";
+import {
+  backoffDelayMs,
+  createCircuitBreaker,
+  isRetryable,
+  parseCircuitBreakerOptions,
+  parseRetryAfterMs,
+  parseRetryPolicy,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type RetryPolicy,
+} from "./retry.js";
+import {
+  API_KEY_SETTINGS,
+  createApiKeyResolver,
+  parseApiKeyRefs,
+  type ApiKeyResolver,
+  type SecretProvider,
+  type SecretRef,
+} from "./secrets.js";
+import {
+  createTelemetry,
+  httpRoute,
+  type HttpAttemptResult,
+  type OrbioTelemetry,
+} from "./telemetry.js";
+import {
+  parseWorkspaceEntries,
+  parseWorkspaceRouting,
+  resolveWorkspace,
+  type WorkspaceRouting,
+} from "./workspaces.js";
+import {
+  createFileSearchCache,
+  createMemorySearchCache,
+  type SearchCache,
+} from "./search-cache.js";
+import {
+  createFileSavedSearchStore,
+  createMemorySavedSearchStore,
+  type SavedSearch,
+  type SavedSearchStore,
+} from "./saved-searches.js";
+import {
+  VIEW_MODES,
+  defaultViewForChannel,
+  parseViewMode,
+  renderDocument,
+  type RenderDocument,
+  type ViewMode,
+} from "./render.js";
+import {
+  USAGE_RETENTION_DAYS,
+  createFileUsageStore,
+  createMemoryUsageStore,
+  summarizeUsage,
+  usageHour,
+  type UsageCounts,
+  type UsageStore,
+} from "./usage.js";
+import {
+  createFileWatchStore,
+  createMemoryWatchStore,
+  diffWatchedCompanies,
+  type SearchWatch,
+  type WatchStore,
+} from "./watches.js";
+
+export {
+  ACCESS_ACTIONS,
+  accessDenial,
+  parseAccessPolicy,
+  resolveAccess,
+  type AccessAction,
+  type AccessGrant,
+  type AccessNeed,
+  type AccessPolicy,
+  type AccessRule,
+  type AccessSubject,
+} from "./access.js";
+export {
+  AUDIT_OUTCOMES,
+  createFileAuditSink,
+  createStdoutAuditSink,
+  createWebhookAuditSink,
+  type AuditEvent,
+  type AuditOutcome,
+  type AuditSink,
+} from "./audit.js";
+export {
+  computeCnpjCheckDigits,
+  formatCnpj,
+  isValidCnpj,
+  maskCnpj,
+  normalizeCnpj,
+  parseCnpj,
+  stripCnpj,
+  type CnpjParts,
+} from "./cnpj.js";
+export {
+  confirmationReasons,
+  createConfirmationStore,
+  parseExportConfirmationPolicy,
+  type ConfirmationStore,
+  type ExportConfirmationPolicy,
+  type PendingConfirmation,
+} from "./confirmations.js";
+export {
+  describeFilters,
+  parseSearchExplanation,
+  renderExplanation,
+  type SearchExplanation,
+} from "./explain.js";
+export {
+  createMemoryRateLimiter,
+  createRedisRateLimiter,
+  type RateLimitDecision,
+  type RateLimiter,
+  type TokenBucketRule,
+} from "./rate-limit.js";
+export {
+  CONTACT_REDACTION_MODES,
+  maskEmail,
+  maskPhone,
+  parseContactRedactionPolicy,
+  redactContacts,
+  resolveContactRedaction,
+  type AppliedRedaction,
+  type ContactRedaction,
+  type ContactRedactionPolicy,
+} from "./redaction.js";
+export {
+  createRedisConnection,
+  RedisReplyError,
+  type RedisCommandClient,
+  type RedisConnection,
+} from "./redis.js";
+export {
+  findCnaes,
+  findMunicipalities,
+  formatCnae,
+  formatCnaeCode,
+  formatMunicipality,
+  lookupCnae,
+  lookupMunicipality,
+  type CnaeEntry,
+  type Municipality,
+} from "./reference.js";
+export {
+  backoffDelayMs,
+  createCircuitBreaker,
+  isRetryable,
+  parseCircuitBreakerOptions,
+  parseRetryAfterMs,
+  parseRetryPolicy,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type RetryPolicy,
+} from "./retry.js";
+export {
+  API_KEY_SETTINGS,
+  createApiKeyResolver,
+  parseApiKeyRefs,
+  parseSecretRef,
+  type ApiKeyResolver,
+  type SecretProvider,
+  type SecretRef,
+} from "./secrets.js";
+export {
+  createFileSavedSearchStore,
+  createMemorySavedSearchStore,
+  type SavedSearch,
+  type SavedSearchStore,
+} from "./saved-searches.js";
+export {
+  createFileSearchCache,
+  createMemorySearchCache,
+  type SearchCache,
+  type SearchCacheEntry,
+  type SearchCacheOptions,
+} from "./search-cache.js";
+export type { NamedRecordStore } from "./store.js";
+export {
+  createTelemetry,
+  httpRoute,
+  type HttpAttemptResult,
+  type OrbioTelemetry,
+  type TelemetryProviders,
+} from "./telemetry.js";
+export {
+  createFileUsageStore,
+  createMemoryUsageStore,
+  summarizeUsage,
+  usageHour,
+  type UsageBucket,
+  type UsageCounts,
+  type UsageStore,
+  type UsageSummary,
+} from "./usage.js";
+export {
+  createFileWatchStore,
+  createMemoryWatchStore,
+  diffWatchedCompanies,
+  type SearchWatch,
+  type WatchDiff,
+  type WatchStore,
+} from "./watches.js";
+export {
+  parseWorkspaceEntries,
+  parseWorkspaceRouting,
+  resolveWorkspace,
+  WORKSPACE_SETTINGS,
+  type WorkspaceRoute,
+  type WorkspaceRouting,
+} from "./workspaces.js";
+
 type JsonRecord = Record<string, unknown>;
 
 const PLUGIN_ID = "orbio-openclaw";
@@ -9,25 +275,99 @@ const PLUGIN_NAME = "Orbio (official)";
 const PLUGIN_VERSION = "0.1.0";
 const EXECUTION_CONTEXT_HEADER = "X-Orbio-Execution-Context";
 const EXECUTION_CONTEXT_INTEGRATION = "openclaw";
+const MAX_REMEMBERED_SEARCHES = 500;
+const MAX_SAVED_SEARCHES = 100;
+const MAX_WATCHES = 20;
+const WATCH_PAGE_SIZE = 500;
+const WATCH_MAX_COMPANIES = 5000;
+const WATCH_MAX_LOOKUPS = 20;
+const WATCH_ALERT_LINES = 20;
+const WATCH_FIELDS = ["cnpj", "legal_name", "trade_name", "registration_status"];
+const EXPORT_SUCCESS_STATUSES = ["ready", "completed", "succeeded"];
+const EXPORT_FAILURE_STATUSES = ["failed", "error", "expired", "canceled", "cancelled"];
+const GROUP_CHAT_TYPES = ["group", "supergroup", "channel", "room"];
+const EXPORT_LIST_STATUSES = ["queued", "processing", "ready", "failed", "expired", "canceled"];
 
 type OrbioPluginConfig = {
   baseUrl: string;
-  apiKey: string;
+  // Primary key source first, then the optional secondary used while rotating keys.
+  apiKeys: SecretRef[];
   workspaceId: string;
   channel: string;
   sendExecutionContext: boolean;
   timeoutMs: number;
   maxRequestsPerMinute: number;
-  retryCount: number;
-  retryBackoffMs: number;
+  maxRequestsPerMinutePerUser: number;
+  rateLimitBurst: number;
+  rateLimiter: "memory" | "redis";
+  rateLimiterUrl: string;
+  retryPolicy: RetryPolicy;
+  circuitBreaker: CircuitBreakerOptions;
   capabilitiesTtlMs: number;
+  exportWatch: boolean;
+  exportPollIntervalMs: number;
+  exportPollMaxIntervalMs: number;
+  exportWatchTimeoutMs: number;
+  exportWaitTimeoutMs: number;
+  exportConfirmation: ExportConfirmationPolicy;
+  savedSearchStore: "file" | "memory";
+  savedSearchesPath: string;
+  watchesPath: string;
+  watchCheckIntervalMs: number;
+  searchCache: "off" | "memory" | "file";
+  searchCachePath: string;
+  searchCacheTtlMs: number;
+  searchCacheMaxEntries: number;
+  usagePath: string;
+  usageWarningPercent: number;
+  accessPolicy: AccessPolicy | null;
+  contactRedaction: ContactRedactionPolicy;
+  auditLog: "off" | "file" | "stdout" | "webhook";
+  auditLogPath: string;
+  auditWebhookUrl: string;
   userAgent: string;
 };
 
+type PluginConfig = OrbioPluginConfig & {
+  workspaces: Record<string, OrbioPluginConfig>;
+  workspaceRouting: WorkspaceRouting;
+};
+
 type ToolResult = {
   content: Array<{ type: "text"; text: string }>;
 };
 
+type Workspace = {
+  cfg: OrbioPluginConfig;
+  http: OrbioHttpClient;
+  capabilities: { expiresAt: number; value: CapabilitiesResponse } | null;
+  quotas: Record<string, ApiQuota>;
+};
+
+type InvocationContext = {
+  // Null when the host names no conversation; nothing is then remembered between calls.
+  sessionKey: string | null;
+  channel: string | null;
+  userId: string | null;
+  roles: string[];
+  groupChat: boolean;
+  teamId: string | null;
+  workspace: string | null;
+};
+
+type RememberedSearch = {
+  queryText: string;
+  filters: SearchFilters | undefined;
+  sort: SortKey[] | undefined;
+  limit: number;
+  fields: string[];
+  fieldsRequested: string[] | undefined;
+  withContactRequested: boolean;
+  contactGranted: boolean;
+  redaction: AppliedRedaction | null;
+  nextCursor: string | null;
+};
+
 type CapabilitiesResponse = {
   current_snapshot: string;
   snapshot_date: string;
@@ -51,6 +391,13 @@ type AccountSearchResponse = {
   next_cursor: string | null;
 };
 
+type AccountLookupResponse = {
+  request_id: string;
+  snapshot: string;
+  snapshot_date: string;
+  account: JsonRecord;
+};
+
 type ExportCreateResponse = {
   request_id: string;
   snapshot: string;
@@ -77,6 +424,12 @@ type ExportStatusResponse = {
   download_url: string | null;
 };
 
+type ExportListResponse = {
+  exports: Array<ExportStatusResponse & { created_at?: string | null }>;
+  has_more: boolean;
+  next_cursor: string | null;
+};
+
 const SAFE_DEFAULT_FIELDS = [
   "cnpj",
   "legal_name",
@@ -91,52 +444,155 @@ const SAFE_DEFAULT_FIELDS = [
   "has_phone",
 ] as const;
 
-const CONTACT_FIELDS = [
-  "email",
-  "phone1",
-  "area_code1",
-  "phone2",
-  "area_code2",
-  "street_type",
-  "street",
-  "street_number",
-  "address_complement",
-  "neighborhood",
-  "postal_code",
-] as const;
+const ViewModeInput = Type.Union(VIEW_MODES.map((view) => Type.Literal(view)));
+
+const SearchFiltersInput = Type.Object(
+  {
+    uf: Type.Optional(Type.Array(Type.String({ minLength: 2, maxLength: 2 }), { maxItems: 27 })),
+    municipality_ibge: Type.Optional(
+      Type.Array(Type.String({ minLength: 1, maxLength: 16 }), { maxItems: 100 }),
+    ),
+    cnae: Type.Optional(
+      Type.Array(Type.String({ minLength: 1, maxLength: 16 }), { maxItems: 100 }),
+    ),
+    company_size_code: Type.Optional(
+      Type.Array(Type.String({ minLength: 1, maxLength: 16 }), { maxItems: 5 }),
+    ),
+    registration_status: Type.Optional(
+      Type.Array(Type.String({ minLength: 1, maxLength: 16 }), { maxItems: 5 }),
+    ),
+    started_after: Type.Optional(Type.String({ minLength: 10, maxLength: 10 })),
+  },
+  { additionalProperties: false },
+);
+
+type SearchFilters = Static<typeof SearchFiltersInput>;
+
+const SortKeyInput = Type.Object(
+  {
+    field: Type.String({ minLength: 1, maxLength: 64 }),
+    direction: Type.Optional(Type.Union([Type.Literal("asc"), Type.Literal("desc")])),
+  },
+  { additionalProperties: false },
+);
+
+type SortKey = Static<typeof SortKeyInput>;
+
+const FieldsInput = Type.Array(Type.String({ minLength: 1, maxLength: 64 }), {
+  minItems: 1,
+  maxItems: 50,
+});
+
+const SortInput = Type.Array(SortKeyInput, { minItems: 1, maxItems: 5 });
 
 const SearchToolInput = Type.Object(
   {
     query_text: Type.String({ minLength: 1, maxLength: 500 }),
+    filters: Type.Optional(SearchFiltersInput),
+    sort: Type.Optional(SortInput),
+    fields: Type.Optional(FieldsInput),
     limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50000 })),
     with_contact: Type.Optional(Type.Boolean()),
+    view: Type.Optional(ViewModeInput),
+    explain: Type.Optional(Type.Boolean()),
+    dry_run: Type.Optional(Type.Boolean()),
   },
   { additionalProperties: false },
 );
 
 type SearchToolInput = Static<typeof SearchToolInput>;
 
+const ExplainToolInput = Type.Object(
+  {
+    query_text: Type.String({ minLength: 1, maxLength: 500 }),
+    filters: Type.Optional(SearchFiltersInput),
+  },
+  { additionalProperties: false },
+);
+
+type ExplainToolInput = Static<typeof ExplainToolInput>;
+
+const CompanyToolInput = Type.Object(
+  {
+    cnpj: Type.String({ minLength: 14, maxLength: 32 }),
+    with_contact: Type.Optional(Type.Boolean()),
+    view: Type.Optional(ViewModeInput),
+  },
+  { additionalProperties: false },
+);
+
+type CompanyToolInput = Static<typeof CompanyToolInput>;
+
 const ExportToolInput = Type.Object(
   {
     query_text: Type.String({ minLength: 1, maxLength: 500 }),
+    filters: Type.Optional(SearchFiltersInput),
+    sort: Type.Optional(SortInput),
+    fields: Type.Optional(FieldsInput),
     limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50000 })),
     format: Type.Optional(Type.Union([Type.Literal("csv"), Type.Literal("html")])),
     with_contact: Type.Optional(Type.Boolean()),
+    wait: Type.Optional(Type.Boolean()),
+    view: Type.Optional(ViewModeInput),
+    dry_run: Type.Optional(Type.Boolean()),
   },
   { additionalProperties: false },
 );
 
 type ExportToolInput = Static<typeof ExportToolInput>;
 
+const SearchNextToolInput = Type.Object(
+  {
+    view: Type.Optional(ViewModeInput),
+  },
+  { additionalProperties: false },
+);
+
+type SearchNextToolInput = Static<typeof SearchNextToolInput>;
+
 const ExportStatusToolInput = Type.Object(
   {
     export_id: Type.String({ minLength: 1, maxLength: 128 }),
+    view: Type.Optional(ViewModeInput),
   },
   { additionalProperties: false },
 );
 
 type ExportStatusToolInput = Static<typeof ExportStatusToolInput>;
 
+const ExportListToolInput = Type.Object(
+  {
+    status: Type.Optional(Type.Union(EXPORT_LIST_STATUSES.map((status) => Type.Literal(status)))),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100 })),
+    cursor: Type.Optional(Type.String({ minLength: 1, maxLength: 500 })),
+  },
+  { additionalProperties: false },
+);
+
+type ExportListToolInput = Static<typeof ExportListToolInput>;
+
+const CapabilitiesToolInput = Type.Object({}, { additionalProperties: false });
+
+const UsageToolInput = Type.Object(
+  {
+    since: Type.Optional(
+      Type.String({ pattern: "^[0-9]{1,4}[hdHD]$", description: "Window such as 24h or 7d" }),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+type UsageToolInput = Static<typeof UsageToolInput>;
+
+const ExportCancelToolInput = Type.Object(
+  {
+    export_id: Type.String({ minLength: 1, maxLength: 128 }),
+  },
+  { additionalProperties: false },
+);
+
+type ExportCancelToolInput = Static<typeof ExportCancelToolInput>;
+
 const CommandToolInput = Type.Object(
   {
     command: Type.Optional(Type.String({ minLength: 1, maxLength: 2000 })),
@@ -161,6 +617,20 @@ class PluginRateLimitError extends Error {
   }
 }
 
+class PluginAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PluginAccessError";
+  }
+}
+
+class PluginValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PluginValidationError";
+  }
+}
+
 class OrbioApiError extends Error {
   public readonly status: number;
   public readonly code: string | null;
@@ -184,31 +654,40 @@ class OrbioApiError extends Error {
   }
 }
 
-class MinuteWindowLimiter {
-  private readonly events = new Map<string, number[]>();
-
-  check(key: string, limit: number): void {
-    const now = Date.now();
-    const cutoff = now - 60_000;
-    const current = this.events.get(key) ?? [];
-    const kept = current.filter((ts) => ts >= cutoff);
-
-    if (kept.length >= limit) {
-      const oldest = kept[0] ?? now;
-      const retryAfterMs = Math.max(1, 60_000 - (now - oldest));
-      throw new PluginRateLimitError(Math.ceil(retryAfterMs / 1000));
-    }
+type ApiResponseEvent = {
+  method: "GET" | "POST";
+  path: string;
+  status: number;
+  requestId: string;
+  headers: Headers;
+  payload: unknown;
+};
 
-    kept.push(now);
-    this.events.set(key, kept);
-  }
-}
+type PluginLogger = {
+  warn: (message: string) => void;
+};
 
 class OrbioHttpClient {
   private readonly cfg: OrbioPluginConfig;
+  private readonly onResponse: ((event: ApiResponseEvent) => void) | undefined;
+  private readonly telemetry: OrbioTelemetry;
+  private readonly breaker: CircuitBreaker;
+  private readonly keys: ApiKeyResolver;
+  private readonly logger: PluginLogger;
 
-  constructor(cfg: OrbioPluginConfig) {
+  constructor(
+    cfg: OrbioPluginConfig,
+    onResponse: ((event: ApiResponseEvent) => void) | undefined,
+    telemetry: OrbioTelemetry,
+    keys: ApiKeyResolver,
+    logger: PluginLogger,
+  ) {
     this.cfg = cfg;
+    this.onResponse = onResponse;
+    this.telemetry = telemetry;
+    this.breaker = createCircuitBreaker(cfg.circuitBreaker);
+    this.keys = keys;
+    this.logger = logger;
   }
 
   async request<T>(
@@ -216,46 +695,143 @@ class OrbioHttpClient {
     path: string,
     body?: unknown,
     extraHeaders?: Record<string, string>,
+  ): Promise<T> {
+    const blockedMs = this.breaker.blockedForMs();
+    if (blockedMs > 0) {
+      throw new OrbioApiError({
+        status: 0,
+        code: "CIRCUIT_OPEN",
+        detail: "Orbio API calls are paused after repeated dependency failures.",
+        requestId: null,
+        retryAfter: String(Math.ceil(blockedMs / 1000)),
+      });
+    }
+    try {
+      const payload = await this.send<T>(method, path, body, extraHeaders);
+      this.breaker.recordSuccess();
+      return payload;
+    } catch (error) {
+      if (error instanceof OrbioApiError && isDependencyFailure(error)) {
+        this.breaker.recordFailure();
+      } else if (error instanceof OrbioApiError && error.status > 0) {
+        this.breaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  private async send<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown,
+    extraHeaders?: Record<string, string>,
   ): Promise<T> {
     const url = `${this.cfg.baseUrl}${path}`;
     const requestId = randomUUID();
+    const policy = this.cfg.retryPolicy;
+    const startedAt = Date.now();
+    // One key per logical request, re-sent unchanged on every retry.
+    const headers: Record<string, string> = { ...(extraHeaders ?? {}) };
+    if (method === "POST" && !headers["Idempotency-Key"]) {
+      headers["Idempotency-Key"] = buildIdempotencyKey("request", { path, body: body ?? null });
+    }
+    const retryable = isRetryable(policy, {
+      method,
+      route: httpRoute(path),
+      idempotencyKey: headers["Idempotency-Key"],
+    });
+    // The wait before the next attempt, or null when the failure should surface now.
+    const retryDelay = (attempt: number, retryAfter: string | null): number | null => {
+      if (!retryable || attempt >= policy.maxRetries) {
+        return null;
+      }
+      const delayMs = parseRetryAfterMs(retryAfter) ?? backoffDelayMs(policy, attempt);
+      return Date.now() - startedAt + delayMs <= policy.maxElapsedMs ? delayMs : null;
+    };
+    let apiKey = await this.resolveKey(() => this.keys.current());
+    let keyRotated = false;
 
-    for (let attempt = 0; attempt <= this.cfg.retryCount; attempt += 1) {
+    for (let attempt = 0; attempt <= policy.maxRetries; attempt += 1) {
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), this.cfg.timeoutMs);
+      const span = this.telemetry.startHttpAttempt(method, path, attempt);
+      const attemptResult: HttpAttemptResult = {
+        status: 0,
+        errorCode: null,
+        requestId: null,
+        retry: null,
+      };
 
       try {
         const response = await fetch(url, {
           method,
           headers: {
             Accept: "application/json",
-            Authorization: `Bearer ${this.cfg.apiKey}`,
+            Authorization: `Bearer ${apiKey}`,
             "Content-Type": "application/json",
             "User-Agent": this.cfg.userAgent,
             "X-Request-Id": requestId,
             ...this.buildExecutionContextHeader(requestId),
-            ...(extraHeaders ?? {}),
+            ...headers,
           },
           body: body === undefined ? undefined : JSON.stringify(body),
           signal: controller.signal,
         });
         clearTimeout(timeout);
+        attemptResult.status = response.status;
+        attemptResult.requestId = response.headers.get("X-Request-Id") ?? requestId;
 
         if (response.ok) {
-          if (response.status === 204) {
-            return {} as T;
-          }
-          const payload = await this.parseJsonSafe(response);
+          const payload = response.status === 204 ? null : await this.parseJsonSafe(response);
+          this.onResponse?.({
+            method,
+            path,
+            status: response.status,
+            requestId: response.headers.get("X-Request-Id") ?? requestId,
+            headers: response.headers,
+            payload,
+          });
           return (payload ?? {}) as T;
         }
 
-        if (response.status >= 500 && attempt < this.cfg.retryCount) {
-          await sleep(this.cfg.retryBackoffMs * (attempt + 1));
+        const payload = await this.parseJsonSafe(response);
+        const { code, detail } = parseProblem(payload);
+        attemptResult.errorCode = code ?? `HTTP_${response.status}`;
+        // A rejected key may have been rotated: re-read its source, or fall over to the secondary
+        // key, once per request. The swap does not count against the retry budget.
+        if (code?.toLowerCase() === "authentication_invalid" && !keyRotated) {
+          const nextKey = await this.resolveKey(() => this.keys.recover(apiKey));
+          if (nextKey) {
+            apiKey = nextKey;
+            keyRotated = true;
+            attemptResult.retry = "authentication";
+            this.telemetry.endHttpAttempt(span, method, path, attemptResult);
+            attempt -= 1;
+            continue;
+          }
+        }
+        // Quota resets are hours away; plain 429s clear within Retry-After.
+        const transient =
+          response.status >= 500 ||
+          (response.status === 429 &&
+            policy.retryRateLimited &&
+            code?.toLowerCase() !== "quota_exceeded");
+        const delayMs = transient ? retryDelay(attempt, response.headers.get("Retry-After")) : null;
+        if (delayMs !== null) {
+          attemptResult.retry = response.status === 429 ? "rate_limited" : "server_error";
+          this.telemetry.endHttpAttempt(span, method, path, attemptResult);
+          await sleep(delayMs);
           continue;
         }
 
-        const payload = await this.parseJsonSafe(response);
-        const { code, detail } = parseProblem(payload);
+        this.onResponse?.({
+          method,
+          path,
+          status: response.status,
+          requestId: response.headers.get("X-Request-Id") ?? requestId,
+          headers: response.headers,
+          payload,
+        });
         throw new OrbioApiError({
           status: response.status,
           code,
@@ -265,14 +841,18 @@ class OrbioHttpClient {
         });
       } catch (error) {
         clearTimeout(timeout);
-        const isAbort = error instanceof Error && error.name === "AbortError";
-        if ((isAbort || isNetworkError(error)) && attempt < this.cfg.retryCount) {
-          await sleep(this.cfg.retryBackoffMs * (attempt + 1));
-          continue;
-        }
         if (error instanceof OrbioApiError) {
           throw error;
         }
+        const isAbort = error instanceof Error && error.name === "AbortError";
+        attemptResult.errorCode = isAbort ? "TIMEOUT" : "NETWORK_ERROR";
+        const delayMs = isAbort || isNetworkError(error) ? retryDelay(attempt, null) : null;
+        if (delayMs !== null) {
+          attemptResult.retry = isAbort ? "timeout" : "network";
+          this.telemetry.endHttpAttempt(span, method, path, attemptResult);
+          await sleep(delayMs);
+          continue;
+        }
         const detail = isAbort
           ? `Request timed out after ${this.cfg.timeoutMs} ms.`
           : "Network failure while calling Orbio API.";
@@ -283,6 +863,8 @@ class OrbioHttpClient {
           requestId: null,
           retryAfter: null,
         });
+      } finally {
+        this.telemetry.endHttpAttempt(span, method, path, attemptResult);
       }
     }
 
@@ -295,6 +877,22 @@ class OrbioHttpClient {
     });
   }
 
+  private async resolveKey<T>(load: () => Promise<T>): Promise<T> {
+    try {
+      return await load();
+    } catch (error) {
+      // The cause can name the key file path, so it goes to the host log and not into chat.
+      this.logger.warn(`[orbio] ${(error as Error).message}`);
+      throw new OrbioApiError({
+        status: 0,
+        code: "API_KEY_UNAVAILABLE",
+        detail: "Orbio API key could not be loaded.",
+        requestId: null,
+        retryAfter: null,
+      });
+    }
+  }
+
   private async parseJsonSafe(response: Response): Promise<unknown | null> {
     const text = await response.text();
     if (!text.trim()) {
@@ -394,26 +992,170 @@ function normalizeBaseUrl(value: string): string {
   return value.endsWith("/") ? value.slice(0, -1) : value;
 }
 
-function readConfig(api: unknown): OrbioPluginConfig {
+// The top-level settings describe the default workspace; each `workspaces` entry overrides some of
+// them for another workspace. With workspaces configured the top-level apiKey becomes optional.
+function readConfig(api: unknown): PluginConfig {
   const asRecord = (api ?? {}) as JsonRecord;
   const rawConfig = ((asRecord.config ?? {}) as JsonRecord) ?? {};
   const env = ((asRecord.env ?? {}) as Record<string, string | undefined>) ?? {};
+  const hasSecretProvider = typeof asRecord.secretProvider === "function";
+
+  const workspaces: Record<string, OrbioPluginConfig> = {};
+  for (const [id, entry] of Object.entries(parseWorkspaceEntries(rawConfig.workspaces))) {
+    const inherited =
+      "apiKey" in entry || "apiKeyFile" in entry
+        ? Object.fromEntries(
+            Object.entries(rawConfig).filter(
+              ([key]) => !(API_KEY_SETTINGS as readonly string[]).includes(key),
+            ),
+          )
+        : rawConfig;
+    try {
+      workspaces[id] = readWorkspaceConfig(
+        { ...inherited, ...entry, workspaceId: id },
+        env,
+        hasSecretProvider,
+      );
+    } catch (error) {
+      throw new Error(`${(error as Error).message} (workspace ${id})`);
+    }
+  }
+  const ids = Object.keys(workspaces);
+  const topLevel =
+    ids.length === 0 || parseApiKeyRefs(rawConfig, env, hasSecretProvider).length > 0
+      ? readWorkspaceConfig(rawConfig, env, hasSecretProvider)
+      : null;
+  if (topLevel && !workspaces[topLevel.workspaceId]) {
+    workspaces[topLevel.workspaceId] = topLevel;
+    ids.unshift(topLevel.workspaceId);
+  }
+  const fallback = topLevel?.workspaceId ?? ids[0];
+  if (fallback === undefined) {
+    throw new Error("Missing plugin config: apiKey");
+  }
+  const workspaceRouting = parseWorkspaceRouting(rawConfig.workspaceRouting, ids, fallback);
+  const defaults = workspaces[workspaceRouting.default.workspaceId];
+  if (!defaults) {
+    throw new Error(
+      `Invalid plugin config: unknown default workspace "${workspaceRouting.default.workspaceId}"`,
+    );
+  }
+  return { ...defaults, workspaces, workspaceRouting };
+}
 
+function readWorkspaceConfig(
+  rawConfig: JsonRecord,
+  env: Record<string, string | undefined>,
+  hasSecretProvider: boolean,
+): OrbioPluginConfig {
   const baseUrl = String(rawConfig.baseUrl ?? env.ORBIO_BASE_URL ?? "").trim();
-  const apiKey = String(rawConfig.apiKey ?? env.ORBIO_API_KEY ?? "").trim();
 
   if (!baseUrl) {
     throw new Error("Missing plugin config: baseUrl");
   }
-  if (!apiKey) {
+  const apiKeys = parseApiKeyRefs(rawConfig, env, hasSecretProvider);
+  if (apiKeys.length === 0) {
     throw new Error("Missing plugin config: apiKey");
   }
 
   const timeoutMs = parsePositiveInt(rawConfig.timeoutMs, 20_000);
   const maxRequestsPerMinute = parsePositiveInt(rawConfig.maxRequestsPerMinute, 30);
-  const retryCount = Math.min(3, parseNonNegativeInt(rawConfig.retryCount, 1));
-  const retryBackoffMs = parsePositiveInt(rawConfig.retryBackoffMs, 300);
+  const maxRequestsPerMinutePerUser = parseNonNegativeInt(rawConfig.maxRequestsPerMinutePerUser, 0);
+  const rateLimitBurst = parsePositiveInt(rawConfig.rateLimitBurst, maxRequestsPerMinute);
+  const rateLimiter = String(rawConfig.rateLimiter ?? env.ORBIO_RATE_LIMITER ?? "memory")
+    .trim()
+    .toLowerCase();
+  if (rateLimiter !== "memory" && rateLimiter !== "redis") {
+    throw new Error('Invalid plugin config: rateLimiter must be "memory" or "redis"');
+  }
+  const rateLimiterUrl = String(
+    rawConfig.rateLimiterUrl ?? env.ORBIO_RATE_LIMITER_URL ?? "",
+  ).trim();
+  if (rateLimiter === "redis") {
+    if (!rateLimiterUrl) {
+      throw new Error(
+        'Missing plugin config: rateLimiterUrl (required when rateLimiter is "redis")',
+      );
+    }
+    try {
+      parseRedisUrl(rateLimiterUrl);
+    } catch (error) {
+      throw new Error(`Invalid plugin config: rateLimiterUrl. ${(error as Error).message}`);
+    }
+  }
+  const retryPolicy = parseRetryPolicy(rawConfig.retryPolicy, {
+    maxRetries: Math.min(3, parseNonNegativeInt(rawConfig.retryCount, 1)),
+    baseDelayMs: parsePositiveInt(rawConfig.retryBackoffMs, 300),
+  });
+  const circuitBreaker = parseCircuitBreakerOptions(rawConfig.circuitBreaker);
   const capabilitiesTtlMs = parsePositiveInt(rawConfig.capabilitiesTtlMs, 60_000);
+  const exportWatch = parseBoolean(rawConfig.exportWatch, true);
+  const exportPollIntervalMs = parsePositiveInt(rawConfig.exportPollIntervalMs, 2_000);
+  const exportPollMaxIntervalMs = Math.max(
+    exportPollIntervalMs,
+    parsePositiveInt(rawConfig.exportPollMaxIntervalMs, 30_000),
+  );
+  const exportWatchTimeoutMs = parsePositiveInt(rawConfig.exportWatchTimeoutMs, 1_800_000);
+  const exportWaitTimeoutMs = Math.min(
+    600_000,
+    parsePositiveInt(rawConfig.exportWaitTimeoutMs, 60_000),
+  );
+  const exportConfirmation = parseExportConfirmationPolicy(rawConfig.exportConfirmation);
+  const savedSearchStore = String(rawConfig.savedSearchStore ?? "file")
+    .trim()
+    .toLowerCase();
+  if (savedSearchStore !== "file" && savedSearchStore !== "memory") {
+    throw new Error('Invalid plugin config: savedSearchStore must be "file" or "memory"');
+  }
+  const savedSearchesPath =
+    String(rawConfig.savedSearchesPath ?? env.ORBIO_SAVED_SEARCHES_PATH ?? "").trim() ||
+    join(homedir(), ".openclaw", "orbio", "saved-searches.json");
+  const watchesPath =
+    String(rawConfig.watchesPath ?? env.ORBIO_WATCHES_PATH ?? "").trim() ||
+    join(homedir(), ".openclaw", "orbio", "watches.json");
+  const watchCheckIntervalMs = Math.max(
+    60_000,
+    parsePositiveInt(rawConfig.watchCheckIntervalMs, 3_600_000),
+  );
+  const searchCache = String(rawConfig.searchCache ?? "off")
+    .trim()
+    .toLowerCase();
+  if (searchCache !== "off" && searchCache !== "memory" && searchCache !== "file") {
+    throw new Error('Invalid plugin config: searchCache must be "off", "memory" or "file"');
+  }
+  const searchCachePath =
+    String(rawConfig.searchCachePath ?? env.ORBIO_SEARCH_CACHE_PATH ?? "").trim() ||
+    join(homedir(), ".openclaw", "orbio", "search-cache.json");
+  const searchCacheTtlMs = parsePositiveInt(rawConfig.searchCacheTtlMs, 300_000);
+  const searchCacheMaxEntries = parsePositiveInt(rawConfig.searchCacheMaxEntries, 500);
+  const usagePath =
+    String(rawConfig.usagePath ?? env.ORBIO_USAGE_PATH ?? "").trim() ||
+    join(homedir(), ".openclaw", "orbio", "usage.json");
+  const usageWarningPercent = Math.min(100, parsePositiveInt(rawConfig.usageWarningPercent, 80));
+  const accessPolicy = parseAccessPolicy(rawConfig.accessPolicy);
+  const contactRedaction = parseContactRedactionPolicy(rawConfig.contactRedaction);
+  const auditLog = String(rawConfig.auditLog ?? env.ORBIO_AUDIT_LOG ?? "off")
+    .trim()
+    .toLowerCase();
+  if (
+    auditLog !== "off" &&
+    auditLog !== "file" &&
+    auditLog !== "stdout" &&
+    auditLog !== "webhook"
+  ) {
+    throw new Error('Invalid plugin config: auditLog must be "off", "file", "stdout" or "webhook"');
+  }
+  const auditLogPath =
+    String(rawConfig.auditLogPath ?? env.ORBIO_AUDIT_LOG_PATH ?? "").trim() ||
+    join(homedir(), ".openclaw", "orbio", "audit.jsonl");
+  const auditWebhookUrl = String(
+    rawConfig.auditWebhookUrl ?? env.ORBIO_AUDIT_WEBHOOK_URL ?? "",
+  ).trim();
+  if (auditLog === "webhook" && !/^https?:\/\/\S+$/i.test(auditWebhookUrl)) {
+    throw new Error(
+      'Missing plugin config: auditWebhookUrl (an http(s) URL, required when auditLog is "webhook")',
+    );
+  }
   const workspaceId = String(rawConfig.workspaceId ?? env.ORBIO_WORKSPACE_ID ?? "default").trim();
   const channel = normalizeChannel(rawConfig.channel ?? env.ORBIO_CHANNEL ?? "chat");
   const sendExecutionContext = parseBoolean(
@@ -423,15 +1165,40 @@ function readConfig(api: unknown): OrbioPluginConfig {
 
   return {
     baseUrl: normalizeBaseUrl(baseUrl),
-    apiKey,
+    apiKeys,
     workspaceId: workspaceId || "default",
     channel,
     sendExecutionContext,
     timeoutMs,
     maxRequestsPerMinute,
-    retryCount,
-    retryBackoffMs,
+    maxRequestsPerMinutePerUser,
+    rateLimitBurst,
+    rateLimiter,
+    rateLimiterUrl,
+    retryPolicy,
+    circuitBreaker,
     capabilitiesTtlMs,
+    exportWatch,
+    exportPollIntervalMs,
+    exportPollMaxIntervalMs,
+    exportWatchTimeoutMs,
+    exportWaitTimeoutMs,
+    exportConfirmation,
+    savedSearchStore,
+    savedSearchesPath,
+    watchesPath,
+    watchCheckIntervalMs,
+    searchCache,
+    searchCachePath,
+    searchCacheTtlMs,
+    searchCacheMaxEntries,
+    usagePath,
+    usageWarningPercent,
+    accessPolicy,
+    contactRedaction,
+    auditLog,
+    auditLogPath,
+    auditWebhookUrl,
     userAgent: `${PLUGIN_ID}/${PLUGIN_VERSION}`,
   };
 }
@@ -440,8 +1207,25 @@ function isNetworkError(error: unknown): boolean {
   return error instanceof TypeError;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// What the circuit breaker counts: the API answered that a dependency is down.
+function isDependencyFailure(error: OrbioApiError): boolean {
+  return error.code?.toLowerCase() === "dependency_unavailable" || error.status >= 500;
+}
+
+function sleep(ms: number, opts?: { unref?: boolean }): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    if (opts?.unref) {
+      timer.unref?.();
+    }
+  });
+}
+
+function isTerminalExportStatus(status: string | undefined): boolean {
+  const normalized = String(status ?? "").toLowerCase();
+  return (
+    EXPORT_SUCCESS_STATUSES.includes(normalized) || EXPORT_FAILURE_STATUSES.includes(normalized)
+  );
 }
 
 function clampLimit(raw: number | undefined): number {
@@ -452,200 +1236,1346 @@ function clampLimit(raw: number | undefined): number {
   return Math.min(50000, Math.max(1, Math.floor(raw)));
 }
 
-function parseTokens(raw: string): string[] {
+function normalizeFilterValues(
+  values: string[] | undefined,
+  normalize: (value: string) => string | null,
+  flag: string,
+  hint: string,
+): string[] | undefined {
+  if (!values || values.length === 0) {
+    return undefined;
+  }
   const out: string[] = [];
-  const regex = /"([^"]*)"|'([^']*)'|(\S+)/g;
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(raw)) !== null) {
-    const token = match[1] ?? match[2] ?? match[3] ?? "";
-    if (token) {
-      out.push(token);
+  for (const value of values) {
+    const normalized = normalize(value.trim());
+    if (normalized === null) {
+      throw new PluginValidationError(`Invalid ${flag} value: ${value}. ${hint}`);
+    }
+    if (!out.includes(normalized)) {
+      out.push(normalized);
     }
   }
   return out;
 }
 
-type ParsedCommand =
-  | {
-      action: "search";
-      queryText: string;
-      limit: number | undefined;
-      withContact: boolean;
-    }
-  | {
-      action: "export";
-      queryText: string;
-      limit: number | undefined;
-      withContact: boolean;
-      format: "csv" | "html";
-    }
-  | {
-      action: "export-status";
-      exportId: string;
-    };
-
-function parseCommand(raw: string): ParsedCommand | { error: string } {
-  const tokens = parseTokens(raw);
-  if (tokens.length === 0) {
-    return { error: usageText() };
+function normalizeStartedAfter(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
   }
+  const trimmed = value.trim();
+  const parsed = Date.parse(`${trimmed}T00:00:00Z`);
+  const valid =
+    /^\d{4}-\d{2}-\d{2}$/.test(trimmed) &&
+    Number.isFinite(parsed) &&
+    new Date(parsed).toISOString().slice(0, 10) === trimmed;
+  if (!valid) {
+    throw new PluginValidationError(
+      `Invalid --started-after value: ${value}. Use a date like 2020-01-01.`,
+    );
+  }
+  return trimmed;
+}
 
-  const action = tokens[0]?.toLowerCase();
-  const rest = tokens.slice(1);
-
-  if (action === "search" || action === "export") {
-    let withContact = false;
-    let limit: number | undefined;
-    let format: "csv" | "html" = "csv";
-    const queryParts: string[] = [];
-
-    for (let idx = 0; idx < rest.length; idx += 1) {
-      const token = rest[idx] ?? "";
-      if (token === "--with-contact") {
-        withContact = true;
-        continue;
-      }
-      if (token === "--limit") {
-        const rawLimit = rest[idx + 1];
-        const parsed = rawLimit ? Number(rawLimit) : Number.NaN;
-        if (!Number.isFinite(parsed) || parsed <= 0) {
-          return { error: "Invalid --limit value. Use an integer >= 1." };
-        }
-        limit = Math.floor(parsed);
-        idx += 1;
-        continue;
-      }
-      if (action === "export" && token === "--format") {
-        const rawFormat = String(rest[idx + 1] ?? "").toLowerCase();
-        if (rawFormat !== "csv" && rawFormat !== "html") {
-          return { error: "Invalid --format value. Use csv or html." };
-        }
-        format = rawFormat;
-        idx += 1;
-        continue;
-      }
-      queryParts.push(token);
-    }
-
-    const queryText = queryParts.join(" ").trim();
-    if (!queryText) {
-      return { error: `Missing query text.\n\n${usageText()}` };
-    }
+function ambiguousMatches(flag: string, value: string, labels: string[], hint: string): never {
+  const shown = labels.slice(0, 5).join("; ");
+  const more = labels.length > 5 ? ` and ${labels.length - 5} more` : "";
+  throw new PluginValidationError(
+    `Ambiguous ${flag} value: ${value}. Matches: ${shown}${more}. ${hint}`,
+  );
+}
 
-    if (action === "search") {
-      return { action: "search", queryText, limit, withContact };
-    }
+function resolveMunicipality(value: string, ufs: string[] | undefined): string | null {
+  const matches = findMunicipalities(value, ufs);
+  if (matches.length > 1) {
+    ambiguousMatches(
+      "--city",
+      value,
+      matches.map((m) => `${m.name}/${m.uf} (${m.code})`),
+      'Add the state, e.g. --city "Bom Jesus/PI".',
+    );
+  }
+  return matches[0]?.code ?? null;
+}
 
-    return { action: "export", queryText, limit, withContact, format };
+function resolveCnae(value: string): string | null {
+  const matches = findCnaes(value);
+  if (matches.length > 1) {
+    ambiguousMatches(
+      "--cnae",
+      value,
+      matches.map((m) => `${m.formatted} ${m.description}`),
+      "Use the code or a more specific description.",
+    );
   }
+  return matches[0]?.code ?? null;
+}
 
-  if (action === "export-status" || action === "status") {
-    const exportId = (rest[0] ?? "").trim();
-    if (!exportId) {
-      return { error: "Missing export_id. Use: /orbio export-status <export_id>" };
-    }
-    return { action: "export-status", exportId };
+function normalizeFilters(raw: SearchFilters | undefined): SearchFilters | undefined {
+  if (!raw) {
+    return undefined;
   }
 
-  return { error: `Unknown command: ${action}\n\n${usageText()}` };
-}
+  const uf = normalizeFilterValues(
+    raw.uf,
+    (value) => {
+      const upper = value.toUpperCase();
+      return BRAZIL_UFS.includes(upper) ? upper : null;
+    },
+    "--uf",
+    "Use a two-letter state code such as SP.",
+  );
+  const filters: SearchFilters = {
+    uf,
+    municipality_ibge: normalizeFilterValues(
+      raw.municipality_ibge,
+      (value) => (/^\d{7}$/.test(value) ? value : resolveMunicipality(value, uf)),
+      "--city",
+      "Use a municipality name such as Campinas/SP or its 7-digit IBGE code, e.g. 3550308.",
+    ),
+    cnae: normalizeFilterValues(
+      raw.cnae,
+      (value) => {
+        const digits = value.replace(/[\s./-]/g, "");
+        return /^\d{2,7}$/.test(digits) ? digits : resolveCnae(value);
+      },
+      "--cnae",
+      "Use a CNAE code such as 6201-5/01 or words from its description.",
+    ),
+    company_size_code: normalizeFilterValues(
+      raw.company_size_code,
+      (value) => lookupCode(COMPANY_SIZE_CODES, value),
+      "--size",
+      "Use ME, EPP or Demais.",
+    ),
+    registration_status: normalizeFilterValues(
+      raw.registration_status,
+      (value) => lookupCode(REGISTRATION_STATUS_CODES, value),
+      "--status",
+      "Use ativa, baixada, inapta, suspensa or nula.",
+    ),
+    started_after: normalizeStartedAfter(raw.started_after),
+  };
 
-function usageText(): string {
-  return [
-    "Usage:",
-    "/orbio search <query> [--limit N] [--with-contact]",
-    "/orbio export <query> [--limit N] [--format csv|html] [--with-contact]",
-    "/orbio export-status <export_id>",
-  ].join("\n");
+  const entries = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return entries.length === 0 ? undefined : (Object.fromEntries(entries) as SearchFilters);
 }
 
-function buildIdempotencyKey(prefix: string, payload: unknown): string {
-  const digest = createHash("sha256").update(JSON.stringify(payload)).digest("hex").slice(0, 24);
-  const suffix = randomUUID().replace(/-/g, "").slice(0, 12);
-  return `openclaw:${prefix}:${digest}:${suffix}`;
+function normalizeSort(
+  raw: SortKey[] | undefined,
+  allowedFields: string[] | undefined,
+): SortKey[] | undefined {
+  if (!raw || raw.length === 0) {
+    return undefined;
+  }
+  const allowed = allowedFields ?? [];
+  if (allowed.length === 0) {
+    throw new PluginValidationError("Sorting is not available on this plan.");
+  }
+  const out: SortKey[] = [];
+  for (const key of raw) {
+    const field = key.field.trim().toLowerCase();
+    if (!allowed.includes(field)) {
+      throw new PluginValidationError(
+        `Unsupported sort field: ${key.field}. Allowed: ${allowed.join(", ")}.`,
+      );
+    }
+    if (out.some((existing) => existing.field === field)) {
+      throw new PluginValidationError(`Duplicate sort field: ${field}.`);
+    }
+    out.push({ field, direction: key.direction ?? "asc" });
+  }
+  return out;
 }
 
-function chooseOutputFields(
-  allowlist: string[],
-  withContact: boolean,
-): { fields: string[]; contactGranted: boolean } {
-  const allowed = new Set(allowlist);
-  const safe = SAFE_DEFAULT_FIELDS.filter((field) => allowed.has(field));
-  if (safe.length === 0) {
-    throw new Error("No safe output fields are allowed for this plan.");
+function checkBroadQueryRules(
+  filters: SearchFilters | undefined,
+  rules: CapabilitiesResponse["broad_query_rules"] | undefined,
+): void {
+  // Without structured filters the server reads places and activities from the query text
+  // ("software em Campinas"), so only it can tell whether such a query is too broad.
+  if (!filters || !rules) {
+    return;
   }
 
-  if (!withContact) {
-    return { fields: safe, contactGranted: false };
+  const missing: string[] = [];
+  if (rules.require_cnae && !filters.cnae) {
+    missing.push("a CNAE filter (--cnae 6201-5/01)");
   }
-
-  const contact = CONTACT_FIELDS.filter((field) => allowed.has(field));
-  if (contact.length === 0) {
-    return { fields: safe, contactGranted: false };
+  const geo = String(rules.require_geo ?? "").toLowerCase();
+  if ((geo === "city" || geo === "municipality") && !filters.municipality_ibge) {
+    missing.push("a municipality filter (--city 3550308)");
+  } else if ((geo === "uf" || geo === "state") && !filters.uf && !filters.municipality_ibge) {
+    missing.push("a state or municipality filter (--uf SP or --city 3550308)");
   }
 
-  return { fields: [...safe, ...contact], contactGranted: true };
-}
-
-function topAccounts(accounts: JsonRecord[], limit = 10): JsonRecord[] {
-  return accounts.slice(0, limit);
+  if (missing.length > 0) {
+    throw new PluginValidationError(
+      `Query is too broad for this plan. Add ${missing.join(" and ")} and retry.`,
+    );
+  }
 }
 
-function renderSearchText(
-  payload: AccountSearchResponse,
-  opts: { withContactRequested: boolean; contactGranted: boolean; fields: string[] },
-): string {
-  const note =
-    opts.withContactRequested && !opts.contactGranted
-      ? "\nNote: contact fields are restricted by plan; returning masked fields only."
-      : "";
+function parseTokens(raw: string): string[] {
+  const out: string[] = [];
+  const regex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(raw)) !== null) {
+    const token = match[1] ?? match[2] ?? match[3] ?? "";
+    if (token) {
+      out.push(token);
+    }
+  }
+  return out;
+}
+
+type SearchFlags = {
+  queryText: string;
+  filters: SearchFilters | undefined;
+  sort: SortKey[] | undefined;
+  fields: string[] | undefined;
+  limit: number | undefined;
+  // Undefined when neither --with-contact nor --no-contact was given, so saved runs keep theirs.
+  withContact: boolean | undefined;
+  format: "csv" | "html" | undefined;
+  wait: boolean;
+  explain: boolean;
+  dryRun: boolean;
+};
+
+type ParsedCommand = (
+  | ({ action: "search" } & Omit<SearchFlags, "format" | "wait">)
+  | ({ action: "export" } & SearchFlags)
+  | {
+      action: "explain";
+      queryText: string;
+      filters: SearchFilters | undefined;
+    }
+  | {
+      action: "search-next";
+    }
+  | {
+      action: "company";
+      cnpj: string;
+      withContact: boolean;
+    }
+  | {
+      action: "confirm";
+      token: string;
+    }
+  | {
+      action: "export-status";
+      exportId: string;
+    }
+  | {
+      action: "export-list";
+      status: ExportListToolInput["status"];
+      limit: number | undefined;
+      cursor: string | undefined;
+    }
+  | {
+      action: "export-cancel";
+      exportId: string;
+    }
+  | {
+      action: "capabilities";
+    }
+  | {
+      action: "save";
+      name: string;
+      search: SearchFlags | undefined;
+    }
+  | {
+      action: "saved-list";
+    }
+  | {
+      action: "saved-delete";
+      name: string;
+    }
+  | {
+      action: "run";
+      name: string;
+      asExport: boolean;
+      overrides: SearchFlags;
+    }
+  | {
+      action: "watch";
+      name: string;
+      search: SearchFlags | undefined;
+    }
+  | {
+      action: "unwatch";
+      name: string;
+    }
+  | {
+      action: "watches";
+    }
+  | {
+      action: "usage";
+      since: string | undefined;
+    }
+) & { view?: ViewMode; workspace?: string };
+
+const FILTER_LIST_FLAGS: Record<
+  string,
+  "uf" | "municipality_ibge" | "cnae" | "company_size_code" | "registration_status"
+> = {
+  "--uf": "uf",
+  "--city": "municipality_ibge",
+  "--cnae": "cnae",
+  "--size": "company_size_code",
+  "--status": "registration_status",
+};
+
+function parseSearchFlags(rest: string[], exportFlags: boolean): SearchFlags | { error: string } {
+  let withContact: boolean | undefined;
+  let wait = false;
+  let explain = false;
+  let dryRun = false;
+  let limit: number | undefined;
+  let format: "csv" | "html" | undefined;
+  const queryParts: string[] = [];
+  const filters: SearchFilters = {};
+  const sort: SortKey[] = [];
+  const fields: string[] = [];
+
+  for (let idx = 0; idx < rest.length; idx += 1) {
+    const token = rest[idx] ?? "";
+    if (token === "--with-contact" || token === "--no-contact") {
+      withContact = token === "--with-contact";
+      continue;
+    }
+    if (exportFlags && token === "--wait") {
+      wait = true;
+      continue;
+    }
+    if (!exportFlags && token === "--explain") {
+      explain = true;
+      continue;
+    }
+    if (token === "--dry-run") {
+      dryRun = true;
+      continue;
+    }
+    const filterKey = FILTER_LIST_FLAGS[token];
+    if (filterKey || token === "--started-after") {
+      const value = rest[idx + 1];
+      if (!value || value.startsWith("--")) {
+        return { error: `Missing value for ${token}.` };
+      }
+      if (filterKey) {
+        const values = value.split(",").filter((item) => item.trim());
+        filters[filterKey] = [...(filters[filterKey] ?? []), ...values];
+      } else {
+        filters.started_after = value;
+      }
+      idx += 1;
+      continue;
+    }
+    if (token === "--limit") {
+      const rawLimit = rest[idx + 1];
+      const parsed = rawLimit ? Number(rawLimit) : Number.NaN;
+      if (!Number.isFinite(parsed) || parsed <= 0) {
+        return { error: "Invalid --limit value. Use an integer >= 1." };
+      }
+      limit = Math.floor(parsed);
+      idx += 1;
+      continue;
+    }
+    if (token === "--sort") {
+      const value = rest[idx + 1];
+      if (!value || value.startsWith("--")) {
+        return { error: "Missing value for --sort." };
+      }
+      for (const item of value.split(",").filter((part) => part.trim())) {
+        const [field = "", direction = "asc", extra] = item.trim().split(":");
+        const normalizedDirection = direction.toLowerCase();
+        if (!field || extra !== undefined || !["asc", "desc"].includes(normalizedDirection)) {
+          return {
+            error: `Invalid --sort value: ${item}. Use field[:asc|desc], e.g. started_at:desc.`,
+          };
+        }
+        sort.push({ field, direction: normalizedDirection as "asc" | "desc" });
+      }
+      idx += 1;
+      continue;
+    }
+    if (token === "--fields") {
+      const value = rest[idx + 1];
+      if (!value || value.startsWith("--")) {
+        return { error: "Missing value for --fields." };
+      }
+      fields.push(...value.split(",").filter((field) => field.trim()));
+      idx += 1;
+      continue;
+    }
+    if (exportFlags && token === "--format") {
+      const rawFormat = String(rest[idx + 1] ?? "").toLowerCase();
+      if (rawFormat !== "csv" && rawFormat !== "html") {
+        return { error: "Invalid --format value. Use csv or html." };
+      }
+      format = rawFormat;
+      idx += 1;
+      continue;
+    }
+    queryParts.push(token);
+  }
+
+  return {
+    queryText: queryParts.join(" ").trim(),
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    sort: sort.length > 0 ? sort : undefined,
+    fields: fields.length > 0 ? fields : undefined,
+    limit,
+    withContact,
+    format,
+    wait,
+    explain,
+    dryRun,
+  };
+}
+
+function parseCommand(raw: string): ParsedCommand | { error: string } {
+  const tokens = parseTokens(raw);
+
+  // --workspace and --view apply to every action, so they are taken out of the parsed tokens
+  // before the action's own flags are read.
+  let workspace: string | undefined;
+  const workspaceIdx = tokens.indexOf("--workspace");
+  if (workspaceIdx >= 0) {
+    workspace = tokens[workspaceIdx + 1];
+    if (!workspace || workspace.startsWith("--")) {
+      return { error: "Missing value for --workspace." };
+    }
+    tokens.splice(workspaceIdx, 2);
+  }
+
+  let view: ViewMode | undefined;
+  const viewIdx = tokens.indexOf("--view");
+  if (viewIdx >= 0) {
+    view = parseViewMode(tokens[viewIdx + 1]) ?? undefined;
+    if (!view) {
+      return { error: `Invalid --view value. Use ${VIEW_MODES.join("|")}.` };
+    }
+    tokens.splice(viewIdx, 2);
+  }
+
+  const parsed = parseActionTokens(tokens);
+  if ("error" in parsed) {
+    return parsed;
+  }
+  return { ...parsed, ...(view ? { view } : {}), ...(workspace ? { workspace } : {}) };
+}
+
+function parseActionTokens(tokens: string[]): ParsedCommand | { error: string } {
+  if (tokens.length === 0) {
+    return { error: usageText() };
+  }
+
+  const action = tokens[0]?.toLowerCase();
+  const rest = tokens.slice(1);
+
+  if (action === "search" || action === "export") {
+    const flags = parseSearchFlags(rest, action === "export");
+    if ("error" in flags) {
+      return flags;
+    }
+    if (!flags.queryText) {
+      return { error: `Missing query text.\n\n${usageText()}` };
+    }
+    if (action === "search") {
+      return {
+        action: "search",
+        queryText: flags.queryText,
+        filters: flags.filters,
+        sort: flags.sort,
+        fields: flags.fields,
+        limit: flags.limit,
+        withContact: flags.withContact,
+        explain: flags.explain,
+        dryRun: flags.dryRun,
+      };
+    }
+    return { action: "export", ...flags };
+  }
+
+  if (action === "explain") {
+    const flags = parseSearchFlags(rest, false);
+    if ("error" in flags) {
+      return flags;
+    }
+    if (!flags.queryText) {
+      return { error: "Missing query text. Use: /orbio explain <query> [filters]" };
+    }
+    return { action: "explain", queryText: flags.queryText, filters: flags.filters };
+  }
+
+  if (action === "company" || action === "cnpj") {
+    const withContact = rest.includes("--with-contact");
+    const cnpj = rest
+      .filter((token) => token !== "--with-contact")
+      .join("")
+      .trim();
+    if (!cnpj) {
+      return { error: "Missing CNPJ. Use: /orbio company <cnpj>" };
+    }
+    return { action: "company", cnpj, withContact };
+  }
+
+  if (action === "more" || action === "next") {
+    return { action: "search-next" };
+  }
+
+  if (action === "export-status" || action === "status") {
+    const exportId = (rest[0] ?? "").trim();
+    if (!exportId) {
+      return { error: "Missing export_id. Use: /orbio export-status <export_id>" };
+    }
+    return { action: "export-status", exportId };
+  }
+
+  if (action === "export-list" || action === "exports") {
+    let status: ExportListToolInput["status"];
+    let limit: number | undefined;
+    let cursor: string | undefined;
+    for (let idx = 0; idx < rest.length; idx += 1) {
+      const token = rest[idx] ?? "";
+      const value = rest[idx + 1];
+      if (token === "--status") {
+        const normalized = String(value ?? "").toLowerCase();
+        if (!EXPORT_LIST_STATUSES.includes(normalized)) {
+          return { error: `Invalid --status value. Use ${EXPORT_LIST_STATUSES.join("|")}.` };
+        }
+        status = normalized as ExportListToolInput["status"];
+      } else if (token === "--limit") {
+        const parsed = value ? Number(value) : Number.NaN;
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          return { error: "Invalid --limit value. Use an integer >= 1." };
+        }
+        limit = Math.min(100, Math.floor(parsed));
+      } else if (token === "--cursor") {
+        if (!value) {
+          return { error: "Missing value for --cursor." };
+        }
+        cursor = value;
+      } else {
+        return { error: `Unknown export-list option: ${token}` };
+      }
+      idx += 1;
+    }
+    return { action: "export-list", status, limit, cursor };
+  }
+
+  if (action === "export-cancel" || action === "cancel") {
+    const exportId = (rest[0] ?? "").trim();
+    if (!exportId) {
+      return { error: "Missing export_id. Use: /orbio export-cancel <export_id>" };
+    }
+    return { action: "export-cancel", exportId };
+  }
+
+  if (action === "capabilities" || action === "plan") {
+    return { action: "capabilities" };
+  }
+
+  if (action === "confirm") {
+    const token = (rest[0] ?? "").trim();
+    if (!token || rest.length > 1) {
+      return { error: "Use: /orbio confirm <token>" };
+    }
+    return { action: "confirm", token };
+  }
+
+  if (action === "usage") {
+    if (rest.length === 0) {
+      return { action: "usage", since: undefined };
+    }
+    if (rest[0] === "--since" && rest[1] && rest.length === 2) {
+      return { action: "usage", since: rest[1] };
+    }
+    return { error: "Use: /orbio usage [--since 7d]" };
+  }
+
+  if (action === "save") {
+    const name = rest[0];
+    if (!name || name.startsWith("--")) {
+      return { error: "Missing name. Use: /orbio save <name> [<query> [filters]]" };
+    }
+    if (rest.length === 1) {
+      return { action: "save", name, search: undefined };
+    }
+    const search = parseSearchFlags(rest.slice(1), false);
+    if ("error" in search) {
+      return search;
+    }
+    if (!search.queryText) {
+      return { error: "Missing query text. Use: /orbio save <name> <query> [filters]" };
+    }
+    return { action: "save", name, search };
+  }
+
+  if (action === "saved") {
+    const sub = rest[0]?.toLowerCase();
+    if (!sub) {
+      return { action: "saved-list" };
+    }
+    if ((sub === "delete" || sub === "rm") && rest[1]) {
+      return { action: "saved-delete", name: rest[1] };
+    }
+    return { error: "Use: /orbio saved [delete <name>]" };
+  }
+
+  if (action === "run") {
+    const name = rest[0];
+    if (!name || name.startsWith("--")) {
+      return { error: "Missing name. Use: /orbio run <name> [--export] [overrides]" };
+    }
+    const overrideTokens = rest.slice(1);
+    const asExport = overrideTokens.includes("--export");
+    const overrides = parseSearchFlags(
+      overrideTokens.filter((token) => token !== "--export"),
+      asExport,
+    );
+    if ("error" in overrides) {
+      return overrides;
+    }
+    return { action: "run", name, asExport, overrides };
+  }
+
+  if (action === "watch") {
+    const name = rest[0];
+    if (!name || name.startsWith("--")) {
+      return { error: "Missing name. Use: /orbio watch <name> [<query> [filters]]" };
+    }
+    if (rest.length === 1) {
+      return { action: "watch", name, search: undefined };
+    }
+    const search = parseSearchFlags(rest.slice(1), false);
+    if ("error" in search) {
+      return search;
+    }
+    if (!search.queryText) {
+      return { error: "Missing query text. Use: /orbio watch <name> <query> [filters]" };
+    }
+    return { action: "watch", name, search };
+  }
+
+  if (action === "unwatch") {
+    const name = rest[0];
+    if (!name) {
+      return { error: "Missing name. Use: /orbio unwatch <name>" };
+    }
+    return { action: "unwatch", name };
+  }
+
+  if (action === "watches") {
+    return { action: "watches" };
+  }
+
+  return { error: `Unknown command: ${action}\n\n${usageText()}` };
+}
+
+function usageText(): string {
+  return [
+    "Usage:",
+    "/orbio search <query> [filters] [--sort field:desc] [--fields a,b] [--limit N]",
+    "             [--with-contact] [--explain] [--dry-run]",
+    "/orbio explain <query> [filters]   (how Orbio reads the query, no results)",
+    "/orbio more",
+    "/orbio company <cnpj> [--with-contact]",
+    "/orbio export <query> [filters] [--sort field:desc] [--fields a,b] [--limit N]",
+    "             [--format csv|html] [--with-contact] [--wait] [--dry-run]",
+    "/orbio confirm <token>   (runs an export that asked for confirmation)",
+    "/orbio export-status <export_id>",
+    "/orbio export-list [--status ready] [--limit N] [--cursor C]",
+    "/orbio export-cancel <export_id>",
+    "/orbio capabilities",
+    "/orbio usage [--since 24h|7d]",
+    "/orbio save <name> [<query> [filters]]   (no query: saves the last search)",
+    "/orbio saved [delete <name>]",
+    "/orbio run <name> [--export] [query or flag overrides, --no-contact]",
+    "/orbio watch <name> [<query> [filters]]   (no query: watches saved search <name>)",
+    "/orbio unwatch <name>",
+    "/orbio watches",
+    "",
+    "Views: --view json|table|cards|compact (default depends on channel)",
+    "Workspaces: --workspace <id> (when several are configured)",
+    "Filters: --uf SP --city 3550308 --cnae 6201-5/01 --size ME|EPP|Demais",
+    "         --status ativa|baixada|inapta|suspensa|nula --started-after 2020-01-01",
+    '         --city and --cnae also take names: --city "Campinas/SP" --cnae "web design"',
+  ].join("\n");
+}
+
+// Whitespace and case in the query text do not change results, so they do not split the cache.
+function searchCacheKey(workspaceId: string, snapshot: string, request: JsonRecord): string {
+  const queryText = String(request.query_text).trim().replace(/\s+/g, " ").toLowerCase();
+  return createHash("sha256")
+    .update(JSON.stringify({ workspaceId, snapshot, ...request, query_text: queryText }))
+    .digest("hex");
+}
+
+function buildIdempotencyKey(prefix: string, payload: unknown): string {
+  const digest = createHash("sha256").update(JSON.stringify(payload)).digest("hex").slice(0, 24);
+  const suffix = randomUUID().replace(/-/g, "").slice(0, 12);
+  return `openclaw:${prefix}:${digest}:${suffix}`;
+}
+
+type FieldSelection = {
+  fields: string[];
+  contactGranted: boolean;
+  droppedByPlan: string[];
+  droppedContact: string[];
+};
+
+function isContactField(field: string): boolean {
+  return (CONTACT_FIELDS as readonly string[]).includes(field);
+}
+
+function chooseOutputFields(
+  allowlist: string[],
+  withContact: boolean,
+  requested?: string[],
+): FieldSelection {
+  const allowed = new Set(allowlist);
+  const contact = CONTACT_FIELDS.filter((field) => allowed.has(field));
+
+  if (!requested || requested.length === 0) {
+    const safe = SAFE_DEFAULT_FIELDS.filter((field) => allowed.has(field));
+    if (safe.length === 0) {
+      throw new Error("No safe output fields are allowed for this plan.");
+    }
+    const granted = withContact && contact.length > 0;
+    return {
+      fields: granted ? [...safe, ...contact] : safe,
+      contactGranted: granted,
+      droppedByPlan: [],
+      droppedContact: [],
+    };
+  }
+
+  // cnpj is always kept so rows stay identifiable; contact fields still need --with-contact.
+  const wanted = [...new Set(requested.map((field) => field.trim().toLowerCase()))];
+  const fields = allowed.has("cnpj") ? ["cnpj"] : [];
+  const droppedByPlan: string[] = [];
+  const droppedContact: string[] = [];
+  for (const field of wanted) {
+    if (fields.includes(field)) {
+      continue;
+    }
+    if (!allowed.has(field)) {
+      droppedByPlan.push(field);
+    } else if (isContactField(field) && !withContact) {
+      droppedContact.push(field);
+    } else {
+      fields.push(field);
+    }
+  }
+  if (withContact && !fields.some(isContactField)) {
+    fields.push(...contact);
+  }
+  if (fields.length === 0) {
+    throw new PluginValidationError(
+      `None of the requested fields are available on this plan: ${wanted.join(", ")}.`,
+    );
+  }
+  return {
+    fields,
+    contactGranted: fields.some(isContactField),
+    droppedByPlan,
+    droppedContact,
+  };
+}
+
+// Flags mode keeps contact values out of the request entirely; has_email/has_phone stand in.
+function withholdContactFields(selection: FieldSelection, allowlist: string[]): FieldSelection {
+  const flags = ["has_email", "has_phone"].filter((field) => allowlist.includes(field));
+  const kept = selection.fields.filter((field) => !isContactField(field));
+  return { ...selection, fields: [...new Set([...kept, ...flags])], contactGranted: false };
+}
+
+function contactRedactionForAudit(
+  contactGranted: boolean,
+  redaction: AppliedRedaction | null,
+): ContactRedaction | null {
+  return redaction?.mode ?? (contactGranted ? "full" : null);
+}
+
+function displayAccount(account: JsonRecord): JsonRecord {
+  if (typeof account.cnpj !== "string") {
+    return account;
+  }
+  const formatted = formatCnpj(account.cnpj);
+  return formatted ? { ...account, cnpj: formatted } : account;
+}
+
+function topAccounts(
+  accounts: JsonRecord[],
+  redaction: AppliedRedaction | null = null,
+  limit = 10,
+): JsonRecord[] {
+  return accounts
+    .slice(0, limit)
+    .map((account) =>
+      displayAccount(redaction ? redactContacts(account, redaction.mode) : account),
+    );
+}
+
+function maskingNote(
+  opts: {
+    withContactRequested: boolean;
+    contactGranted: boolean;
+    redaction?: AppliedRedaction | null;
+  },
+  verb: string,
+): string {
+  const redaction = opts.redaction;
+  if (redaction && verb === "export uses") {
+    return `\nNote: contact fields are left out of exports ${redaction.reason}, since the export file cannot be masked.`;
+  }
+  if (redaction?.mode === "partial") {
+    return `\nNote: contact values are partially masked ${redaction.reason}.`;
+  }
+  if (redaction?.mode === "flags") {
+    return `\nNote: contact values are hidden ${redaction.reason}; request them from a chat without masking.`;
+  }
+  return opts.withContactRequested && !opts.contactGranted
+    ? `\nNote: contact fields are restricted by plan; ${verb} masked fields only.`
+    : "";
+}
+
+function droppedFieldsNote(
+  selection?: Pick<FieldSelection, "droppedByPlan" | "droppedContact">,
+): string {
+  if (!selection) {
+    return "";
+  }
+  const notes: string[] = [];
+  if (selection.droppedByPlan.length > 0) {
+    notes.push(
+      `\nNote: dropped fields not available on this plan: ${selection.droppedByPlan.join(", ")}.`,
+    );
+  }
+  if (selection.droppedContact.length > 0) {
+    notes.push(
+      `\nNote: dropped contact fields (add --with-contact to request them): ${selection.droppedContact.join(", ")}.`,
+    );
+  }
+  return notes.join("");
+}
+
+function renderSearchText(
+  payload: AccountSearchResponse,
+  opts: {
+    withContactRequested: boolean;
+    contactGranted: boolean;
+    redaction?: AppliedRedaction | null;
+    fields: string[];
+    view: ViewMode;
+    title?: string;
+    dropped?: Pick<FieldSelection, "droppedByPlan" | "droppedContact">;
+    cached?: boolean;
+  },
+): string {
+  const doc: RenderDocument = {
+    header: `${opts.title ?? "Search completed."}${maskingNote(opts, "returning")}${droppedFieldsNote(opts.dropped)}`,
+    summary: {
+      request_id: payload.request_id,
+      snapshot: payload.snapshot,
+      snapshot_date: payload.snapshot_date,
+      result_count: payload.accounts.length,
+      has_more: payload.has_more,
+      next_cursor: payload.next_cursor,
+      ...(opts.cached ? { cached: true } : {}),
+    },
+    fields: opts.fields,
+    records: { key: "accounts", items: topAccounts(payload.accounts, opts.redaction) },
+  };
+  return renderDocument(doc, opts.view);
+}
+
+function renderCompanyText(
+  payload: AccountLookupResponse,
+  opts: {
+    withContactRequested: boolean;
+    contactGranted: boolean;
+    redaction?: AppliedRedaction | null;
+    fields: string[];
+    view: ViewMode;
+  },
+): string {
+  const doc: RenderDocument = {
+    header: `Company profile.${maskingNote(opts, "returning")}`,
+    summary: {
+      request_id: payload.request_id,
+      snapshot: payload.snapshot,
+      snapshot_date: payload.snapshot_date,
+    },
+    fields: opts.fields,
+    records: {
+      key: "account",
+      items: topAccounts([payload.account ?? {}], opts.redaction),
+      single: true,
+    },
+  };
+  return renderDocument(doc, opts.view);
+}
+
+function renderExportText(
+  payload: ExportCreateResponse,
+  opts: {
+    withContactRequested: boolean;
+    contactGranted: boolean;
+    redaction?: AppliedRedaction | null;
+    fields: string[];
+    view: ViewMode;
+    dropped?: Pick<FieldSelection, "droppedByPlan" | "droppedContact">;
+  },
+): string {
+  const doc: RenderDocument = {
+    header: `Export requested.${maskingNote(opts, "export uses")}${droppedFieldsNote(opts.dropped)}`,
+    summary: {
+      request_id: payload.request_id,
+      snapshot: payload.snapshot,
+      snapshot_date: payload.snapshot_date,
+      export: payload.export,
+    },
+    fields: opts.fields,
+    records: {
+      key: "preview_accounts",
+      items: topAccounts(payload.preview_accounts, opts.redaction),
+    },
+  };
+  return renderDocument(doc, opts.view);
+}
+
+function renderExportStatusText(
+  payload: ExportStatusResponse,
+  view: ViewMode,
+  title = "Export status:",
+): string {
+  const doc: RenderDocument = {
+    header: title,
+    summary: {
+      export_id: payload.export_id,
+      status: payload.status,
+      format: payload.format,
+      row_count: payload.row_count,
+      size_bytes: payload.size_bytes,
+      expires_at: payload.expires_at,
+      download_url: payload.download_url,
+    },
+  };
+  return renderDocument(doc, view);
+}
+
+function formatBytes(value: number | null | undefined): string {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return "-";
+  }
+  const units = ["B", "KB", "MB", "GB"];
+  let size = value;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
+
+function renderExportListText(payload: ExportListResponse): string {
+  const exports = Array.isArray(payload.exports) ? payload.exports : [];
+  if (exports.length === 0) {
+    return "No exports found.";
+  }
+
+  const header = ["export_id", "status", "format", "rows", "size", "created", "expires"];
+  const rows = exports.map((item) => [
+    item.export_id,
+    item.status,
+    item.format,
+    item.row_count === null || item.row_count === undefined ? "-" : String(item.row_count),
+    formatBytes(item.size_bytes),
+    item.created_at ? item.created_at.slice(0, 10) : "-",
+    item.expires_at ? item.expires_at.slice(0, 10) : "-",
+  ]);
+  const widths = header.map((title, col) =>
+    Math.max(title.length, ...rows.map((row) => row[col].length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, col) => cell.padEnd(widths[col]))
+      .join("  ")
+      .trimEnd();
+
+  const table = [line(header), ...rows.map(line)].join("\n");
+  const more = payload.next_cursor
+    ? `\nMore: /orbio export-list --cursor ${payload.next_cursor}`
+    : "";
+  return `Recent exports (${exports.length}):\n\n\`\`\`\n${table}\n\`\`\`${more}`;
+}
+
+function humanizeKey(key: string): string {
+  return key.replaceAll("_", " ");
+}
+
+function renderExportEstimate(estimate: {
+  reasons: string[];
+  estimatedTotal: number | null;
+  limit: number;
+  format: string;
+  fields: string[];
+  contactGranted: boolean;
+  limits: JsonRecord;
+  dropped: Pick<FieldSelection, "droppedByPlan" | "droppedContact">;
+  token: string;
+  ttlMs: number;
+}): string {
+  const rows =
+    estimate.estimatedTotal === null
+      ? `up to ${estimate.limit}`
+      : `about ${Math.min(estimate.limit, estimate.estimatedTotal)}`;
+  const lines = [
+    `This export needs confirmation: ${estimate.reasons.join(" and ")}.`,
+    `- Estimated matches: ${estimate.estimatedTotal ?? "unknown"}`,
+    `- Rows to export: ${rows} (limit ${estimate.limit})`,
+    `- Format: ${estimate.format}`,
+    `- Fields: ${estimate.fields.join(", ")}${estimate.contactGranted ? " (contact fields included)" : ""}`,
+  ];
+  // Export quotas are what the rows above count against.
+  for (const [key, value] of Object.entries(estimate.limits)) {
+    if (/export/i.test(key)) {
+      lines.push(`- Plan limit, ${humanizeKey(key)}: ${describeLimit(value)}`);
+    }
+  }
+  const minutes = Math.round(estimate.ttlMs / 60_000);
+  return `${lines.join("\n")}${droppedFieldsNote(estimate.dropped)}\n\nTo run it, send /orbio confirm ${estimate.token} within ${minutes} minutes. Nothing has been exported yet; the estimate used one search request.`;
+}
+
+function describeLimit(value: unknown): string {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return String(value);
+  }
+  const limit = value as JsonRecord;
+  if (limit.remaining !== undefined && limit.limit !== undefined) {
+    return `${String(limit.remaining)} of ${String(limit.limit)} remaining`;
+  }
+  if (limit.used !== undefined && limit.limit !== undefined) {
+    return `${String(limit.used)} of ${String(limit.limit)} used`;
+  }
+  return JSON.stringify(value);
+}
 
-  const body = {
-    request_id: payload.request_id,
-    snapshot: payload.snapshot,
-    snapshot_date: payload.snapshot_date,
-    result_count: payload.accounts.length,
-    has_more: payload.has_more,
-    next_cursor: payload.next_cursor,
-    fields: opts.fields,
-    accounts: topAccounts(payload.accounts),
-  };
+function describeBroadQueryRules(
+  rules: CapabilitiesResponse["broad_query_rules"] | undefined,
+): string {
+  const required: string[] = [];
+  if (rules?.require_cnae) {
+    required.push("a CNAE filter (--cnae)");
+  }
+  const geo = String(rules?.require_geo ?? "").toLowerCase();
+  if (geo === "city" || geo === "municipality") {
+    required.push("a municipality filter (--city)");
+  } else if (geo === "uf" || geo === "state") {
+    required.push("a state or municipality filter (--uf or --city)");
+  }
+  const lines = [
+    required.length > 0
+      ? `- Filtered searches must include ${required.join(" and ")}.`
+      : "- Filtered searches have no extra requirements.",
+  ];
+  const freeMinimum = String(rules?.free_minimum ?? "none");
+  if (freeMinimum && freeMinimum !== "none") {
+    lines.push(`- Free-plan minimum: ${freeMinimum}.`);
+  }
+  return lines.join("\n");
+}
+
+function renderCapabilitiesText(caps: CapabilitiesResponse, now = Date.now()): string {
+  const lines = [`Orbio plan: ${caps.plan_tier || "unknown"}`];
 
-  return `Search completed.${note}\n\n\`\`\`json\n${JSON.stringify(body, null, 2)}\n\`\`\``;
+  const snapshotAt = Date.parse(caps.snapshot_date);
+  const age = Number.isFinite(snapshotAt)
+    ? `, ${Math.max(0, Math.floor((now - snapshotAt) / 86_400_000))} days old`
+    : "";
+  lines.push(`Snapshot: ${caps.current_snapshot} (data as of ${caps.snapshot_date}${age})`);
+
+  const limits = Object.entries(caps.limits ?? {});
+  lines.push("", "Limits:");
+  lines.push(
+    ...(limits.length > 0
+      ? limits.map(([key, value]) => `- ${humanizeKey(key)}: ${describeLimit(value)}`)
+      : ["- No plan limits reported."]),
+  );
+
+  const allowed = new Set(caps.field_allowlist);
+  const unlocked = CONTACT_FIELDS.filter((field) => allowed.has(field));
+  lines.push(
+    "",
+    unlocked.length > 0
+      ? `Contact fields unlocked (use --with-contact): ${unlocked.join(", ")}`
+      : "Contact fields: locked on this plan; results show masked fields only.",
+  );
+
+  lines.push("", "Broad-query rules:", describeBroadQueryRules(caps.broad_query_rules));
+
+  if (Array.isArray(caps.allowed_sort_fields) && caps.allowed_sort_fields.length > 0) {
+    lines.push("", `Sortable fields: ${caps.allowed_sort_fields.join(", ")}`);
+  }
+  return lines.join("\n");
 }
 
-function renderExportText(
-  payload: ExportCreateResponse,
-  opts: { withContactRequested: boolean; contactGranted: boolean; fields: string[] },
+type ApiQuota = {
+  limit: number;
+  remaining: number;
+  reset: string | null;
+};
+
+const QUOTA_HEADER_PREFIXES: Array<[string, string]> = [
+  ["X-Quota", "quota"],
+  ["X-RateLimit", "rate limit"],
+];
+
+function readQuotaHeaders(headers: Headers): Record<string, ApiQuota> {
+  const out: Record<string, ApiQuota> = {};
+  for (const [prefix, label] of QUOTA_HEADER_PREFIXES) {
+    const limit = Number(headers.get(`${prefix}-Limit`) ?? Number.NaN);
+    const remaining = Number(headers.get(`${prefix}-Remaining`) ?? Number.NaN);
+    if (limit > 0 && Number.isFinite(remaining)) {
+      out[label] = { limit, remaining, reset: headers.get(`${prefix}-Reset`) };
+    }
+  }
+  return out;
+}
+
+function limitConsumption(value: unknown): { used: number; limit: number } | null {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+  const record = value as JsonRecord;
+  const limit = Number(record.limit);
+  const used = record.used === undefined ? limit - Number(record.remaining) : Number(record.used);
+  return limit > 0 && Number.isFinite(used) ? { used, limit } : null;
+}
+
+function usageFromResponse(event: ApiResponseEvent): UsageCounts {
+  const payload = (event.payload ?? {}) as JsonRecord;
+  const ok = event.status < 400;
+  let rows = 0;
+  if (ok && event.path === "/v1/accounts/search" && Array.isArray(payload.accounts)) {
+    rows = payload.accounts.length;
+  } else if (ok && event.path.startsWith("/v1/accounts/") && payload.account) {
+    rows = 1;
+  }
+  const exports = ok && event.method === "POST" && event.path === "/v1/exports" ? 1 : 0;
+  return { requests: 1, rows, exports };
+}
+
+function exportIdFromResponse(event: ApiResponseEvent): string | null {
+  if (!event.path.startsWith("/v1/exports/") && event.path !== "/v1/exports") {
+    return null;
+  }
+  const payload = (event.payload ?? {}) as JsonRecord;
+  const created = (payload.export ?? {}) as JsonRecord;
+  const exportId = created.export_id ?? payload.export_id;
+  return typeof exportId === "string" ? exportId : null;
+}
+
+function parseUsageWindow(raw: string | undefined): { hours: number; label: string } {
+  const label = (raw ?? "7d").trim().toLowerCase();
+  const match = label.match(/^(\d{1,4})([hd])$/);
+  const hours = match ? Number(match[1]) * (match[2] === "d" ? 24 : 1) : 0;
+  if (hours < 1 || hours > USAGE_RETENTION_DAYS * 24) {
+    throw new PluginValidationError(
+      `Invalid --since value: ${raw}. Use e.g. 24h or 7d (max ${USAGE_RETENTION_DAYS}d).`,
+    );
+  }
+  return { hours, label };
+}
+
+function formatUsageCounts(counts: UsageCounts): string {
+  return `${counts.requests} requests · ${counts.rows} rows · ${counts.exports} exports`;
+}
+
+function usageBreakdown(title: string, entries: Record<string, UsageCounts>): string[] {
+  const lines = Object.entries(entries)
+    .sort(([, a], [, b]) => b.requests - a.requests)
+    .map(([key, counts]) => `- ${key}: ${formatUsageCounts(counts)}`);
+  return ["", `${title}:`, ...lines];
+}
+
+function renderUsageText(
+  workspaceId: string,
+  label: string,
+  summary: ReturnType<typeof summarizeUsage>,
+  limits: JsonRecord,
+  quotas: Record<string, ApiQuota>,
 ): string {
-  const note =
-    opts.withContactRequested && !opts.contactGranted
-      ? "\nNote: contact fields are restricted by plan; export uses masked fields only."
+  const lines = [`Orbio usage for workspace ${workspaceId}, last ${label} (through this plugin):`];
+  if (summary.total.requests === 0) {
+    lines.push("- No API requests recorded.");
+  } else {
+    lines.push(
+      `- Total: ${formatUsageCounts(summary.total)}`,
+      ...usageBreakdown("By tool", summary.byTool),
+      ...usageBreakdown("By channel", summary.byChannel),
+    );
+  }
+  const limitLines = Object.entries(limits).map(([key, value]) => {
+    const consumption = limitConsumption(value);
+    const percent = consumption
+      ? ` (${Math.round((consumption.used / consumption.limit) * 100)}%)`
       : "";
+    return `- ${humanizeKey(key)}: ${describeLimit(value)}${percent}`;
+  });
+  if (limitLines.length > 0) {
+    lines.push("", "Plan limits:", ...limitLines);
+  }
+  const quotaLines = Object.entries(quotas).map(
+    ([name, quota]) =>
+      `- ${name}: ${quota.remaining} of ${quota.limit} remaining${quota.reset ? ` (resets ${quota.reset})` : ""}`,
+  );
+  if (quotaLines.length > 0) {
+    lines.push("", "Last reported by the API:", ...quotaLines);
+  }
+  return lines.join("\n");
+}
 
-  const body = {
-    request_id: payload.request_id,
-    snapshot: payload.snapshot,
-    snapshot_date: payload.snapshot_date,
-    export: payload.export,
-    fields: opts.fields,
-    preview_accounts: topAccounts(payload.preview_accounts),
-  };
+function normalizeSavedSearchName(raw: string): string {
+  const name = raw.trim().toLowerCase();
+  if (!/^[a-z0-9][a-z0-9_-]{0,63}$/.test(name)) {
+    throw new PluginValidationError(
+      `Invalid saved search name: ${raw}. Use letters, digits, "-" or "_" (max 64).`,
+    );
+  }
+  return name;
+}
 
-  return `Export requested.${note}\n\n\`\`\`json\n${JSON.stringify(body, null, 2)}\n\`\`\``;
+function describeSavedSearch(search: SavedSearch): string {
+  const parts = [search.query_text];
+  const filters = (search.filters ?? {}) as SearchFilters;
+  for (const [flag, key] of Object.entries(FILTER_LIST_FLAGS)) {
+    const values = filters[key];
+    if (values && values.length > 0) {
+      parts.push(`${flag} ${values.join(",")}`);
+    }
+  }
+  if (filters.started_after) {
+    parts.push(`--started-after ${filters.started_after}`);
+  }
+  if (search.sort && search.sort.length > 0) {
+    parts.push(
+      `--sort ${search.sort.map((key) => `${key.field}:${key.direction ?? "asc"}`).join(",")}`,
+    );
+  }
+  if (search.fields && search.fields.length > 0) {
+    parts.push(`--fields ${search.fields.join(",")}`);
+  }
+  if (search.limit !== undefined) {
+    parts.push(`--limit ${search.limit}`);
+  }
+  if (search.with_contact) {
+    parts.push("--with-contact");
+  }
+  return parts.join(" ");
 }
 
-function renderExportStatusText(payload: ExportStatusResponse): string {
-  const body = {
-    export_id: payload.export_id,
-    status: payload.status,
-    format: payload.format,
-    row_count: payload.row_count,
-    size_bytes: payload.size_bytes,
-    expires_at: payload.expires_at,
-    download_url: payload.download_url,
-  };
-  return `Export status:\n\n\`\`\`json\n${JSON.stringify(body, null, 2)}\n\`\`\``;
+function renderSavedSearchList(searches: SavedSearch[]): string {
+  if (searches.length === 0) {
+    return "No saved searches yet. Save one with /orbio save <name> after a search.";
+  }
+  const lines = searches.map(
+    (search) =>
+      `- ${search.name}: ${describeSavedSearch(search)} (updated ${search.updated_at.slice(0, 10)})`,
+  );
+  return `Saved searches (${searches.length}):\n${lines.join("\n")}\n\nRun one with /orbio run <name> [--export].`;
+}
+
+type WatchChange = {
+  cnpj: string;
+  name: string | null;
+  from?: string | null;
+  to: string | null;
+};
+
+type WatchReport = {
+  name: string;
+  previousSnapshot: string;
+  snapshot: string;
+  snapshotDate: string;
+  added: WatchChange[];
+  statusChanged: WatchChange[];
+  noLongerMatching: number;
+  truncated: boolean;
+};
+
+function watchedStatus(account: JsonRecord): string | null {
+  const status = account.registration_status;
+  return status === undefined || status === null ? null : String(status);
+}
+
+function watchedName(account: JsonRecord): string | null {
+  return String(account.trade_name || account.legal_name || "") || null;
+}
+
+function statusText(code: string | null): string {
+  return code === null ? "unknown" : (codeLabel(REGISTRATION_STATUS_CODES, code) ?? code);
+}
+
+function watchChangeLines(title: string, changes: WatchChange[]): string[] {
+  if (changes.length === 0) {
+    return [];
+  }
+  const lines = changes.slice(0, WATCH_ALERT_LINES).map((change) => {
+    const name = change.name ? `${change.name} · ` : "";
+    const status =
+      change.from === undefined
+        ? statusText(change.to)
+        : `${statusText(change.from)} → ${statusText(change.to)}`;
+    return `- ${name}${formatCnpj(change.cnpj) ?? change.cnpj} · ${status}`;
+  });
+  if (changes.length > WATCH_ALERT_LINES) {
+    lines.push(`… and ${changes.length - WATCH_ALERT_LINES} more`);
+  }
+  return ["", `${title} (${changes.length}):`, ...lines];
+}
+
+function renderWatchAlert(report: WatchReport): string {
+  const lines = [
+    `Orbio watch "${report.name}": snapshot ${report.snapshot} (data as of ${report.snapshotDate}) compared with ${report.previousSnapshot}.`,
+    ...watchChangeLines("New companies", report.added),
+    ...watchChangeLines("Status changes", report.statusChanged),
+  ];
+  if (report.noLongerMatching > 0) {
+    lines.push("", `No longer matching: ${report.noLongerMatching}.`);
+  }
+  if (report.truncated) {
+    lines.push("", `Note: only the first ${WATCH_MAX_COMPANIES} matches are tracked.`);
+  }
+  return lines.join("\n");
+}
+
+function renderWatchList(watches: SearchWatch[], saved: Map<string, SavedSearch>): string {
+  if (watches.length === 0) {
+    return "No watches yet. Watch a saved search with /orbio watch <name>.";
+  }
+  const lines = watches.map((watch) => {
+    const search = saved.get(watch.name);
+    const count = Object.keys(watch.companies).length;
+    return [
+      `- ${watch.name}: ${count}${watch.truncated ? "+" : ""} companies · snapshot ${watch.snapshot} · checked ${watch.checked_at.slice(0, 10)}`,
+      `  ${search ? describeSavedSearch(search) : "(saved search missing)"}`,
+    ].join("\n");
+  });
+  return `Watches (${watches.length}):\n${lines.join("\n")}\n\nStop one with /orbio unwatch <name>.`;
+}
+
+function renderExportNotificationText(payload: ExportStatusResponse): string {
+  const status = String(payload.status ?? "").toLowerCase();
+  if (EXPORT_SUCCESS_STATUSES.includes(status)) {
+    const rows = payload.row_count === null ? "" : ` rows=${payload.row_count}`;
+    const expires = payload.expires_at ? ` expires_at=${payload.expires_at}` : "";
+    return `Orbio export ${payload.export_id} is ready:${rows}${expires}\n${payload.download_url ?? "(no download_url)"}`;
+  }
+  return `Orbio export ${payload.export_id} finished with status ${payload.status}.`;
 }
 
 function errorText(error: unknown): string {
@@ -653,6 +2583,10 @@ function errorText(error: unknown): string {
     return `Rate limited by plugin policy. Retry in ~${error.retryAfterSec}s.`;
   }
 
+  if (error instanceof PluginValidationError || error instanceof PluginAccessError) {
+    return error.message;
+  }
+
   if (error instanceof OrbioApiError) {
     const code = (error.code ?? "").toLowerCase();
     const requestIdSuffix = error.requestId ? ` (request_id=${error.requestId})` : "";
@@ -662,7 +2596,11 @@ function errorText(error: unknown): string {
       return `Orbio rate limit exceeded.${retry}${requestIdSuffix}`;
     }
     if (code === "quota_exceeded") {
-      return `Orbio quota exceeded for this API key/workspace.${requestIdSuffix}`;
+      const retry = error.retryAfter ? ` Retry-After=${error.retryAfter}s.` : "";
+      return `Orbio quota exceeded for this API key/workspace.${retry} See /orbio usage for recent consumption and /orbio capabilities for plan limits.${requestIdSuffix}`;
+    }
+    if (code === "api_key_unavailable") {
+      return "Orbio API key could not be loaded. Check the plugin log for the cause.";
     }
     if (
       code === "authentication_required" ||
@@ -675,6 +2613,9 @@ function errorText(error: unknown): string {
     if (code === "invalid_spec" || code === "query_too_broad" || error.status === 422) {
       return `Query is invalid or too broad. Narrow filters and retry.${requestIdSuffix}`;
     }
+    if (code === "circuit_open") {
+      return `Orbio looks unavailable after repeated failures, so calls are paused. Retry in ~${error.retryAfter}s.`;
+    }
     if (code === "dependency_unavailable" || error.status >= 500) {
       return `Orbio dependency is temporarily unavailable. Retry shortly.${requestIdSuffix}`;
     }
@@ -687,68 +2628,828 @@ function errorText(error: unknown): string {
   return "Unexpected unknown error.";
 }
 
+function auditFailure(error: unknown): {
+  outcome: AuditOutcome;
+  errorCode: string;
+  requestId: string | null;
+} {
+  if (error instanceof PluginAccessError) {
+    return { outcome: "denied", errorCode: "ACCESS_DENIED", requestId: null };
+  }
+  if (error instanceof PluginRateLimitError) {
+    return { outcome: "rate_limited", errorCode: "PLUGIN_RATE_LIMITED", requestId: null };
+  }
+  if (error instanceof PluginValidationError) {
+    return { outcome: "invalid", errorCode: "INVALID_INPUT", requestId: null };
+  }
+  if (error instanceof OrbioApiError) {
+    return {
+      outcome: error.status === 429 ? "rate_limited" : "error",
+      errorCode: error.code ?? `HTTP_${error.status}`,
+      requestId: error.requestId,
+    };
+  }
+  return { outcome: "error", errorCode: "UNEXPECTED_ERROR", requestId: null };
+}
+
+// Everything here comes from the host context, never from tool arguments: the conversation keys
+// remembered searches (which may hold contact values), and the user, roles and channel drive access
+// control, contact redaction and workspace routing.
+function readInvocationContext(context: unknown): InvocationContext {
+  const host = (context && typeof context === "object" ? context : {}) as JsonRecord;
+  const pick = (...keys: string[]): string | null => {
+    for (const key of keys) {
+      const raw = host[key];
+      if (typeof raw === "string" && raw.trim()) {
+        return raw.trim().slice(0, 200);
+      }
+    }
+    return null;
+  };
+
+  const channel = pick("message_channel", "messageChannel");
+  const rawRoles = host.sender_roles ?? host.senderRoles ?? host.roles;
+  const roles = (Array.isArray(rawRoles) ? rawRoles : [rawRoles])
+    .filter((role): role is string => typeof role === "string" && role.trim() !== "")
+    .map((role) => role.trim());
+  const chatType = pick("chat_type", "chatType", "conversation_type", "conversationType");
+  return {
+    sessionKey: pick("session_key", "sessionKey", "conversation_id", "conversationId"),
+    channel: channel ? normalizeChannel(channel) : null,
+    userId: pick("sender_id", "senderId", "user_id", "userId"),
+    roles,
+    groupChat:
+      host.is_group === true ||
+      host.isGroup === true ||
+      GROUP_CHAT_TYPES.includes(chatType?.toLowerCase() ?? ""),
+    teamId: pick("team_id", "teamId", "guild_id", "guildId"),
+    workspace: null,
+  };
+}
+
+// The permission a parsed /orbio command needs; listing and reporting commands need none.
+function commandAccessNeed(parsed: ParsedCommand | { error: string }): AccessNeed | null {
+  if ("error" in parsed) {
+    return null;
+  }
+  switch (parsed.action) {
+    case "search":
+    case "export":
+      return { action: parsed.action, contacts: parsed.withContact, limit: parsed.limit };
+    case "company":
+      return { action: "search", contacts: parsed.withContact };
+    case "run":
+      return {
+        action: parsed.asExport ? "export" : "search",
+        contacts: parsed.overrides.withContact,
+        limit: parsed.overrides.limit,
+      };
+    case "save":
+    case "watch":
+      return { action: "search", contacts: parsed.search?.withContact };
+    case "explain":
+    case "search-next":
+    case "saved-delete":
+    case "unwatch":
+      return { action: "search" };
+    case "confirm":
+    case "export-status":
+    case "export-list":
+    case "export-cancel":
+      return { action: "export" };
+    default:
+      return null;
+  }
+}
+
+type AuditDetails = Pick<
+  AuditEvent,
+  | "query_text"
+  | "fields_requested"
+  | "fields_granted"
+  | "contact_requested"
+  | "contact_granted"
+  | "contact_redaction"
+  | "rows"
+  | "export_id"
+  | "request_id"
+>;
+
 function result(text: string): ToolResult {
   return { content: [{ type: "text", text }] };
 }
 
 export default function registerOrbioPlugin(api: unknown): unknown {
   const cfg = readConfig(api);
-  const http = new OrbioHttpClient(cfg);
-  const limiter = new MinuteWindowLimiter();
+  const pluginApi = api as {
+    registerTool: (
+      name: string,
+      spec: {
+        description: string;
+        parameters: unknown;
+        optional?: boolean;
+      },
+      handler: (args: any, context?: unknown) => Promise<ToolResult>,
+    ) => unknown;
+    sendMessage?: (message: { sessionKey: string; text: string }) => unknown;
+    savedSearchStore?: SavedSearchStore;
+    watchStore?: WatchStore;
+    searchCache?: SearchCache;
+    usageStore?: UsageStore;
+    rateLimiter?: RateLimiter;
+    auditSink?: AuditSink;
+    tracerProvider?: TracerProvider;
+    meterProvider?: MeterProvider;
+    secretProvider?: SecretProvider;
+    logger?: PluginLogger;
+  };
+  const logger: PluginLogger = pluginApi.logger ?? {
+    warn: (message) => void process.stderr.write(`${message}\n`),
+  };
+  const telemetry = createTelemetry(PLUGIN_VERSION, {
+    tracerProvider: pluginApi.tracerProvider,
+    meterProvider: pluginApi.meterProvider,
+  });
+  // Each workspace calls the API with its own client and caches its own capabilities; the one
+  // serving the current call (or background job) travels in callScope.
+  const workspaces = new Map<string, Workspace>(
+    Object.values(cfg.workspaces).map((workspaceCfg) => [
+      workspaceCfg.workspaceId,
+      {
+        cfg: workspaceCfg,
+        http: new OrbioHttpClient(
+          workspaceCfg,
+          (event) => recordApiResponse(event),
+          telemetry,
+          createApiKeyResolver(workspaceCfg.apiKeys, pluginApi.secretProvider),
+          logger,
+        ),
+        capabilities: null,
+        quotas: {},
+      },
+    ]),
+  );
+  const workspaceById = (id: string): Workspace => {
+    const workspace = workspaces.get(id);
+    if (!workspace) {
+      throw new PluginValidationError(`Unknown Orbio workspace "${id}".`);
+    }
+    return workspace;
+  };
+  const defaultWorkspace = workspaceById(cfg.workspaceId);
+  const current = (): Workspace => callScope.getStore()?.workspace ?? defaultWorkspace;
+  const workspaceId = (): string => current().cfg.workspaceId;
+  const http = {
+    request: <T>(...args: Parameters<OrbioHttpClient["request"]>): Promise<T> =>
+      current().http.request<T>(...args),
+  };
+
+  // Hosts can supply their own backend (e.g. a database); otherwise config picks file or memory.
+  const savedSearches: SavedSearchStore =
+    pluginApi.savedSearchStore ??
+    (cfg.savedSearchStore === "memory"
+      ? createMemorySavedSearchStore()
+      : createFileSavedSearchStore(cfg.savedSearchesPath));
+  const watches: WatchStore =
+    pluginApi.watchStore ??
+    (cfg.savedSearchStore === "memory"
+      ? createMemoryWatchStore()
+      : createFileWatchStore(cfg.watchesPath));
+  const cacheOptions = { ttlMs: cfg.searchCacheTtlMs, maxEntries: cfg.searchCacheMaxEntries };
+  const searchCache: SearchCache | null =
+    pluginApi.searchCache ??
+    (cfg.searchCache === "memory"
+      ? createMemorySearchCache(cacheOptions)
+      : cfg.searchCache === "file"
+        ? createFileSearchCache(cfg.searchCachePath, cacheOptions)
+        : null);
+  const usage: UsageStore =
+    pluginApi.usageStore ??
+    (cfg.savedSearchStore === "memory"
+      ? createMemoryUsageStore()
+      : createFileUsageStore(cfg.usagePath));
+  const auditSink: AuditSink | null =
+    pluginApi.auditSink ??
+    (cfg.auditLog === "file"
+      ? createFileAuditSink(cfg.auditLogPath)
+      : cfg.auditLog === "stdout"
+        ? createStdoutAuditSink()
+        : cfg.auditLog === "webhook"
+          ? createWebhookAuditSink(cfg.auditWebhookUrl, { timeoutMs: cfg.timeoutMs })
+          : null);
+  const lastSearches = new Map<string, RememberedSearch>();
+  // Exports waiting for /orbio confirm, bound to the user and workspace that asked for them.
+  const confirmations = createConfirmationStore<ExportToolInput>(cfg.exportConfirmation.ttlMs);
+
+  // The shared backend lets gateway replicas draw from one bucket per key; if it is unreachable
+  // each process falls back to its own buckets rather than blocking or ignoring limits.
+  const localLimiter = createMemoryRateLimiter();
+  const sharedLimiter: RateLimiter | null =
+    pluginApi.rateLimiter ??
+    (cfg.rateLimiter === "redis"
+      ? createRedisRateLimiter(
+          createRedisConnection(cfg.rateLimiterUrl, { timeoutMs: Math.min(cfg.timeoutMs, 2_000) }),
+        )
+      : null);
 
-  let capabilitiesCache: { expiresAt: number; value: CapabilitiesResponse } | null = null;
+  const throttle = async (
+    key: string,
+    rule: TokenBucketRule,
+    source: { scope: "tool" | "user"; tool: string },
+  ): Promise<void> => {
+    const decision = sharedLimiter
+      ? await sharedLimiter.take(key, rule).catch(() => localLimiter.take(key, rule))
+      : await localLimiter.take(key, rule);
+    if (!decision.allowed) {
+      telemetry.recordRateLimit(source.scope, source.tool);
+      throw new PluginRateLimitError(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)));
+    }
+  };
+
+  const throttleTool = (toolName: string, workspace = current()): Promise<void> =>
+    throttle(
+      `${workspace.cfg.workspaceId}:${toolName}`,
+      { ratePerMinute: workspace.cfg.maxRequestsPerMinute, burst: workspace.cfg.rateLimitBurst },
+      { scope: "tool", tool: toolName },
+    );
+
+  const lastSearchKey = (ctx: InvocationContext): string | null =>
+    ctx.sessionKey ? `${workspaceId()}:${ctx.sessionKey}` : null;
+
+  const rememberSearch = (ctx: InvocationContext, search: RememberedSearch): void => {
+    const key = lastSearchKey(ctx);
+    if (!key) {
+      return;
+    }
+    lastSearches.delete(key);
+    lastSearches.set(key, search);
+    if (lastSearches.size > MAX_REMEMBERED_SEARCHES) {
+      const oldest = lastSearches.keys().next().value as string;
+      lastSearches.delete(oldest);
+    }
+  };
 
-  const getCapabilities = async (): Promise<CapabilitiesResponse> => {
+  const getCapabilities = async (refresh = false): Promise<CapabilitiesResponse> => {
     const now = Date.now();
-    if (capabilitiesCache && capabilitiesCache.expiresAt > now) {
-      return capabilitiesCache.value;
+    const workspace = current();
+    const cached = workspace.capabilities;
+    if (!refresh && cached && cached.expiresAt > now) {
+      return cached.value;
+    }
+    const previousSnapshot = cached?.value.current_snapshot;
+    const response = await workspace.http.request<CapabilitiesResponse>("GET", "/v1/capabilities");
+    workspace.capabilities = { expiresAt: now + workspace.cfg.capabilitiesTtlMs, value: response };
+    if (previousSnapshot && previousSnapshot !== response.current_snapshot) {
+      void checkWatches(workspace, response);
+      void searchCache?.retain(response.current_snapshot).catch(() => undefined);
+    }
+    return response;
+  };
+
+  // API calls are attributed to the tool and channel whose handler (or background job) made them;
+  // tool handlers also collect the details of their audit event here.
+  const callScope = new AsyncLocalStorage<{
+    tool: string;
+    channel: string;
+    workspace: Workspace;
+    audit?: AuditDetails;
+    // Set for API calls whose rows nobody sees (explanations, export estimates).
+    rowsHidden?: boolean;
+  }>();
+
+  // Background jobs get a scope of their own, so their API calls are never booked to the tool
+  // call, channel or audit event that happened to start them.
+  const runInBackground = <T>(
+    job: string,
+    workspace: Workspace,
+    fn: () => Promise<T>,
+  ): Promise<T> =>
+    callScope.run({ tool: `background:${job}`, channel: workspace.cfg.channel, workspace }, fn);
+
+  const recordApiResponse = (event: ApiResponseEvent): void => {
+    const workspace = current();
+    workspace.quotas = { ...workspace.quotas, ...readQuotaHeaders(event.headers) };
+    const scope = callScope.getStore() ?? {
+      tool: "background",
+      channel: workspace.cfg.channel,
+      workspace,
+    };
+    const counts = usageFromResponse(event);
+    if (scope.audit && event.path !== "/v1/capabilities") {
+      scope.audit.rows += scope.rowsHidden ? 0 : counts.rows;
+      scope.audit.request_id = event.requestId;
+      scope.audit.export_id = exportIdFromResponse(event) ?? scope.audit.export_id;
+    }
+    void usage
+      .add(workspaceId(), {
+        hour: usageHour(Date.now()),
+        tool: scope.tool,
+        channel: scope.channel,
+        ...counts,
+      })
+      .catch(() => undefined);
+  };
+
+  const noteAudit = (details: Partial<AuditDetails>): void => {
+    const audit = callScope.getStore()?.audit;
+    if (audit) {
+      Object.assign(audit, details);
+    }
+  };
+
+  // Audit delivery never changes the reply the user gets, but a lost event is logged.
+  const writeAudit = (event: AuditEvent): void => {
+    void auditSink?.write(event).catch((error: unknown) => {
+      logger.warn(
+        `[orbio] Audit event for ${event.tool} (request_id=${event.request_id ?? "none"}) was not written: ${(error as Error).message}`,
+      );
+    });
+  };
+
+  // Each plan limit (and the API quota header) warns at most once per UTC day.
+  const warnedUsage = new Set<string>();
+  let warnedDay = "";
+
+  const usageWarnings = (workspace: Workspace): string => {
+    const day = new Date().toISOString().slice(0, 10);
+    if (day !== warnedDay) {
+      warnedUsage.clear();
+      warnedDay = day;
+    }
+    const lines: string[] = [];
+    const consider = (key: string, label: string, used: number, limit: number): void => {
+      const percent = Math.floor((used / limit) * 100);
+      const warnedKey = `${workspace.cfg.workspaceId}:${key}`;
+      if (percent >= cfg.usageWarningPercent && !warnedUsage.has(warnedKey)) {
+        warnedUsage.add(warnedKey);
+        lines.push(
+          `Warning: ${label} is at ${percent}% (${used} of ${limit} used). See /orbio usage.`,
+        );
+      }
+    };
+    for (const [key, value] of Object.entries(workspace.capabilities?.value.limits ?? {})) {
+      const consumption = limitConsumption(value);
+      if (consumption) {
+        consider(
+          `limit:${key}`,
+          `plan limit "${humanizeKey(key)}"`,
+          consumption.used,
+          consumption.limit,
+        );
+      }
+    }
+    const quota = workspace.quotas.quota;
+    if (quota) {
+      consider("quota", "the API quota", quota.limit - quota.remaining, quota.limit);
+    }
+    return lines.length > 0 ? `\n\n${lines.join("\n")}` : "";
+  };
+
+  const authorize = (ctx: InvocationContext, need: AccessNeed | null, workspace = current()) => {
+    if (!cfg.accessPolicy) {
+      return null;
+    }
+    const subject = {
+      userId: ctx.userId,
+      roles: ctx.roles,
+      channel: ctx.channel ?? workspace.cfg.channel,
+    };
+    const grant = resolveAccess(cfg.accessPolicy, subject);
+    const denial = need ? accessDenial(grant, need, subject) : null;
+    if (denial) {
+      throw new PluginAccessError(denial);
+    }
+    return grant;
+  };
+
+  // Only returns a redaction when contact values would otherwise reach the chat unmasked.
+  const redactionFor = (ctx: InvocationContext, contactGranted: boolean) => {
+    if (!contactGranted) {
+      return null;
+    }
+    const applied = resolveContactRedaction(cfg.contactRedaction, {
+      channel: ctx.channel ?? current().cfg.channel,
+      groupChat: ctx.groupChat,
+    });
+    return applied.mode === "full" ? null : applied;
+  };
+
+  // Access is checked before throttling so refused requests neither spend tokens nor reach the API.
+  const runGuarded = async (
+    toolName: string,
+    ctx: InvocationContext,
+    need: AccessNeed | null | (() => AccessNeed | null),
+    fn: () => Promise<string>,
+  ): Promise<ToolResult> => {
+    const startedAt = Date.now();
+    let workspace = defaultWorkspace;
+    let channel = ctx.channel ?? workspace.cfg.channel;
+    const audit: AuditDetails = {
+      query_text: null,
+      fields_requested: null,
+      fields_granted: [],
+      contact_requested: false,
+      contact_granted: false,
+      contact_redaction: null,
+      rows: 0,
+      export_id: null,
+      request_id: null,
+    };
+    let action: string | null = null;
+    const span = telemetry.startTool(toolName, {});
+    const finish = (outcome: AuditOutcome, errorCode: string | null): void => {
+      telemetry.endTool(span, toolName, outcome, errorCode);
+      writeAudit({
+        ts: new Date(startedAt).toISOString(),
+        workspace_id: workspace.cfg.workspaceId,
+        tool: toolName,
+        action,
+        user_id: ctx.userId,
+        roles: ctx.roles,
+        channel,
+        ...audit,
+        outcome,
+        error_code: errorCode,
+        duration_ms: Date.now() - startedAt,
+      });
+    };
+
+    try {
+      const resolved = typeof need === "function" ? need() : need;
+      action = resolved?.action ?? null;
+      const route = resolveWorkspace(cfg.workspaceRouting, {
+        requested: ctx.workspace,
+        teamId: ctx.teamId,
+        channel: ctx.channel,
+      });
+      if ("error" in route) {
+        throw new PluginValidationError(route.error);
+      }
+      workspace = workspaceById(route.workspaceId);
+      channel = ctx.channel ?? workspace.cfg.channel;
+      span.setAttributes({
+        "orbio.workspace_id": workspace.cfg.workspaceId,
+        "orbio.channel": channel,
+      });
+      authorize(ctx, resolved, workspace);
+      if (ctx.userId && workspace.cfg.maxRequestsPerMinutePerUser > 0) {
+        const perUser = workspace.cfg.maxRequestsPerMinutePerUser;
+        await throttle(
+          `${workspace.cfg.workspaceId}:user:${ctx.userId}`,
+          { ratePerMinute: perUser, burst: perUser },
+          { scope: "user", tool: toolName },
+        );
+      }
+      await throttleTool(toolName, workspace);
+      const scope = { tool: toolName, channel, workspace, audit };
+      const text = await telemetry.runInSpan(span, () => callScope.run(scope, fn));
+      finish("ok", null);
+      return result(`${text}${usageWarnings(workspace)}`);
+    } catch (error) {
+      const failure = auditFailure(error);
+      audit.request_id = failure.requestId ?? audit.request_id;
+      finish(failure.outcome, failure.errorCode);
+      return result(errorText(error));
+    }
+  };
+
+  // The cache is best-effort: an unreadable or unwritable backend falls back to the API.
+  const readCachedSearch = async (
+    key: string,
+    snapshot: string,
+  ): Promise<AccountSearchResponse | null> => {
+    try {
+      const entry = await searchCache?.get(key);
+      return entry && entry.snapshot === snapshot ? (entry.value as AccountSearchResponse) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeCachedSearch = async (key: string, payload: AccountSearchResponse): Promise<void> => {
+    try {
+      await searchCache?.set(key, {
+        snapshot: payload.snapshot,
+        stored_at: Date.now(),
+        value: payload,
+      });
+    } catch {
+      // Ignored; the next identical search simply goes to the API again.
+    }
+  };
+
+  const resolveView = (requested: ViewMode | undefined, ctx: InvocationContext): ViewMode =>
+    requested ?? defaultViewForChannel(ctx.channel ?? current().cfg.channel);
+
+  // A one-row search with include_explain: only the interpretation is shown, never the row.
+  const explainSearch = async (
+    queryText: string,
+    filters: SearchFilters | undefined,
+  ): Promise<SearchExplanation | null> => {
+    const request = () =>
+      http.request<AccountSearchResponse>("POST", "/v1/accounts/search", {
+        query_text: queryText,
+        ...(filters ? { filters } : {}),
+        limit: 1,
+        output: { format: "json", include_explain: true, fields: ["cnpj"] },
+      });
+    const scope = callScope.getStore();
+    const payload = await (scope
+      ? callScope.run({ ...scope, rowsHidden: true }, request)
+      : request());
+    return parseSearchExplanation(payload);
+  };
+
+  const explainQuery = async (
+    queryText: string,
+    filters: SearchFilters | undefined,
+  ): Promise<string> =>
+    renderExplanation(queryText, await explainSearch(queryText, filters), filters);
+
+  const doExplain = async (args: ExplainToolInput): Promise<string> => {
+    const filters = normalizeFilters(args.filters);
+    // Explain and dry runs exist to preview queries, so the broad-query rules do not block them.
+    noteAudit({ query_text: args.query_text, fields_granted: ["cnpj"] });
+    return explainQuery(args.query_text, filters);
+  };
+
+  const doSearch = async (args: SearchToolInput, ctx: InvocationContext): Promise<string> => {
+    if (args.dry_run) {
+      const preview = await doExplain(args);
+      return `${preview}\n\nDry run: nothing was searched. Run it again without --dry-run to search.`;
+    }
+    const filters = normalizeFilters(args.filters);
+    const caps = await getCapabilities();
+    checkBroadQueryRules(filters, caps.broad_query_rules);
+    const sort = normalizeSort(args.sort, caps.allowed_sort_fields);
+    const withContact = Boolean(args.with_contact);
+    const chosen = chooseOutputFields(caps.field_allowlist, withContact, args.fields);
+    const redaction = redactionFor(ctx, chosen.contactGranted);
+    const selection =
+      redaction?.mode === "flags" ? withholdContactFields(chosen, caps.field_allowlist) : chosen;
+    const { fields, contactGranted } = selection;
+    const limit = Math.min(clampLimit(args.limit), authorize(ctx, null)?.maxLimit ?? Infinity);
+    noteAudit({
+      query_text: args.query_text,
+      fields_requested: args.fields ?? null,
+      fields_granted: fields,
+      contact_requested: withContact,
+      contact_granted: contactGranted,
+      contact_redaction: contactRedactionForAudit(contactGranted, redaction),
+    });
+    const requestBody = {
+      query_text: args.query_text,
+      ...(filters ? { filters } : {}),
+      ...(sort ? { sort } : {}),
+      limit,
+      output: {
+        format: "json",
+        include_explain: Boolean(args.explain),
+        fields,
+      },
+    };
+
+    // Responses carrying contact fields are never cached, so no contact data lands on disk.
+    const cacheKey =
+      searchCache && !contactGranted
+        ? searchCacheKey(workspaceId(), caps.current_snapshot, requestBody)
+        : null;
+    const cached = cacheKey ? await readCachedSearch(cacheKey, caps.current_snapshot) : null;
+    const payload =
+      cached ??
+      (await http.request<AccountSearchResponse>("POST", "/v1/accounts/search", requestBody));
+    if (cacheKey && !cached) {
+      await writeCachedSearch(cacheKey, payload);
+    }
+    if (cached) {
+      noteAudit({ rows: cached.accounts.length });
+    }
+
+    rememberSearch(ctx, {
+      queryText: args.query_text,
+      filters,
+      sort,
+      limit,
+      fields,
+      fieldsRequested: args.fields,
+      withContactRequested: withContact,
+      contactGranted,
+      redaction,
+      nextCursor: payload.has_more ? payload.next_cursor : null,
+    });
+
+    const text = renderSearchText(payload, {
+      withContactRequested: withContact,
+      contactGranted,
+      redaction,
+      fields,
+      view: resolveView(args.view, ctx),
+      dropped: selection,
+      cached: cached !== null,
+    });
+    return args.explain
+      ? `${text}\n\n${renderExplanation(args.query_text, parseSearchExplanation(payload), filters)}`
+      : text;
+  };
+
+  const pollExportUntilTerminal = async (
+    exportId: string,
+    timeoutMs: number,
+    opts?: { unref?: boolean },
+  ): Promise<ExportStatusResponse | null> => {
+    const deadline = Date.now() + timeoutMs;
+    const workspaceCfg = current().cfg;
+    let delayMs = workspaceCfg.exportPollIntervalMs;
+
+    for (;;) {
+      let waitMs = delayMs;
+      try {
+        await throttleTool("orbio_export_watch");
+        const payload = await http.request<ExportStatusResponse>(
+          "GET",
+          `/v1/exports/${encodeURIComponent(exportId)}`,
+        );
+        if (isTerminalExportStatus(payload.status)) {
+          return payload;
+        }
+        delayMs = Math.min(workspaceCfg.exportPollMaxIntervalMs, delayMs * 2);
+      } catch (error) {
+        if (error instanceof PluginRateLimitError) {
+          waitMs = Math.max(waitMs, error.retryAfterSec * 1000);
+        } else if (
+          error instanceof OrbioApiError &&
+          (error.status === 429 || error.status === 0 || error.status >= 500)
+        ) {
+          waitMs = Math.max(waitMs, parseRetryAfterMs(error.retryAfter) ?? 0);
+        } else {
+          throw error;
+        }
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        return null;
+      }
+      await sleep(Math.min(waitMs, remainingMs), opts);
+    }
+  };
+
+  const activeWatchers = new Set<string>();
+
+  const watchExport = (exportId: string, ctx: InvocationContext): boolean => {
+    const send = pluginApi.sendMessage;
+    const workspace = current();
+    const workspaceCfg = workspace.cfg;
+    if (!workspaceCfg.exportWatch || typeof send !== "function" || !ctx.sessionKey) {
+      return false;
     }
-    const response = await http.request<CapabilitiesResponse>("GET", "/v1/capabilities");
-    capabilitiesCache = { expiresAt: now + cfg.capabilitiesTtlMs, value: response };
-    return response;
+    const sessionKey = ctx.sessionKey;
+    if (activeWatchers.has(exportId)) {
+      return true;
+    }
+    activeWatchers.add(exportId);
+
+    void runInBackground("export_watch", workspace, async () => {
+      let text: string;
+      try {
+        const payload = await pollExportUntilTerminal(exportId, workspaceCfg.exportWatchTimeoutMs, {
+          unref: true,
+        });
+        text = payload
+          ? renderExportNotificationText(payload)
+          : `Orbio export ${exportId} is still running. Use /orbio export-status ${exportId}.`;
+      } catch (error) {
+        text = `Orbio export ${exportId} could not be tracked: ${errorText(error)}`;
+      }
+      try {
+        await send.call(pluginApi, { sessionKey, text });
+      } catch {
+        // Notification delivery is best-effort; the export itself is unaffected.
+      } finally {
+        activeWatchers.delete(exportId);
+      }
+    });
+    return true;
   };
 
-  const runGuarded = async (toolName: string, fn: () => Promise<string>): Promise<ToolResult> => {
-    try {
-      limiter.check(`${cfg.workspaceId}:${toolName}`, cfg.maxRequestsPerMinute);
-      const text = await fn();
-      return result(text);
-    } catch (error) {
-      return result(errorText(error));
+  const doSearchNext = async (
+    args: SearchNextToolInput,
+    ctx: InvocationContext,
+  ): Promise<string> => {
+    const key = lastSearchKey(ctx);
+    const last = key ? lastSearches.get(key) : undefined;
+    if (!last) {
+      return "No previous search in this conversation. Run /orbio search <query> first.";
     }
-  };
+    if (!last.nextCursor) {
+      return "No more results for the last search.";
+    }
+    // The remembered search may belong to another member of a group chat, so the caller needs
+    // the same permissions it would need to run that search now.
+    authorize(ctx, { action: "search", contacts: last.contactGranted, limit: last.limit });
 
-  const doSearch = async (args: SearchToolInput): Promise<string> => {
-    const caps = await getCapabilities();
-    const withContact = Boolean(args.with_contact);
-    const { fields, contactGranted } = chooseOutputFields(caps.field_allowlist, withContact);
+    noteAudit({
+      query_text: last.queryText,
+      fields_requested: last.fieldsRequested ?? null,
+      fields_granted: last.fields,
+      contact_requested: last.withContactRequested,
+      contact_granted: last.contactGranted,
+      contact_redaction: contactRedactionForAudit(last.contactGranted, last.redaction),
+    });
 
     const payload = await http.request<AccountSearchResponse>("POST", "/v1/accounts/search", {
-      query_text: args.query_text,
-      limit: clampLimit(args.limit),
+      query_text: last.queryText,
+      ...(last.filters ? { filters: last.filters } : {}),
+      ...(last.sort ? { sort: last.sort } : {}),
+      limit: last.limit,
+      cursor: last.nextCursor,
       output: {
         format: "json",
         include_explain: false,
-        fields,
+        fields: last.fields,
       },
     });
 
+    rememberSearch(ctx, {
+      ...last,
+      nextCursor: payload.has_more ? payload.next_cursor : null,
+    });
+
     return renderSearchText(payload, {
-      withContactRequested: withContact,
-      contactGranted,
-      fields,
+      withContactRequested: last.withContactRequested,
+      contactGranted: last.contactGranted,
+      redaction: last.redaction,
+      fields: last.fields,
+      view: resolveView(args.view, ctx),
+      title: "Search completed (next page).",
+    });
+  };
+
+  const doCompany = async (args: CompanyToolInput, ctx: InvocationContext): Promise<string> => {
+    const cnpj = normalizeCnpj(args.cnpj);
+    if (!cnpj) {
+      throw new PluginValidationError(
+        `Invalid CNPJ: ${args.cnpj}. Use 14 characters with valid check digits, e.g. 11.222.333/0001-81.`,
+      );
+    }
+
+    const caps = await getCapabilities();
+    const withContact = Boolean(args.with_contact);
+    const chosen = chooseOutputFields(caps.field_allowlist, withContact);
+    const redaction = redactionFor(ctx, chosen.contactGranted);
+    const { fields, contactGranted } =
+      redaction?.mode === "flags" ? withholdContactFields(chosen, caps.field_allowlist) : chosen;
+    noteAudit({
+      query_text: cnpj,
+      fields_granted: fields,
+      contact_requested: withContact,
+      contact_granted: contactGranted,
+      contact_redaction: contactRedactionForAudit(contactGranted, redaction),
     });
+
+    const params = new URLSearchParams({ fields: fields.join(",") });
+    try {
+      const payload = await http.request<AccountLookupResponse>(
+        "GET",
+        `/v1/accounts/${cnpj}?${params}`,
+      );
+      return renderCompanyText(payload, {
+        withContactRequested: withContact,
+        contactGranted,
+        redaction,
+        fields,
+        view: resolveView(args.view, ctx),
+      });
+    } catch (error) {
+      if (error instanceof OrbioApiError && error.status === 404) {
+        return `No company found for CNPJ ${cnpj} in the current snapshot.`;
+      }
+      throw error;
+    }
   };
 
-  const doExport = async (args: ExportToolInput): Promise<string> => {
+  const doExport = async (
+    args: ExportToolInput,
+    ctx: InvocationContext,
+    confirmed = false,
+  ): Promise<string> => {
+    const filters = normalizeFilters(args.filters);
     const caps = await getCapabilities();
+    const sort = normalizeSort(args.sort, caps.allowed_sort_fields);
     const withContact = Boolean(args.with_contact);
-    const { fields, contactGranted } = chooseOutputFields(caps.field_allowlist, withContact);
+    const chosen = chooseOutputFields(caps.field_allowlist, withContact, args.fields);
+    // The file behind download_url cannot be masked, so where chat replies are redacted the
+    // export leaves contact fields out altogether.
+    const redaction = redactionFor(ctx, chosen.contactGranted);
+    const selection = redaction ? withholdContactFields(chosen, caps.field_allowlist) : chosen;
+    const { fields, contactGranted } = selection;
     const format = args.format ?? "csv";
 
     const requestBody = {
       query_text: args.query_text,
-      limit: clampLimit(args.limit),
+      ...(filters ? { filters } : {}),
+      ...(sort ? { sort } : {}),
+      limit: Math.min(clampLimit(args.limit), authorize(ctx, null)?.maxLimit ?? Infinity),
       output: {
         format,
         include_explain: false,
@@ -756,6 +3457,53 @@ export default function registerOrbioPlugin(api: unknown): unknown {
       },
     };
 
+    noteAudit({
+      query_text: args.query_text,
+      fields_requested: args.fields ?? null,
+      fields_granted: fields,
+      contact_requested: withContact,
+      contact_granted: contactGranted,
+      contact_redaction: contactRedactionForAudit(contactGranted, redaction),
+    });
+
+    if (args.dry_run) {
+      const preview = await explainQuery(args.query_text, filters);
+      const contacts = contactGranted ? " (contact fields included)" : "";
+      return `${preview}\n\nDry run: no export was created. It would export up to ${requestBody.limit} rows as ${format} with fields ${fields.join(", ")}${contacts}.${droppedFieldsNote(selection)}\nRun it again without --dry-run to export.`;
+    }
+    checkBroadQueryRules(filters, caps.broad_query_rules);
+
+    const reasons = confirmed
+      ? []
+      : confirmationReasons(cfg.exportConfirmation, {
+          limit: requestBody.limit,
+          contacts: contactGranted,
+        });
+    if (reasons.length > 0) {
+      // A token nobody owns could be confirmed by anyone in the conversation.
+      if (!ctx.userId) {
+        return `This export needs confirmation: ${reasons.join(" and ")}. The chat did not say who is asking, so it cannot be confirmed here. Ask for ${cfg.exportConfirmation.rowThreshold} rows or fewer without contact fields to export right away.`;
+      }
+      const explanation = await explainSearch(args.query_text, filters);
+      const token = confirmations.issue({
+        userId: ctx.userId,
+        workspaceId: workspaceId(),
+        request: args,
+      });
+      return renderExportEstimate({
+        reasons,
+        estimatedTotal: explanation?.estimatedTotal ?? null,
+        limit: requestBody.limit,
+        format,
+        fields,
+        contactGranted,
+        limits: caps.limits ?? {},
+        dropped: selection,
+        token,
+        ttlMs: cfg.exportConfirmation.ttlMs,
+      });
+    }
+
     const idempotencyKey = buildIdempotencyKey("export", requestBody);
     const payload = await http.request<ExportCreateResponse>(
       "POST",
@@ -764,19 +3512,456 @@ export default function registerOrbioPlugin(api: unknown): unknown {
       { "Idempotency-Key": idempotencyKey },
     );
 
-    return renderExportText(payload, {
+    const text = renderExportText(payload, {
       withContactRequested: withContact,
       contactGranted,
+      redaction,
       fields,
+      view: resolveView(args.view, ctx),
+      dropped: selection,
     });
+
+    const exportId = payload.export?.export_id;
+    if (!exportId || isTerminalExportStatus(payload.export.status)) {
+      return text;
+    }
+
+    if (args.wait) {
+      const final = await pollExportUntilTerminal(exportId, current().cfg.exportWaitTimeoutMs);
+      if (final) {
+        return `${text}\n\n${renderExportNotificationText(final)}`;
+      }
+    }
+
+    const watching = watchExport(exportId, ctx);
+    const seconds = Math.round(current().cfg.exportWaitTimeoutMs / 1000);
+    const prefix = args.wait ? `Export still running after ${seconds}s. ` : "";
+    const followUp = watching
+      ? "You will be notified here when it finishes."
+      : `Check progress with /orbio export-status ${exportId}.`;
+    return args.wait || watching ? `${text}\n\n${prefix}${followUp}` : text;
+  };
+
+  // Re-runs the export exactly as requested; field, contact and limit rules are applied again.
+  const doConfirmExport = async (token: string, ctx: InvocationContext): Promise<string> => {
+    const taken = confirmations.take(token, { userId: ctx.userId, workspaceId: workspaceId() });
+    if ("error" in taken) {
+      return taken.error;
+    }
+    const { request } = taken.entry;
+    authorize(ctx, { action: "export", contacts: request.with_contact, limit: request.limit });
+    return doExport(request, ctx, true);
   };
 
-  const doExportStatus = async (args: ExportStatusToolInput): Promise<string> => {
+  const doExportStatus = async (
+    args: ExportStatusToolInput,
+    ctx: InvocationContext,
+  ): Promise<string> => {
     const payload = await http.request<ExportStatusResponse>(
       "GET",
       `/v1/exports/${encodeURIComponent(args.export_id)}`,
     );
-    return renderExportStatusText(payload);
+    return renderExportStatusText(payload, resolveView(args.view, ctx));
+  };
+
+  const doExportList = async (args: ExportListToolInput): Promise<string> => {
+    const params = new URLSearchParams();
+    if (args.status) {
+      params.set("status", args.status);
+    }
+    params.set("limit", String(Math.min(100, Math.max(1, Math.floor(args.limit ?? 10)))));
+    if (args.cursor) {
+      params.set("cursor", args.cursor);
+    }
+    const payload = await http.request<ExportListResponse>("GET", `/v1/exports?${params}`);
+    return renderExportListText(payload);
+  };
+
+  const doExportCancel = async (
+    args: ExportCancelToolInput,
+    ctx: InvocationContext,
+  ): Promise<string> => {
+    const payload = await http.request<ExportStatusResponse>(
+      "POST",
+      `/v1/exports/${encodeURIComponent(args.export_id)}/cancel`,
+    );
+    return renderExportStatusText(payload, resolveView(undefined, ctx), "Export cancel requested:");
+  };
+
+  // Always refetches so remaining limits are current; the fresh payload also refills the cache.
+  const doCapabilities = async (): Promise<string> =>
+    renderCapabilitiesText(await getCapabilities(true));
+
+  const doSaveSearch = async (
+    rawName: string,
+    search: SearchFlags | undefined,
+    ctx: InvocationContext,
+  ): Promise<string> => {
+    const name = normalizeSavedSearchName(rawName);
+    let entry: Omit<SavedSearch, "name" | "created_at" | "updated_at">;
+    if (search) {
+      entry = {
+        query_text: search.queryText,
+        filters: normalizeFilters(search.filters),
+        sort: search.sort,
+        fields: search.fields,
+        limit: search.limit,
+        with_contact: search.withContact,
+      };
+    } else {
+      const key = lastSearchKey(ctx);
+      const last = key ? lastSearches.get(key) : undefined;
+      if (!last) {
+        return "No previous search in this conversation to save. Run /orbio search <query> first, or use /orbio save <name> <query> [filters].";
+      }
+      entry = {
+        query_text: last.queryText,
+        filters: last.filters,
+        sort: last.sort,
+        fields: last.fieldsRequested,
+        limit: last.limit,
+        with_contact: last.withContactRequested,
+      };
+    }
+
+    const existing = await savedSearches.get(workspaceId(), name);
+    if (!existing && (await savedSearches.list(workspaceId())).length >= MAX_SAVED_SEARCHES) {
+      throw new PluginValidationError(
+        `Saved search limit reached (${MAX_SAVED_SEARCHES}). Delete one with /orbio saved delete <name>.`,
+      );
+    }
+    const now = new Date().toISOString();
+    const saved = Object.fromEntries(
+      Object.entries({
+        name,
+        ...entry,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      }).filter(([, value]) => value !== undefined),
+    ) as SavedSearch;
+    await savedSearches.put(workspaceId(), saved);
+    return `${existing ? "Updated" : "Saved"} search "${name}": ${describeSavedSearch(saved)}\nRun it with /orbio run ${name} (add --export to export).`;
+  };
+
+  const doDeleteSavedSearch = async (rawName: string): Promise<string> => {
+    const name = normalizeSavedSearchName(rawName);
+    if (!(await savedSearches.delete(workspaceId(), name))) {
+      return `No saved search named "${name}".`;
+    }
+    return (await watches.delete(workspaceId(), name))
+      ? `Deleted saved search "${name}" and stopped watching it.`
+      : `Deleted saved search "${name}".`;
+  };
+
+  const doRunSavedSearch = async (
+    parsed: { name: string; asExport: boolean; overrides: SearchFlags; view?: ViewMode },
+    ctx: InvocationContext,
+  ): Promise<string> => {
+    const name = normalizeSavedSearchName(parsed.name);
+    const saved = await savedSearches.get(workspaceId(), name);
+    if (!saved) {
+      return `No saved search named "${name}". See /orbio saved.`;
+    }
+    const { overrides } = parsed;
+    const filters = { ...(saved.filters as SearchFilters), ...overrides.filters };
+    const args = {
+      query_text: overrides.queryText || saved.query_text,
+      filters: Object.keys(filters).length > 0 ? filters : undefined,
+      sort: overrides.sort ?? saved.sort,
+      fields: overrides.fields ?? saved.fields,
+      limit: overrides.limit ?? saved.limit,
+      with_contact: overrides.withContact ?? saved.with_contact ?? false,
+      view: parsed.view,
+      dry_run: overrides.dryRun,
+    };
+    authorize(ctx, {
+      action: parsed.asExport ? "export" : "search",
+      contacts: args.with_contact,
+      limit: args.limit,
+    });
+    if (parsed.asExport) {
+      return doExport({ ...args, format: overrides.format, wait: overrides.wait }, ctx);
+    }
+    return doSearch({ ...args, explain: overrides.explain }, ctx);
+  };
+
+  const fetchWatchedCompanies = async (saved: SavedSearch, caps: CapabilitiesResponse) => {
+    const filters = saved.filters as SearchFilters | undefined;
+    checkBroadQueryRules(filters, caps.broad_query_rules);
+    const { fields } = chooseOutputFields(caps.field_allowlist, false, WATCH_FIELDS);
+    const companies: Record<string, string | null> = {};
+    const names = new Map<string, string | null>();
+    let snapshot = caps.current_snapshot;
+    let snapshotDate = caps.snapshot_date;
+    let truncated = false;
+    let cursor: string | null = null;
+
+    do {
+      await throttleTool("orbio_watch");
+      const payload: AccountSearchResponse = await http.request<AccountSearchResponse>(
+        "POST",
+        "/v1/accounts/search",
+        {
+          query_text: saved.query_text,
+          ...(filters ? { filters } : {}),
+          limit: WATCH_PAGE_SIZE,
+          ...(cursor ? { cursor } : {}),
+          output: { format: "json", include_explain: false, fields },
+        },
+      );
+      snapshot = payload.snapshot;
+      snapshotDate = payload.snapshot_date;
+      for (const account of payload.accounts) {
+        const raw = String(account.cnpj ?? "");
+        const cnpj = normalizeCnpj(raw) ?? raw;
+        companies[cnpj] = watchedStatus(account);
+        names.set(cnpj, watchedName(account));
+      }
+      cursor = payload.has_more ? payload.next_cursor : null;
+      if (cursor && Object.keys(companies).length >= WATCH_MAX_COMPANIES) {
+        truncated = true;
+        cursor = null;
+      }
+    } while (cursor);
+
+    return { companies, names, snapshot, snapshotDate, truncated, fields };
+  };
+
+  // Companies that dropped out of the results are looked up one by one (up to a cap) so a
+  // status filter such as --status ativa still surfaces the ones that became "baixada".
+  const lookupWatchedCompany = async (
+    cnpj: string,
+    fields: string[],
+  ): Promise<{ status: string | null; name: string | null } | null> => {
+    await throttleTool("orbio_watch");
+    const params = new URLSearchParams({ fields: fields.join(",") });
+    try {
+      const payload = await http.request<AccountLookupResponse>(
+        "GET",
+        `/v1/accounts/${cnpj}?${params}`,
+      );
+      const account = payload.account ?? {};
+      return { status: watchedStatus(account), name: watchedName(account) };
+    } catch (error) {
+      if (error instanceof OrbioApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const notify = async (sessionKey: string, text: string): Promise<void> => {
+    try {
+      await pluginApi.sendMessage?.call(pluginApi, { sessionKey, text });
+    } catch {
+      // Best-effort, like export notifications; the next snapshot change reports again.
+    }
+  };
+
+  const checkWatch = async (watch: SearchWatch, caps: CapabilitiesResponse): Promise<void> => {
+    const saved = await savedSearches.get(workspaceId(), watch.name);
+    if (!saved) {
+      await watches.delete(workspaceId(), watch.name);
+      await notify(
+        watch.session_key,
+        `Orbio watch "${watch.name}" was removed because its saved search no longer exists.`,
+      );
+      return;
+    }
+
+    try {
+      const current = await fetchWatchedCompanies(saved, caps);
+      const diff = diffWatchedCompanies(watch.companies, current.companies);
+      const named = (cnpj: string) => current.names.get(cnpj) ?? null;
+      const statusChanged: WatchChange[] = diff.statusChanged.map((change) => ({
+        ...change,
+        name: named(change.cnpj),
+      }));
+      let noLongerMatching = Math.max(0, diff.missing.length - WATCH_MAX_LOOKUPS);
+      for (const cnpj of diff.missing.slice(0, WATCH_MAX_LOOKUPS)) {
+        const found = await lookupWatchedCompany(cnpj, current.fields);
+        const from = watch.companies[cnpj] ?? null;
+        if (found && found.status !== from) {
+          statusChanged.push({ cnpj, name: found.name, from, to: found.status });
+        } else {
+          noLongerMatching += 1;
+        }
+      }
+
+      const updated: SearchWatch = {
+        ...watch,
+        snapshot: current.snapshot,
+        snapshot_date: current.snapshotDate,
+        companies: current.companies,
+        truncated: current.truncated,
+        checked_at: new Date().toISOString(),
+      };
+      delete updated.error_snapshot;
+      await watches.put(workspaceId(), updated);
+
+      if (diff.added.length > 0 || statusChanged.length > 0 || noLongerMatching > 0) {
+        await notify(
+          watch.session_key,
+          renderWatchAlert({
+            name: watch.name,
+            previousSnapshot: watch.snapshot,
+            snapshot: current.snapshot,
+            snapshotDate: current.snapshotDate,
+            added: diff.added.map((cnpj) => ({
+              cnpj,
+              name: named(cnpj),
+              to: current.companies[cnpj] ?? null,
+            })),
+            statusChanged,
+            noLongerMatching,
+            truncated: current.truncated,
+          }),
+        );
+      }
+    } catch (error) {
+      // Retried on every check; the chat only hears about the first failure per snapshot.
+      if (watch.error_snapshot === caps.current_snapshot) {
+        return;
+      }
+      await watches.put(workspaceId(), { ...watch, error_snapshot: caps.current_snapshot });
+      await notify(
+        watch.session_key,
+        `Orbio watch "${watch.name}" could not be checked against snapshot ${caps.current_snapshot}: ${errorText(error)} It will be retried.`,
+      );
+    }
+  };
+
+  const watchChecks = new Map<string, Promise<boolean>>();
+  let watchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Resolves to whether any watch remains, so the periodic timer stops once the last one goes.
+  const checkWatches = (workspace: Workspace, known?: CapabilitiesResponse): Promise<boolean> => {
+    const id = workspace.cfg.workspaceId;
+    const running = watchChecks.get(id);
+    if (running) {
+      return running;
+    }
+    const check = runInBackground("watch", workspace, async () => {
+      try {
+        const list = await watches.list(id);
+        if (list.length === 0) {
+          return false;
+        }
+        const caps = known ?? (await getCapabilities(true));
+        for (const watch of list) {
+          if (watch.snapshot !== caps.current_snapshot) {
+            await checkWatch(watch, caps);
+          }
+        }
+        return true;
+      } catch {
+        return true;
+      } finally {
+        watchChecks.delete(id);
+      }
+    });
+    watchChecks.set(id, check);
+    return check;
+  };
+
+  const checkAllWatches = async (): Promise<boolean> =>
+    (await Promise.all([...workspaces.values()].map((workspace) => checkWatches(workspace)))).some(
+      Boolean,
+    );
+
+  const scheduleWatchChecks = (): void => {
+    if (watchTimer || typeof pluginApi.sendMessage !== "function") {
+      return;
+    }
+    watchTimer = setTimeout(() => {
+      watchTimer = null;
+      void checkAllWatches().then((active) => {
+        if (active) {
+          scheduleWatchChecks();
+        }
+      });
+    }, cfg.watchCheckIntervalMs);
+    watchTimer.unref?.();
+  };
+
+  const doWatch = async (
+    rawName: string,
+    search: SearchFlags | undefined,
+    ctx: InvocationContext,
+  ): Promise<string> => {
+    if (typeof pluginApi.sendMessage !== "function") {
+      return "Watches need a host that can post messages to the chat; this host cannot.";
+    }
+    if (!ctx.sessionKey) {
+      return "Watches need to know which conversation to post to; this chat did not say.";
+    }
+    const name = normalizeSavedSearchName(rawName);
+    if (search) {
+      await doSaveSearch(name, search, ctx);
+    }
+    const saved = await savedSearches.get(workspaceId(), name);
+    if (!saved) {
+      return `No saved search named "${name}". Use /orbio watch ${name} <query> [filters], or save one first with /orbio save ${name}.`;
+    }
+    const existing = await watches.get(workspaceId(), name);
+    if (!existing && (await watches.list(workspaceId())).length >= MAX_WATCHES) {
+      throw new PluginValidationError(
+        `Watch limit reached (${MAX_WATCHES}). Stop one with /orbio unwatch <name>.`,
+      );
+    }
+
+    const baseline = await fetchWatchedCompanies(saved, await getCapabilities());
+    const now = new Date().toISOString();
+    await watches.put(workspaceId(), {
+      name,
+      session_key: ctx.sessionKey,
+      snapshot: baseline.snapshot,
+      snapshot_date: baseline.snapshotDate,
+      companies: baseline.companies,
+      truncated: baseline.truncated,
+      created_at: existing?.created_at ?? now,
+      checked_at: now,
+    });
+    scheduleWatchChecks();
+
+    const count = Object.keys(baseline.companies).length;
+    const note = baseline.truncated
+      ? `\nNote: only the first ${WATCH_MAX_COMPANIES} matches are tracked.`
+      : "";
+    return `${existing ? "Updated watch" : "Watching"} "${name}": ${count} companies in snapshot ${baseline.snapshot} (data as of ${baseline.snapshotDate}).${note}\nNew companies and status changes will be posted here when a new snapshot is published.`;
+  };
+
+  const doUnwatch = async (rawName: string): Promise<string> => {
+    const name = normalizeSavedSearchName(rawName);
+    return (await watches.delete(workspaceId(), name))
+      ? `Stopped watching "${name}". The saved search is kept.`
+      : `No watch named "${name}".`;
+  };
+
+  const doListWatches = async (): Promise<string> => {
+    const saved = await savedSearches.list(workspaceId());
+    return renderWatchList(
+      await watches.list(workspaceId()),
+      new Map(saved.map((search) => [search.name, search])),
+    );
+  };
+
+  const doUsage = async (args: UsageToolInput): Promise<string> => {
+    const window = parseUsageWindow(args.since);
+    const since = usageHour(Date.now() - (window.hours - 1) * 3_600_000);
+    const buckets = await usage.list(workspaceId(), since);
+    // Local counts are still useful when capabilities cannot be fetched.
+    const limits = await getCapabilities().then(
+      (caps) => caps.limits ?? {},
+      () => ({}),
+    );
+    return renderUsageText(
+      workspaceId(),
+      window.label,
+      summarizeUsage(buckets),
+      limits,
+      current().quotas,
+    );
   };
 
   const resolveCommandRaw = (args: CommandToolInput): string => {
@@ -791,7 +3976,7 @@ export default function registerOrbioPlugin(api: unknown): unknown {
     return "";
   };
 
-  const doCommand = async (args: CommandToolInput): Promise<string> => {
+  const doCommand = async (args: CommandToolInput, ctx: InvocationContext): Promise<string> => {
     const raw = resolveCommandRaw(args);
     const parsed = parseCommand(raw);
     if ("error" in parsed) {
@@ -799,37 +3984,120 @@ export default function registerOrbioPlugin(api: unknown): unknown {
     }
 
     if (parsed.action === "search") {
-      return doSearch({
-        query_text: parsed.queryText,
-        limit: parsed.limit,
-        with_contact: parsed.withContact,
-      });
+      return doSearch(
+        {
+          query_text: parsed.queryText,
+          filters: parsed.filters,
+          sort: parsed.sort,
+          fields: parsed.fields,
+          limit: parsed.limit,
+          with_contact: parsed.withContact,
+          view: parsed.view,
+          explain: parsed.explain,
+          dry_run: parsed.dryRun,
+        },
+        ctx,
+      );
+    }
+
+    if (parsed.action === "search-next") {
+      return doSearchNext({ view: parsed.view }, ctx);
+    }
+
+    if (parsed.action === "company") {
+      return doCompany(
+        { cnpj: parsed.cnpj, with_contact: parsed.withContact, view: parsed.view },
+        ctx,
+      );
     }
 
     if (parsed.action === "export") {
-      return doExport({
-        query_text: parsed.queryText,
+      return doExport(
+        {
+          query_text: parsed.queryText,
+          filters: parsed.filters,
+          sort: parsed.sort,
+          fields: parsed.fields,
+          limit: parsed.limit,
+          with_contact: parsed.withContact,
+          format: parsed.format,
+          wait: parsed.wait,
+          view: parsed.view,
+          dry_run: parsed.dryRun,
+        },
+        ctx,
+      );
+    }
+
+    if (parsed.action === "export-list") {
+      return doExportList({
+        status: parsed.status,
         limit: parsed.limit,
-        with_contact: parsed.withContact,
-        format: parsed.format,
+        cursor: parsed.cursor,
       });
     }
 
-    return doExportStatus({ export_id: parsed.exportId });
-  };
+    if (parsed.action === "export-cancel") {
+      return doExportCancel({ export_id: parsed.exportId }, ctx);
+    }
 
-  const pluginApi = api as {
-    registerTool: (
-      name: string,
-      spec: {
-        description: string;
-        parameters: unknown;
-        optional?: boolean;
-      },
-      handler: (args: any) => Promise<ToolResult>,
-    ) => unknown;
+    if (parsed.action === "capabilities") {
+      return doCapabilities();
+    }
+
+    if (parsed.action === "save") {
+      return doSaveSearch(parsed.name, parsed.search, ctx);
+    }
+
+    if (parsed.action === "saved-list") {
+      return renderSavedSearchList(await savedSearches.list(workspaceId()));
+    }
+
+    if (parsed.action === "saved-delete") {
+      return doDeleteSavedSearch(parsed.name);
+    }
+
+    if (parsed.action === "run") {
+      return doRunSavedSearch(parsed, ctx);
+    }
+
+    if (parsed.action === "watch") {
+      return doWatch(parsed.name, parsed.search, ctx);
+    }
+
+    if (parsed.action === "unwatch") {
+      return doUnwatch(parsed.name);
+    }
+
+    if (parsed.action === "watches") {
+      return doListWatches();
+    }
+
+    if (parsed.action === "usage") {
+      return doUsage({ since: parsed.since });
+    }
+
+    if (parsed.action === "explain") {
+      return doExplain({ query_text: parsed.queryText, filters: parsed.filters });
+    }
+
+    if (parsed.action === "confirm") {
+      return doConfirmExport(parsed.token, ctx);
+    }
+
+    return doExportStatus({ export_id: parsed.exportId, view: parsed.view }, ctx);
   };
 
+  // Watches persisted by a previous process resume their periodic checks.
+  void Promise.all([...workspaces.keys()].map((id) => watches.list(id))).then(
+    (lists) => {
+      if (lists.some((list) => list.length > 0)) {
+        scheduleWatchChecks();
+      }
+    },
+    () => undefined,
+  );
+
   return {
     id: PLUGIN_ID,
     name: PLUGIN_NAME,
@@ -843,7 +4111,61 @@ export default function registerOrbioPlugin(api: unknown): unknown {
           parameters: SearchToolInput,
           optional: true,
         },
-        async (args: SearchToolInput) => runGuarded("orbio_search", () => doSearch(args)),
+        async (args: SearchToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded(
+            "orbio_search",
+            ctx,
+            { action: "search", contacts: args.with_contact, limit: args.limit },
+            () => doSearch(args, ctx),
+          );
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_explain",
+        {
+          description:
+            "Show how Orbio interprets a natural-language query (CNAEs, geography, size, status) without returning companies. Use before a large search or export.",
+          parameters: ExplainToolInput,
+          optional: true,
+        },
+        async (args: ExplainToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_explain", ctx, { action: "search" }, () => doExplain(args));
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_search_next",
+        {
+          description:
+            "Fetch the next page of the last orbio_search in this conversation, keeping the same fields.",
+          parameters: SearchNextToolInput,
+          optional: true,
+        },
+        async (args: SearchNextToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_search_next", ctx, { action: "search" }, () =>
+            doSearchNext(args, ctx),
+          );
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_company",
+        {
+          description:
+            "Look up one Brazilian company by CNPJ (validated locally). Use with_contact=true to request contact fields when plan allows.",
+          parameters: CompanyToolInput,
+          optional: true,
+        },
+        async (args: CompanyToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded(
+            "orbio_company",
+            ctx,
+            { action: "search", contacts: args.with_contact },
+            () => doCompany(args, ctx),
+          );
+        },
       ),
       pluginApi.registerTool(
         "orbio_export",
@@ -853,7 +4175,15 @@ export default function registerOrbioPlugin(api: unknown): unknown {
           parameters: ExportToolInput,
           optional: true,
         },
-        async (args: ExportToolInput) => runGuarded("orbio_export", () => doExport(args)),
+        async (args: ExportToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded(
+            "orbio_export",
+            ctx,
+            { action: "export", contacts: args.with_contact, limit: args.limit },
+            () => doExport(args, ctx),
+          );
+        },
       ),
       pluginApi.registerTool(
         "orbio_export_status",
@@ -862,18 +4192,86 @@ export default function registerOrbioPlugin(api: unknown): unknown {
           parameters: ExportStatusToolInput,
           optional: true,
         },
-        async (args: ExportStatusToolInput) =>
-          runGuarded("orbio_export_status", () => doExportStatus(args)),
+        async (args: ExportStatusToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_export_status", ctx, { action: "export" }, () =>
+            doExportStatus(args, ctx),
+          );
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_export_list",
+        {
+          description:
+            "List recent Orbio export jobs for the workspace, optionally filtered by status.",
+          parameters: ExportListToolInput,
+          optional: true,
+        },
+        async (args: ExportListToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_export_list", ctx, { action: "export" }, () =>
+            doExportList(args),
+          );
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_export_cancel",
+        {
+          description: "Cancel a queued or running Orbio export job.",
+          parameters: ExportCancelToolInput,
+          optional: true,
+        },
+        async (args: ExportCancelToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_export_cancel", ctx, { action: "export" }, () =>
+            doExportCancel(args, ctx),
+          );
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_capabilities",
+        {
+          description:
+            "Show the workspace plan, remaining limits, snapshot freshness, unlocked contact fields and broad-query rules.",
+          parameters: CapabilitiesToolInput,
+          optional: true,
+        },
+        async (_args: unknown, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_capabilities", ctx, null, () => doCapabilities());
+        },
+      ),
+      pluginApi.registerTool(
+        "orbio_usage",
+        {
+          description:
+            "Show Orbio API requests, rows returned and exports created through this plugin, by tool and channel, against the plan limits.",
+          parameters: UsageToolInput,
+          optional: true,
+        },
+        async (args: UsageToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          return runGuarded("orbio_usage", ctx, null, () => doUsage(args));
+        },
       ),
       pluginApi.registerTool(
         "orbio_command",
         {
           description:
-            "Command dispatcher for /orbio slash commands. Examples: search, export, export-status.",
+            "Command dispatcher for /orbio slash commands. Examples: search, more, company, export, export-status, export-list, export-cancel, capabilities, save, saved, run, watch, unwatch, watches, usage.",
           parameters: CommandToolInput,
           optional: true,
         },
-        async (args: CommandToolInput) => runGuarded("orbio_command", () => doCommand(args)),
+        async (args: CommandToolInput, context?: unknown) => {
+          const ctx = readInvocationContext(context);
+          // Parsed inside runGuarded, which routes on the --workspace noted here.
+          const need = () => {
+            const parsed = parseCommand(resolveCommandRaw(args));
+            ctx.workspace = "error" in parsed ? null : (parsed.workspace ?? null);
+            return commandAccessNeed(parsed);
+          };
+          return runGuarded("orbio_command", ctx, need, () => doCommand(args, ctx));
+        },
       ),
     ],
   };
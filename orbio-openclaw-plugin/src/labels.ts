@@ -0,0 +1,101 @@
+export const UF_NAMES: Record<string, string> = {
+  AC: "Acre",
+  AL: "Alagoas",
+  AM: "Amazonas",
+  AP: "Amapá",
+  BA: "Bahia",
+  CE: "Ceará",
+  DF: "Distrito Federal",
+  ES: "Espírito Santo",
+  GO: "Goiás",
+  MA: "Maranhão",
+  MG: "Minas Gerais",
+  MS: "Mato Grosso do Sul",
+  MT: "Mato Grosso",
+  PA: "Pará",
+  PB: "Paraíba",
+  PE: "Pernambuco",
+  PI: "Piauí",
+  PR: "Paraná",
+  RJ: "Rio de Janeiro",
+  RN: "Rio Grande do Norte",
+  RO: "Rondônia",
+  RR: "Roraima",
+  RS: "Rio Grande do Sul",
+  SC: "Santa Catarina",
+  SE: "Sergipe",
+  SP: "São Paulo",
+  TO: "Tocantins",
+};
+
+export const BRAZIL_UFS = Object.keys(UF_NAMES);
+
+export const COMPANY_SIZE_CODES: Record<string, string> = {
+  "00": "Não informado",
+  "01": "ME",
+  "03": "EPP",
+  "05": "Demais",
+};
+
+export const REGISTRATION_STATUS_CODES: Record<string, string> = {
+  "01": "Nula",
+  "02": "Ativa",
+  "03": "Suspensa",
+  "04": "Inapta",
+  "08": "Baixada",
+};
+
+export function foldText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .trim()
+    .toLowerCase();
+}
+
+export function lookupCode(table: Record<string, string>, value: string): string | null {
+  const folded = foldText(value);
+  for (const [code, label] of Object.entries(table)) {
+    if (code === value.trim().padStart(2, "0") || foldText(label) === folded) {
+      return code;
+    }
+  }
+  return null;
+}
+
+export function codeLabel(table: Record<string, string>, value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  return table[String(value).padStart(2, "0")] ?? null;
+}
+
+export const IBGE_UF_CODES: Record<string, string> = {
+  "11": "RO",
+  "12": "AC",
+  "13": "AM",
+  "14": "RR",
+  "15": "PA",
+  "16": "AP",
+  "17": "TO",
+  "21": "MA",
+  "22": "PI",
+  "23": "CE",
+  "24": "RN",
+  "25": "PB",
+  "26": "PE",
+  "27": "AL",
+  "28": "SE",
+  "29": "BA",
+  "31": "MG",
+  "32": "ES",
+  "33": "RJ",
+  "35": "SP",
+  "41": "PR",
+  "42": "SC",
+  "43": "RS",
+  "50": "MS",
+  "51": "MT",
+  "52": "GO",
+  "53": "DF",
+};
@@ -0,0 +1,109 @@
+import type { RedisCommandClient } from "./redis.js";
+
+// Buckets hold up to `burst` tokens and refill continuously at `ratePerMinute`.
+export type TokenBucketRule = {
+  ratePerMinute: number;
+  burst: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+export type RateLimiter = {
+  take(key: string, rule: TokenBucketRule): Promise<RateLimitDecision>;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number;
+};
+
+const MEMORY_SWEEP_THRESHOLD = 1_000;
+
+export function createMemoryRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  // Buckets that have refilled completely carry no state and can be forgotten.
+  const sweep = (now: number): void => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    take: async (key, rule) => {
+      const now = Date.now();
+      const perMs = rule.ratePerMinute / 60_000;
+      const previous = buckets.get(key);
+      const available = previous
+        ? Math.min(rule.burst, previous.tokens + (now - previous.updatedAt) * perMs)
+        : rule.burst;
+      // Tolerate float drift so a caller that waits exactly retryAfterMs gets its token.
+      const allowed = available >= 1 - 1e-9;
+      const tokens = allowed ? available - 1 : available;
+      if (buckets.size >= MEMORY_SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+      buckets.set(key, {
+        tokens,
+        updatedAt: now,
+        fullAt: now + Math.ceil((rule.burst - tokens) / perMs),
+      });
+      return { allowed, retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs) };
+    },
+  };
+}
+
+// Runs atomically on the Redis server so every gateway replica draws from the same bucket.
+// Gateway clocks are passed in (ARGV[3]) and are expected to be NTP-synchronized.
+const TOKEN_BUCKET_SCRIPT = `
+local burst = tonumber(ARGV[1])
+local per_ms = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or burst
+local ts = tonumber(state[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - ts) * per_ms)
+local allowed = 0
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  wait = math.ceil((1 - tokens) / per_ms)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst / per_ms))
+return {allowed, wait}
+`;
+
+export function createRedisRateLimiter(
+  client: RedisCommandClient,
+  opts?: { prefix?: string },
+): RateLimiter {
+  const prefix = opts?.prefix ?? "orbio:ratelimit:";
+
+  return {
+    take: async (key, rule) => {
+      const reply = await client.send([
+        "EVAL",
+        TOKEN_BUCKET_SCRIPT,
+        1,
+        `${prefix}${key}`,
+        rule.burst,
+        rule.ratePerMinute / 60_000,
+        Date.now(),
+      ]);
+      const [allowed, retryAfterMs] = Array.isArray(reply) ? reply.map(Number) : [];
+      if (allowed !== 0 && allowed !== 1) {
+        throw new Error("Unexpected reply from the Redis rate limiter script");
+      }
+      return { allowed: allowed === 1, retryAfterMs: allowed === 1 ? 0 : Number(retryAfterMs) };
+    },
+  };
+}
@@ -0,0 +1,149 @@
+type JsonRecord = Record<string, unknown>;
+
+export const CONTACT_FIELDS = [
+  "email",
+  "phone1",
+  "area_code1",
+  "phone2",
+  "area_code2",
+  "street_type",
+  "street",
+  "street_number",
+  "address_complement",
+  "neighborhood",
+  "postal_code",
+] as const;
+
+// Ordered from least to most restrictive: raw values, partially masked values, availability flags.
+export const CONTACT_REDACTION_MODES = ["full", "partial", "flags"] as const;
+
+export type ContactRedaction = (typeof CONTACT_REDACTION_MODES)[number];
+
+export type ContactRedactionPolicy = {
+  default: ContactRedaction;
+  groupChats: ContactRedaction;
+  channels: Record<string, ContactRedaction>;
+};
+
+// The mode that applies to one invocation and why, for the masking note.
+export type AppliedRedaction = {
+  mode: ContactRedaction;
+  reason: string;
+};
+
+function parseMode(raw: unknown, path: string, fallback: ContactRedaction): ContactRedaction {
+  if (raw === undefined) {
+    return fallback;
+  }
+  const mode = String(raw).trim().toLowerCase();
+  if (!(CONTACT_REDACTION_MODES as readonly string[]).includes(mode)) {
+    throw new Error(
+      `Invalid plugin config: contactRedaction.${path} must be one of: ${CONTACT_REDACTION_MODES.join(", ")}`,
+    );
+  }
+  return mode as ContactRedaction;
+}
+
+// Group chats get partially masked contacts unless configured otherwise.
+export function parseContactRedactionPolicy(raw: unknown): ContactRedactionPolicy {
+  if (raw === undefined || raw === null) {
+    return { default: "full", groupChats: "partial", channels: {} };
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Invalid plugin config: contactRedaction must be an object");
+  }
+  const record = raw as JsonRecord;
+  const channels: Record<string, ContactRedaction> = {};
+  if (record.channels !== undefined) {
+    if (!record.channels || typeof record.channels !== "object" || Array.isArray(record.channels)) {
+      throw new Error("Invalid plugin config: contactRedaction.channels must be an object");
+    }
+    for (const [channel, mode] of Object.entries(record.channels as JsonRecord)) {
+      channels[channel.trim().toLowerCase()] = parseMode(mode, `channels.${channel}`, "full");
+    }
+  }
+  return {
+    default: parseMode(record.default, "default", "full"),
+    groupChats: parseMode(record.groupChats, "groupChats", "partial"),
+    channels,
+  };
+}
+
+function stricter(a: AppliedRedaction, b: AppliedRedaction): AppliedRedaction {
+  const rank = (mode: ContactRedaction) => CONTACT_REDACTION_MODES.indexOf(mode);
+  return rank(b.mode) > rank(a.mode) ? b : a;
+}
+
+// A channel rule replaces the default; in group chats the group rule wins when it is stricter.
+export function resolveContactRedaction(
+  policy: ContactRedactionPolicy,
+  where: { channel: string; groupChat: boolean },
+): AppliedRedaction {
+  const channelMode = policy.channels[where.channel];
+  const base: AppliedRedaction =
+    channelMode !== undefined
+      ? { mode: channelMode, reason: `in channel ${where.channel}` }
+      : { mode: policy.default, reason: "by the workspace contact policy" };
+  return where.groupChat
+    ? stricter(base, { mode: policy.groupChats, reason: "in group chats" })
+    : base;
+}
+
+export function maskEmail(value: string): string {
+  const at = value.lastIndexOf("@");
+  if (at < 1) {
+    return "***";
+  }
+  const local = value.slice(0, at);
+  return `${local.slice(0, local.length > 2 ? 2 : 1)}***${value.slice(at)}`;
+}
+
+// Keeps the first digit and the last four: "912341234" -> "9****-1234".
+export function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 6) {
+    return "****";
+  }
+  return `${digits[0]}${"*".repeat(digits.length - 5)}-${digits.slice(-4)}`;
+}
+
+function maskPostalCode(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= 5 ? `${digits.slice(0, 5)}-***` : "***";
+}
+
+const CONTACT_FLAG_LABELS: Record<string, string> = {
+  has_email: "email on file",
+  has_phone: "phone on file",
+};
+
+export function redactContacts(account: JsonRecord, mode: ContactRedaction): JsonRecord {
+  if (mode === "full") {
+    return account;
+  }
+  const out = { ...account };
+  if (mode === "flags") {
+    for (const field of CONTACT_FIELDS) {
+      delete out[field];
+    }
+    for (const [flag, label] of Object.entries(CONTACT_FLAG_LABELS)) {
+      if (out[flag] === true) {
+        out[flag] = label;
+      }
+    }
+    return out;
+  }
+  const mask = (field: string, masker: (value: string) => string) => {
+    const value = out[field];
+    if (typeof value === "string" && value !== "") {
+      out[field] = masker(value);
+    }
+  };
+  mask("email", maskEmail);
+  mask("phone1", maskPhone);
+  mask("phone2", maskPhone);
+  mask("street_number", () => "***");
+  mask("address_complement", () => "***");
+  mask("postal_code", maskPostalCode);
+  return out;
+}
@@ -0,0 +1,206 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export type RedisCommandClient = {
+  send(args: Array<string | number>): Promise<unknown>;
+};
+
+export type RedisConnection = RedisCommandClient & {
+  close(): void;
+};
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+type RedisTarget = {
+  host: string;
+  port: number;
+  tls: boolean;
+  username: string | null;
+  password: string | null;
+  db: number;
+};
+
+type PendingReply = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export function parseRedisUrl(url: string): RedisTarget {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Redis URL must look like redis://[:password@]host[:port][/db]");
+  }
+  if (parsed.protocol !== "redis:" && parsed.protocol !== "rediss:") {
+    throw new Error("Redis URL must use the redis:// or rediss:// scheme");
+  }
+  const db = Number(parsed.pathname.slice(1) || "0");
+  if (!Number.isInteger(db) || db < 0) {
+    throw new Error("Redis URL database must be a non-negative integer");
+  }
+  return {
+    host: parsed.hostname || "localhost",
+    port: Number(parsed.port || 6379),
+    tls: parsed.protocol === "rediss:",
+    username: parsed.username ? decodeURIComponent(parsed.username) : null,
+    password: parsed.password ? decodeURIComponent(parsed.password) : null,
+    db,
+  };
+}
+
+function encodeCommand(args: Array<string | number>): string {
+  const parts = args.map((arg) => {
+    const text = String(arg);
+    return `$${Buffer.byteLength(text)}\r\n${text}\r\n`;
+  });
+  return `*${args.length}\r\n${parts.join("")}`;
+}
+
+// Returns null while the buffer holds an incomplete reply.
+function parseReply(buffer: Buffer, start: number): { value: unknown; end: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", start);
+  if (lineEnd < 0) {
+    return null;
+  }
+  const type = String.fromCharCode(buffer[start] ?? 0);
+  const line = buffer.toString("utf8", start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  if (type === "+") {
+    return { value: line, end: next };
+  }
+  if (type === "-") {
+    return { value: new RedisReplyError(line), end: next };
+  }
+  if (type === ":") {
+    return { value: Number(line), end: next };
+  }
+  if (type === "$") {
+    const length = Number(line);
+    if (length < 0) {
+      return { value: null, end: next };
+    }
+    if (buffer.length < next + length + 2) {
+      return null;
+    }
+    return { value: buffer.toString("utf8", next, next + length), end: next + length + 2 };
+  }
+  if (type === "*") {
+    const count = Number(line);
+    if (count < 0) {
+      return { value: null, end: next };
+    }
+    const items: unknown[] = [];
+    let offset = next;
+    for (let idx = 0; idx < count; idx += 1) {
+      const item = parseReply(buffer, offset);
+      if (!item) {
+        return null;
+      }
+      items.push(item.value);
+      offset = item.end;
+    }
+    return { value: items, end: offset };
+  }
+  throw new RedisReplyError(`Unexpected Redis reply type: ${type}`);
+}
+
+// Minimal RESP2 client: one lazily opened, unref'd connection with pipelined commands. It covers
+// what the shared limiter needs; hosts that already run a Redis client can pass an adapter instead.
+export function createRedisConnection(url: string, opts: { timeoutMs: number }): RedisConnection {
+  const target = parseRedisUrl(url);
+  const pending: PendingReply[] = [];
+  let socket: Socket | null = null;
+  let buffer = Buffer.alloc(0);
+
+  const failAll = (error: Error): void => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const reply of pending.splice(0)) {
+      clearTimeout(reply.timer);
+      reply.reject(error);
+    }
+  };
+
+  const onData = (chunk: Buffer): void => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let offset = 0;
+    try {
+      for (;;) {
+        const reply = parseReply(buffer, offset);
+        if (!reply) {
+          break;
+        }
+        offset = reply.end;
+        const waiting = pending.shift();
+        if (!waiting) {
+          continue;
+        }
+        clearTimeout(waiting.timer);
+        if (reply.value instanceof RedisReplyError) {
+          waiting.reject(reply.value);
+        } else {
+          waiting.resolve(reply.value);
+        }
+      }
+    } catch (error) {
+      failAll(error as Error);
+      return;
+    }
+    buffer = buffer.subarray(offset);
+  };
+
+  const enqueue = (conn: Socket, args: Array<string | number>): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => failAll(new Error(`Redis command timed out after ${opts.timeoutMs}ms`)),
+        opts.timeoutMs,
+      );
+      timer.unref?.();
+      pending.push({ resolve, reject, timer });
+      conn.write(encodeCommand(args));
+    });
+
+  const open = (): Socket => {
+    const conn = target.tls
+      ? connectTls({ host: target.host, port: target.port, servername: target.host })
+      : connectTcp({ host: target.host, port: target.port });
+    conn.unref();
+    conn.on("data", onData);
+    conn.on("error", (error) => failAll(error));
+    conn.on("close", () => {
+      if (socket === conn) {
+        failAll(new Error("Redis connection closed"));
+      }
+    });
+    socket = conn;
+
+    // Setup replies are consumed in order ahead of the caller's command; failures surface there.
+    const setup: Array<Array<string | number>> = [];
+    if (target.password !== null) {
+      setup.push(
+        target.username ? ["AUTH", target.username, target.password] : ["AUTH", target.password],
+      );
+    }
+    if (target.db > 0) {
+      setup.push(["SELECT", target.db]);
+    }
+    for (const args of setup) {
+      enqueue(conn, args).catch((error: Error) => failAll(error));
+    }
+    return conn;
+  };
+
+  return {
+    send: (args) => enqueue(socket ?? open(), args),
+    close: () => failAll(new Error("Redis connection closed")),
+  };
+}
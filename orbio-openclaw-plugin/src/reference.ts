@@ -0,0 +1,143 @@
+import { CNAE_DIVISIONS, CNAE_SUBCLASSES_TSV } from "./data/cnae.js";
+import { MUNICIPALITIES_TSV } from "./data/municipalities.js";
+import { BRAZIL_UFS, IBGE_UF_CODES, foldText } from "./labels.js";
+
+export type Municipality = {
+  code: string;
+  name: string;
+  uf: string;
+};
+
+export type CnaeEntry = {
+  code: string;
+  formatted: string;
+  description: string;
+  level: "subclass" | "division";
+};
+
+let municipalityIndex: Map<string, Municipality> | null = null;
+let cnaeSubclassIndex: Map<string, string> | null = null;
+
+function municipalities(): Map<string, Municipality> {
+  if (!municipalityIndex) {
+    municipalityIndex = new Map();
+    for (const line of MUNICIPALITIES_TSV.split("\n")) {
+      const [code = "", name = ""] = line.split("\t");
+      municipalityIndex.set(code, { code, name, uf: IBGE_UF_CODES[code.slice(0, 2)] ?? "" });
+    }
+  }
+  return municipalityIndex;
+}
+
+function cnaeSubclasses(): Map<string, string> {
+  if (!cnaeSubclassIndex) {
+    cnaeSubclassIndex = new Map();
+    for (const line of CNAE_SUBCLASSES_TSV.split("\n")) {
+      const [code = "", description = ""] = line.split("\t");
+      cnaeSubclassIndex.set(code, description);
+    }
+  }
+  return cnaeSubclassIndex;
+}
+
+function codeDigits(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const digits = String(value).replace(/[\s./-]/g, "");
+  return /^\d+$/.test(digits) ? digits : null;
+}
+
+export function lookupMunicipality(code: unknown): Municipality | null {
+  const digits = codeDigits(code);
+  return digits ? (municipalities().get(digits) ?? null) : null;
+}
+
+export function formatMunicipality(code: unknown): string | null {
+  const municipality = lookupMunicipality(code);
+  return municipality ? `${municipality.name}/${municipality.uf}` : null;
+}
+
+// Accepts "Campinas", "Campinas/SP", "Campinas - SP", "Campinas, SP" and "Campinas (SP)".
+export function findMunicipalities(query: string, ufs: string[] = []): Municipality[] {
+  let name = query.trim();
+  let scope = ufs.map((uf) => uf.toUpperCase());
+  const suffix = name.match(/^(.+?)\s*[/,(-]\s*([A-Za-z]{2})\)?$/);
+  if (suffix && BRAZIL_UFS.includes((suffix[2] ?? "").toUpperCase())) {
+    name = suffix[1] ?? "";
+    scope = [(suffix[2] ?? "").toUpperCase()];
+  }
+  const folded = foldText(name);
+  return [...municipalities().values()].filter(
+    (municipality) =>
+      foldText(municipality.name) === folded &&
+      (scope.length === 0 || scope.includes(municipality.uf)),
+  );
+}
+
+export function formatCnaeCode(code: string): string {
+  if (/^\d{7}$/.test(code)) {
+    return `${code.slice(0, 4)}-${code.slice(4, 5)}/${code.slice(5)}`;
+  }
+  if (/^\d{5}$/.test(code)) {
+    return `${code.slice(0, 2)}.${code.slice(2, 4)}-${code.slice(4)}`;
+  }
+  return code;
+}
+
+export function lookupCnae(code: unknown): CnaeEntry | null {
+  const digits = codeDigits(code);
+  if (!digits) {
+    return null;
+  }
+  const subclass = cnaeSubclasses().get(digits);
+  if (subclass) {
+    return {
+      code: digits,
+      formatted: formatCnaeCode(digits),
+      description: subclass,
+      level: "subclass",
+    };
+  }
+  const division = CNAE_DIVISIONS[digits.slice(0, 2)];
+  if (!division) {
+    return null;
+  }
+  return {
+    code: digits,
+    formatted: formatCnaeCode(digits),
+    description: division,
+    level: "division",
+  };
+}
+
+export function formatCnae(code: unknown): string | null {
+  const entry = lookupCnae(code);
+  if (!entry) {
+    return null;
+  }
+  const scope =
+    entry.level === "division" && entry.code.length > 2 ? ` (div. ${entry.code.slice(0, 2)})` : "";
+  return `${entry.formatted} – ${entry.description}${scope}`;
+}
+
+// An exact description match wins (the broadest code when a division and subclass share a
+// name); otherwise every word of the query must appear in the description.
+export function findCnaes(query: string): CnaeEntry[] {
+  const folded = foldText(query);
+  const words = folded.split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return [];
+  }
+  const entries = [...Object.keys(CNAE_DIVISIONS), ...cnaeSubclasses().keys()]
+    .map((code) => lookupCnae(code))
+    .filter((entry): entry is CnaeEntry => entry !== null);
+  const exact = entries.find((entry) => foldText(entry.description) === folded);
+  if (exact) {
+    return [exact];
+  }
+  return entries.filter((entry) => {
+    const description = foldText(entry.description);
+    return words.every((word) => description.includes(word));
+  });
+}
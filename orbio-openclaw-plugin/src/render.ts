@@ -0,0 +1,295 @@
+import { COMPANY_SIZE_CODES, REGISTRATION_STATUS_CODES, UF_NAMES, codeLabel } from "./labels.js";
+import { formatCnae, formatMunicipality, lookupCnae } from "./reference.js";
+
+type JsonRecord = Record<string, unknown>;
+
+export type ViewMode = "json" | "table" | "cards" | "compact";
+
+export const VIEW_MODES: ViewMode[] = ["json", "table", "cards", "compact"];
+
+export type RenderDocument = {
+  header: string;
+  summary: JsonRecord;
+  fields?: string[];
+  records?: { key: string; items: JsonRecord[]; single?: boolean };
+};
+
+export type Renderer = (doc: RenderDocument) => string;
+
+const FIELD_LABELS: Record<string, string> = {
+  cnpj: "CNPJ",
+  legal_name: "Legal name",
+  trade_name: "Trade name",
+  uf: "State",
+  municipality_ibge: "Municipality",
+  cnae_primary: "Primary CNAE",
+  company_size_code: "Size",
+  registration_status: "Status",
+  started_at: "Started",
+  has_email: "Has email",
+  has_phone: "Has phone",
+  email: "Email",
+  phone1: "Phone",
+  phone2: "Phone 2",
+  street: "Address",
+  neighborhood: "Neighborhood",
+  postal_code: "Postal code",
+};
+
+const MERGED_FIELDS = new Set([
+  "area_code1",
+  "area_code2",
+  "street_type",
+  "street_number",
+  "address_complement",
+]);
+
+const CHAT_CHANNEL_VIEWS: Record<string, ViewMode> = {
+  slack: "table",
+  whatsapp: "compact",
+  telegram: "compact",
+  signal: "compact",
+  sms: "compact",
+  imessage: "compact",
+  discord: "cards",
+  teams: "cards",
+  msteams: "cards",
+};
+
+export function parseViewMode(value: unknown): ViewMode | null {
+  const normalized = String(value ?? "")
+    .trim()
+    .toLowerCase();
+  return (VIEW_MODES as string[]).includes(normalized) ? (normalized as ViewMode) : null;
+}
+
+export function defaultViewForChannel(channel: string): ViewMode {
+  return CHAT_CHANNEL_VIEWS[channel] ?? "json";
+}
+
+export function withDecodedLabels(account: JsonRecord): JsonRecord {
+  const out = { ...account };
+  const ufName = typeof account.uf === "string" ? UF_NAMES[account.uf.toUpperCase()] : undefined;
+  if (ufName) {
+    out.uf_name = ufName;
+  }
+  const size = codeLabel(COMPANY_SIZE_CODES, account.company_size_code);
+  if (size) {
+    out.company_size_label = size;
+  }
+  const status = codeLabel(REGISTRATION_STATUS_CODES, account.registration_status);
+  if (status) {
+    out.registration_status_label = status;
+  }
+  const municipality = formatMunicipality(account.municipality_ibge);
+  if (municipality) {
+    out.municipality_name = municipality;
+  }
+  const cnae = lookupCnae(account.cnae_primary);
+  if (cnae) {
+    out.cnae_primary_description = cnae.description;
+  }
+  return out;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function joinParts(parts: unknown[], separator = " "): string {
+  return parts
+    .filter((part) => !isBlank(part))
+    .map(String)
+    .join(separator);
+}
+
+function formatPhone(areaCode: unknown, phone: unknown): string {
+  if (isBlank(phone)) {
+    return "";
+  }
+  return isBlank(areaCode) ? String(phone) : `(${String(areaCode)}) ${String(phone)}`;
+}
+
+export function displayValue(field: string, account: JsonRecord): string {
+  const value = account[field];
+  switch (field) {
+    case "uf": {
+      const name = typeof value === "string" ? UF_NAMES[value.toUpperCase()] : undefined;
+      return name ? `${name} (${String(value).toUpperCase()})` : joinParts([value]);
+    }
+    case "municipality_ibge":
+      return formatMunicipality(value) ?? joinParts([value]);
+    case "cnae_primary":
+      return formatCnae(value) ?? joinParts([value]);
+    case "company_size_code":
+      return codeLabel(COMPANY_SIZE_CODES, value) ?? joinParts([value]);
+    case "registration_status":
+      return codeLabel(REGISTRATION_STATUS_CODES, value) ?? joinParts([value]);
+    case "phone1":
+      return formatPhone(account.area_code1, value);
+    case "phone2":
+      return formatPhone(account.area_code2, value);
+    case "street":
+      return joinParts(
+        [
+          joinParts([account.street_type, value]),
+          account.street_number,
+          account.address_complement,
+        ],
+        ", ",
+      );
+    default:
+      if (typeof value === "boolean") {
+        return value ? "yes" : "no";
+      }
+      if (value !== null && typeof value === "object") {
+        return JSON.stringify(value);
+      }
+      return joinParts([value]);
+  }
+}
+
+function displayFields(doc: RenderDocument, items: JsonRecord[]): string[] {
+  const fields = doc.fields ?? [...new Set(items.flatMap((item) => Object.keys(item)))];
+  return fields.filter((field) => !MERGED_FIELDS.has(field));
+}
+
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+function accountName(account: JsonRecord): string {
+  return joinParts([account.trade_name || account.legal_name || account.cnpj || "Unnamed company"]);
+}
+
+function flattenSummary(summary: JsonRecord): Array<[string, string]> {
+  const out: Array<[string, string]> = [];
+  for (const [key, value] of Object.entries(summary)) {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value as JsonRecord)) {
+        if (!isBlank(nestedValue)) {
+          out.push([nestedKey, String(nestedValue)]);
+        }
+      }
+    } else if (!isBlank(value)) {
+      out.push([key, String(value)]);
+    }
+  }
+  return out;
+}
+
+function summaryFooter(summary: JsonRecord): string {
+  return flattenSummary(summary)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(" · ");
+}
+
+function escapeCell(value: string): string {
+  return value.replaceAll("|", "\\|").replaceAll("\n", " ");
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  const line = (cells: string[]) => `| ${cells.map(escapeCell).join(" | ")} |`;
+  return [line(header), line(header.map(() => "---")), ...rows.map(line)].join("\n");
+}
+
+function withFooter(doc: RenderDocument, body: string): string {
+  const footer = summaryFooter(doc.summary);
+  return [doc.header, body, footer].filter(Boolean).join("\n\n");
+}
+
+function summaryOnly(doc: RenderDocument, asTable: boolean): string {
+  const entries = flattenSummary(doc.summary);
+  const body = asTable
+    ? markdownTable(["Field", "Value"], entries)
+    : entries.map(([key, value]) => `- ${key}: ${value}`).join("\n");
+  return [doc.header, body].filter(Boolean).join("\n\n");
+}
+
+function emptyRecords(doc: RenderDocument): string {
+  return withFooter(doc, "No companies matched.");
+}
+
+const renderJson: Renderer = (doc) => {
+  const body: JsonRecord = { ...doc.summary };
+  if (doc.fields) {
+    body.fields = doc.fields;
+  }
+  if (doc.records) {
+    const items = doc.records.items.map(withDecodedLabels);
+    body[doc.records.key] = doc.records.single ? (items[0] ?? null) : items;
+  }
+  return `${doc.header}\n\n\`\`\`json\n${JSON.stringify(body, null, 2)}\n\`\`\``;
+};
+
+const renderTable: Renderer = (doc) => {
+  if (!doc.records) {
+    return summaryOnly(doc, true);
+  }
+  const items = doc.records.items;
+  if (items.length === 0) {
+    return emptyRecords(doc);
+  }
+  const fields = displayFields(doc, items);
+  const rows = items.map((item) => fields.map((field) => displayValue(field, item) || "-"));
+  return withFooter(doc, markdownTable(fields.map(fieldLabel), rows));
+};
+
+const renderCards: Renderer = (doc) => {
+  if (!doc.records) {
+    return summaryOnly(doc, false);
+  }
+  const items = doc.records.items;
+  if (items.length === 0) {
+    return emptyRecords(doc);
+  }
+  const fields = displayFields(doc, items);
+  const cards = items.map((item) => {
+    const lines = fields
+      .map((field) => [fieldLabel(field), displayValue(field, item)] as const)
+      .filter(([, value]) => value)
+      .map(([label, value]) => `${label}: ${value}`);
+    return [`*${accountName(item)}*`, ...lines].join("\n");
+  });
+  return withFooter(doc, cards.join("\n\n"));
+};
+
+const renderCompact: Renderer = (doc) => {
+  if (!doc.records) {
+    return summaryOnly(doc, false);
+  }
+  const items = doc.records.items;
+  if (items.length === 0) {
+    return emptyRecords(doc);
+  }
+  const fields = displayFields(doc, items).filter(
+    (field) => field !== "legal_name" && field !== "trade_name",
+  );
+  const lines = items.map((item, idx) => {
+    const parts = fields
+      .map((field) => {
+        const value = item[field];
+        if (field === "has_email" || field === "has_phone") {
+          if (typeof value === "string") {
+            return value;
+          }
+          return value === true ? (field === "has_email" ? "email ✓" : "phone ✓") : "";
+        }
+        return displayValue(field, item);
+      })
+      .filter(Boolean);
+    return `${idx + 1}. ${joinParts([accountName(item), ...parts], " · ")}`;
+  });
+  return withFooter(doc, lines.join("\n"));
+};
+
+export const RENDERERS: Record<ViewMode, Renderer> = {
+  json: renderJson,
+  table: renderTable,
+  cards: renderCards,
+  compact: renderCompact,
+};
+
+export function renderDocument(doc: RenderDocument, view: ViewMode): string {
+  return RENDERERS[view](doc);
+}
@@ -0,0 +1,172 @@
+type JsonRecord = Record<string, unknown>;
+
+export type RetryPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxElapsedMs: number;
+  retryRateLimited: boolean;
+  // "METHOD /route" -> whether failed attempts may be re-sent, overriding the per-method default.
+  endpoints: Record<string, boolean>;
+};
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export type CircuitBreaker = {
+  // Milliseconds the caller must wait before calling the API; 0 while calls may go through.
+  blockedForMs(): number;
+  recordSuccess(): void;
+  recordFailure(): void;
+};
+
+const ENDPOINT_KEY = /^(GET|POST) \/\S*$/;
+
+function parseInteger(
+  raw: unknown,
+  path: string,
+  fallback: number,
+  bounds: { min: number; max: number },
+): number {
+  if (raw === undefined) {
+    return fallback;
+  }
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < bounds.min || raw > bounds.max) {
+    throw new Error(
+      `Invalid plugin config: ${path} must be an integer between ${bounds.min} and ${bounds.max}`,
+    );
+  }
+  return raw;
+}
+
+function parseObject(raw: unknown, path: string): JsonRecord {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid plugin config: ${path} must be an object`);
+  }
+  return raw as JsonRecord;
+}
+
+// `retryCount` and `retryBackoffMs` stay top-level settings and arrive here as the base.
+export function parseRetryPolicy(
+  raw: unknown,
+  base: { maxRetries: number; baseDelayMs: number },
+): RetryPolicy {
+  const record = parseObject(raw, "retryPolicy");
+  const endpoints: Record<string, boolean> = {};
+  for (const [key, retryable] of Object.entries(
+    parseObject(record.endpoints, "retryPolicy.endpoints"),
+  )) {
+    const normalized = key
+      .trim()
+      .replace(/\s+/g, " ")
+      .replace(/^\S+/, (method) => method.toUpperCase());
+    if (!ENDPOINT_KEY.test(normalized) || typeof retryable !== "boolean") {
+      throw new Error(
+        `Invalid plugin config: retryPolicy.endpoints.${key} must map "METHOD /route" to true or false`,
+      );
+    }
+    endpoints[normalized] = retryable;
+  }
+  if (record.retryRateLimited !== undefined && typeof record.retryRateLimited !== "boolean") {
+    throw new Error("Invalid plugin config: retryPolicy.retryRateLimited must be true or false");
+  }
+  const maxDelayMs = parseInteger(record.maxDelayMs, "retryPolicy.maxDelayMs", 5_000, {
+    min: 1,
+    max: 60_000,
+  });
+  return {
+    ...base,
+    maxDelayMs: Math.max(maxDelayMs, base.baseDelayMs),
+    maxElapsedMs: parseInteger(record.maxElapsedMs, "retryPolicy.maxElapsedMs", 30_000, {
+      min: 0,
+      max: 600_000,
+    }),
+    retryRateLimited: record.retryRateLimited ?? true,
+    endpoints,
+  };
+}
+
+// Only requests the server can recognize when re-sent go out again: GETs, and POSTs carrying an
+// Idempotency-Key. Per-endpoint settings override that.
+export function isRetryable(
+  policy: RetryPolicy,
+  request: { method: string; route: string; idempotencyKey: string | undefined },
+): boolean {
+  return (
+    policy.endpoints[`${request.method} ${request.route}`] ??
+    (request.method === "GET" || Boolean(request.idempotencyKey))
+  );
+}
+
+// Full jitter: a uniformly random delay up to the capped exponential step.
+export function backoffDelayMs(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+// Retry-After carries either delta-seconds or an HTTP-date.
+export function parseRetryAfterMs(value: string | null, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - now) : null;
+}
+
+export function parseCircuitBreakerOptions(raw: unknown): CircuitBreakerOptions {
+  const record = parseObject(raw, "circuitBreaker");
+  return {
+    failureThreshold: parseInteger(record.failureThreshold, "circuitBreaker.failureThreshold", 5, {
+      min: 0,
+      max: 100,
+    }),
+    cooldownMs: parseInteger(record.cooldownMs, "circuitBreaker.cooldownMs", 30_000, {
+      min: 1_000,
+      max: 600_000,
+    }),
+  };
+}
+
+// Opens after `failureThreshold` consecutive failures. Once the cooldown passes a single probe
+// is let through (and the window re-armed for everyone else); its outcome closes or re-opens it.
+// A threshold of 0 disables the breaker.
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openUntil = 0;
+
+  return {
+    blockedForMs: () => {
+      if (options.failureThreshold === 0 || failures < options.failureThreshold) {
+        return 0;
+      }
+      const now = Date.now();
+      if (openUntil > now) {
+        return openUntil - now;
+      }
+      openUntil = now + options.cooldownMs;
+      return 0;
+    },
+    recordSuccess: () => {
+      failures = 0;
+    },
+    recordFailure: () => {
+      failures += 1;
+      if (failures >= options.failureThreshold) {
+        openUntil = Date.now() + options.cooldownMs;
+      }
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { createFileRecordStore, createMemoryRecordStore, type NamedRecordStore } from "./store.js";
+
+export type SavedSearch = {
+  name: string;
+  query_text: string;
+  filters?: Record<string, string[] | string>;
+  sort?: Array<{ field: string; direction?: "asc" | "desc" }>;
+  fields?: string[];
+  limit?: number;
+  with_contact?: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SavedSearchStore = NamedRecordStore<SavedSearch>;
+
+export function createMemorySavedSearchStore(): SavedSearchStore {
+  return createMemoryRecordStore<SavedSearch>();
+}
+
+export function createFileSavedSearchStore(filePath: string): SavedSearchStore {
+  return createFileRecordStore<SavedSearch>(filePath, "Saved searches");
+}
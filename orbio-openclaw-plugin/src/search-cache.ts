@@ -0,0 +1,102 @@
+import { openJsonFile } from "./store.js";
+
+export type SearchCacheEntry = {
+  snapshot: string;
+  stored_at: number;
+  value: unknown;
+};
+
+export type SearchCache = {
+  get(key: string): Promise<SearchCacheEntry | null>;
+  set(key: string, entry: SearchCacheEntry): Promise<void>;
+  // Drops every entry recorded against another snapshot.
+  retain(snapshot: string): Promise<void>;
+};
+
+export type SearchCacheOptions = {
+  ttlMs: number;
+  maxEntries: number;
+};
+
+type SearchCacheFile = {
+  version: 1;
+  entries: Record<string, SearchCacheEntry>;
+};
+
+function isFresh(entry: SearchCacheEntry, ttlMs: number): boolean {
+  return Date.now() - entry.stored_at < ttlMs;
+}
+
+// Least recently used entries go first once maxEntries is reached.
+export function createMemorySearchCache(opts: SearchCacheOptions): SearchCache {
+  const entries = new Map<string, SearchCacheEntry>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (!isFresh(entry, opts.ttlMs)) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry;
+    },
+    set: async (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= opts.maxEntries) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    retain: async (snapshot) => {
+      for (const [key, entry] of entries) {
+        if (entry.snapshot !== snapshot) {
+          entries.delete(key);
+        }
+      }
+    },
+  };
+}
+
+// Expired entries are pruned on write; the oldest entries go first once maxEntries is reached.
+export function createFileSearchCache(filePath: string, opts: SearchCacheOptions): SearchCache {
+  const file = openJsonFile<SearchCacheFile>(filePath, "Search cache", (parsed) => ({
+    version: 1,
+    entries: parsed.entries ?? {},
+  }));
+
+  return {
+    get: (key) =>
+      file.run(async () => {
+        const entry = (await file.load()).entries[key];
+        return entry && isFresh(entry, opts.ttlMs) ? entry : null;
+      }),
+    set: (key, entry) =>
+      file.run(async () => {
+        const data = await file.load();
+        const kept = Object.entries(data.entries)
+          .filter(([existing, cached]) => existing !== key && isFresh(cached, opts.ttlMs))
+          .sort(([, a], [, b]) => a.stored_at - b.stored_at);
+        const room = Math.max(0, opts.maxEntries - 1);
+        data.entries = Object.fromEntries([...kept.slice(kept.length - room), [key, entry]]);
+        await file.save(data);
+      }),
+    retain: (snapshot) =>
+      file.run(async () => {
+        const data = await file.load();
+        const kept = Object.entries(data.entries).filter(
+          ([, entry]) => entry.snapshot === snapshot,
+        );
+        if (kept.length < Object.keys(data.entries).length) {
+          data.entries = Object.fromEntries(kept);
+          await file.save(data);
+        }
+      }),
+  };
+}
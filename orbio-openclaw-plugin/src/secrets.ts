@@ -0,0 +1,156 @@
+import { readFile, stat } from "node:fs/promises";
+
+// Where an API key comes from. `env:` references are resolved once, when the config is read;
+// files are re-read whenever they change and provider secrets are fetched again after the API
+// rejects them, so keys can rotate without a restart.
+export type SecretRef =
+  | { kind: "literal"; value: string }
+  | { kind: "file"; path: string }
+  | { kind: "provider"; name: string };
+
+// Host hook for secret managers (Vault, cloud secret stores, ...): resolves a `secret:NAME`
+// reference, or returns null/undefined when it has no such secret.
+export type SecretProvider = (
+  name: string,
+) => Promise<string | null | undefined> | string | null | undefined;
+
+export type ApiKeyResolver = {
+  // The key to send: the first configured key the API has not rejected.
+  current(): Promise<string>;
+  // Called after the API rejected `rejected` as invalid; reloads every source and returns a
+  // different key to try, or null when there is none.
+  recover(rejected: string): Promise<string | null>;
+};
+
+// Settings that name a workspace's credentials; a `workspaces` entry that sets its own key does
+// not inherit the others from the top level.
+export const API_KEY_SETTINGS = ["apiKey", "apiKeyFile", "apiKeySecondary"] as const;
+
+const REFERENCE = /^(env|file|secret):(.*)$/s;
+
+export function parseSecretRef(
+  raw: unknown,
+  path: string,
+  env: Record<string, string | undefined>,
+): SecretRef | null {
+  const value = String(raw ?? "").trim();
+  if (!value) {
+    return null;
+  }
+  const match = REFERENCE.exec(value);
+  if (!match) {
+    return { kind: "literal", value };
+  }
+  const kind = match[1] as string;
+  const target = (match[2] as string).trim();
+  if (!target) {
+    throw new Error(
+      `Invalid plugin config: ${path} must name the ${kind} to read after "${kind}:"`,
+    );
+  }
+  if (kind === "file") {
+    return { kind: "file", path: target };
+  }
+  if (kind === "secret") {
+    return { kind: "provider", name: target };
+  }
+  const resolved = String(env[target] ?? "").trim();
+  if (!resolved) {
+    throw new Error(`Invalid plugin config: ${path} references env ${target}, which is not set`);
+  }
+  return { kind: "literal", value: resolved };
+}
+
+// `apiKeyFile` is shorthand for `apiKey: "file:PATH"`; ORBIO_API_KEY and ORBIO_API_KEY_FILE are the
+// env fallbacks. Returns the primary key source followed by the optional secondary one.
+export function parseApiKeyRefs(
+  raw: Record<string, unknown>,
+  env: Record<string, string | undefined>,
+  hasProvider: boolean,
+): SecretRef[] {
+  const apiKeyFile = String(raw.apiKeyFile ?? "").trim();
+  if (apiKeyFile && String(raw.apiKey ?? "").trim()) {
+    throw new Error("Invalid plugin config: set either apiKey or apiKeyFile, not both");
+  }
+  const envFile = String(env.ORBIO_API_KEY_FILE ?? "").trim();
+  const primary = apiKeyFile
+    ? ({ kind: "file", path: apiKeyFile } as const)
+    : (parseSecretRef(raw.apiKey, "apiKey", env) ??
+      parseSecretRef(env.ORBIO_API_KEY, "ORBIO_API_KEY", env) ??
+      (envFile ? ({ kind: "file", path: envFile } as const) : null));
+  if (!primary) {
+    return [];
+  }
+  const secondary = parseSecretRef(raw.apiKeySecondary, "apiKeySecondary", env);
+  const refs = secondary ? [primary, secondary] : [primary];
+  if (!hasProvider && refs.some((ref) => ref.kind === "provider")) {
+    throw new Error(
+      'Invalid plugin config: "secret:" API key references need a host secretProvider',
+    );
+  }
+  return refs;
+}
+
+export function createApiKeyResolver(
+  refs: SecretRef[],
+  provider: SecretProvider | undefined,
+): ApiKeyResolver {
+  const rejected = new Set<string>();
+  const loaded = new Map<SecretRef, { value: string; version: string }>();
+
+  const load = async (ref: SecretRef, force: boolean): Promise<string> => {
+    if (ref.kind === "literal") {
+      return ref.value;
+    }
+    const cached = loaded.get(ref);
+    if (ref.kind === "file") {
+      try {
+        const info = await stat(ref.path);
+        const version = `${info.mtimeMs}:${info.size}`;
+        if (cached && cached.version === version && !force) {
+          return cached.value;
+        }
+        const value = (await readFile(ref.path, "utf8")).trim();
+        loaded.set(ref, { value, version });
+        return value;
+      } catch (error) {
+        throw new Error(`Could not read the Orbio API key file: ${(error as Error).message}`);
+      }
+    }
+    if (cached && !force) {
+      return cached.value;
+    }
+    const value = String((await provider?.(ref.name)) ?? "").trim();
+    loaded.set(ref, { value, version: "" });
+    return value;
+  };
+
+  const pick = async (force: boolean): Promise<string | null> => {
+    for (const ref of refs) {
+      const value = await load(ref, force);
+      if (value && !rejected.has(value)) {
+        return value;
+      }
+    }
+    return null;
+  };
+
+  return {
+    current: async () => {
+      const key = await pick(false);
+      if (key) {
+        return key;
+      }
+      // Every key was rejected before; send the primary again so the API error reaches the user.
+      const primary = await load(refs[0] as SecretRef, false);
+      if (!primary) {
+        throw new Error("The Orbio API key source is empty.");
+      }
+      return primary;
+    },
+    recover: async (key) => {
+      rejected.add(key);
+      return pick(true);
+    },
+  };
+}
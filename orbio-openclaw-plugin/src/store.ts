@@ -0,0 +1,151 @@
+import { mkdir, open, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export type NamedRecordStore<T extends { name: string }> = {
+  list(workspaceId: string): Promise<T[]>;
+  get(workspaceId: string, name: string): Promise<T | null>;
+  put(workspaceId: string, record: T): Promise<void>;
+  delete(workspaceId: string, name: string): Promise<boolean>;
+};
+
+type StoreFile<T> = {
+  version: 1;
+  workspaces: Record<string, Record<string, T>>;
+};
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name);
+}
+
+export function createMemoryRecordStore<T extends { name: string }>(): NamedRecordStore<T> {
+  const workspaces = new Map<string, Map<string, T>>();
+  const workspace = (id: string) => {
+    let entries = workspaces.get(id);
+    if (!entries) {
+      entries = new Map();
+      workspaces.set(id, entries);
+    }
+    return entries;
+  };
+
+  return {
+    list: async (workspaceId) => [...workspace(workspaceId).values()].sort(byName),
+    get: async (workspaceId, name) => workspace(workspaceId).get(name) ?? null,
+    put: async (workspaceId, record) => {
+      workspace(workspaceId).set(record.name, record);
+    },
+    delete: async (workspaceId, name) => workspace(workspaceId).delete(name),
+  };
+}
+
+export type JsonFile<T> = {
+  load(): Promise<T>;
+  save(data: T): Promise<void>;
+  run<R>(op: () => Promise<R>): Promise<R>;
+};
+
+// A lockfile older than this was left behind by a process that died while holding it.
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+
+async function withFileLock<R>(lockPath: string, op: () => Promise<R>): Promise<R> {
+  await mkdir(dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      await (await open(lockPath, "wx")).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    const info = await stat(lockPath).catch(() => null);
+    if (info && Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    return await op();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+// Every operation re-reads the file so several gateway processes can share it. `run` queues
+// operations within the process and holds an exclusive lockfile next to the data file across
+// processes; writes go through a temp file and rename so a crash never leaves a truncated file.
+export function openJsonFile<T>(
+  filePath: string,
+  label: string,
+  parse: (raw: Partial<T>) => T,
+): JsonFile<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    load: async () => {
+      let raw: string;
+      try {
+        raw = await readFile(filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return parse({});
+        }
+        throw error;
+      }
+      try {
+        return parse(JSON.parse(raw) as Partial<T>);
+      } catch {
+        throw new Error(`${label} file is not valid JSON: ${filePath}`);
+      }
+    },
+    save: async (data) => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+      await rename(tmpPath, filePath);
+    },
+    run: (op) => {
+      const next = queue.then(() => withFileLock(`${filePath}.lock`, op));
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+export function createFileRecordStore<T extends { name: string }>(
+  filePath: string,
+  label: string,
+): NamedRecordStore<T> {
+  const file = openJsonFile<StoreFile<T>>(filePath, label, (parsed) => ({
+    version: 1,
+    workspaces: parsed.workspaces ?? {},
+  }));
+
+  return {
+    list: (workspaceId) =>
+      file.run(async () =>
+        Object.values((await file.load()).workspaces[workspaceId] ?? {}).sort(byName),
+      ),
+    get: (workspaceId, name) =>
+      file.run(async () => (await file.load()).workspaces[workspaceId]?.[name] ?? null),
+    put: (workspaceId, record) =>
+      file.run(async () => {
+        const data = await file.load();
+        data.workspaces[workspaceId] = { ...data.workspaces[workspaceId], [record.name]: record };
+        await file.save(data);
+      }),
+    delete: (workspaceId, name) =>
+      file.run(async () => {
+        const data = await file.load();
+        const entries = data.workspaces[workspaceId];
+        if (!entries?.[name]) {
+          return false;
+        }
+        delete entries[name];
+        await file.save(data);
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,141 @@
+import {
+  SpanKind,
+  SpanStatusCode,
+  context,
+  metrics,
+  trace,
+  type Attributes,
+  type MeterProvider,
+  type Span,
+  type TracerProvider,
+} from "@opentelemetry/api";
+
+// Hosts that do not register an OpenTelemetry SDK get the API's no-op tracer and meter, so the
+// instrumentation costs nothing unless someone is listening.
+export type TelemetryProviders = {
+  tracerProvider?: TracerProvider;
+  meterProvider?: MeterProvider;
+};
+
+export type HttpAttemptResult = {
+  status: number;
+  errorCode: string | null;
+  requestId: string | null;
+  retry: "server_error" | "rate_limited" | "timeout" | "network" | "authentication" | null;
+};
+
+export type OrbioTelemetry = {
+  startTool(tool: string, attributes: Attributes): Span;
+  runInSpan<T>(span: Span, fn: () => Promise<T>): Promise<T>;
+  endTool(span: Span, tool: string, outcome: string, errorCode: string | null): void;
+  startHttpAttempt(method: string, path: string, attempt: number): Span;
+  endHttpAttempt(span: Span, method: string, path: string, result: HttpAttemptResult): void;
+  recordRateLimit(scope: "tool" | "user", tool: string): void;
+};
+
+const INSTRUMENTATION_NAME = "@orbio/orbio-openclaw";
+
+// Ids in the path would make every request its own metric series.
+export function httpRoute(path: string): string {
+  const route = path.split("?")[0] ?? path;
+  return route
+    .replace(/^\/v1\/accounts\/(?!search$)[^/]+$/, "/v1/accounts/{cnpj}")
+    .replace(/^\/v1\/exports\/[^/]+/, "/v1/exports/{export_id}");
+}
+
+export function createTelemetry(version: string, providers?: TelemetryProviders): OrbioTelemetry {
+  const tracer = (providers?.tracerProvider ?? trace.getTracerProvider()).getTracer(
+    INSTRUMENTATION_NAME,
+    version,
+  );
+  const meter = (providers?.meterProvider ?? metrics.getMeterProvider()).getMeter(
+    INSTRUMENTATION_NAME,
+    version,
+  );
+
+  const toolDuration = meter.createHistogram("orbio.tool.duration", {
+    description: "Duration of Orbio tool calls, including plugin-side checks",
+    unit: "s",
+  });
+  const httpDuration = meter.createHistogram("orbio.http.client.duration", {
+    description: "Duration of each HTTP attempt against the Orbio API",
+    unit: "s",
+  });
+  const httpRetries = meter.createCounter("orbio.http.client.retries", {
+    description: "HTTP attempts that were retried, by reason",
+  });
+  const httpErrors = meter.createCounter("orbio.http.client.errors", {
+    description: "Failed HTTP attempts, by Orbio error code",
+  });
+  const rateLimitRejections = meter.createCounter("orbio.rate_limit.rejections", {
+    description: "Calls refused by the plugin-side rate limiter",
+  });
+
+  const started = new WeakMap<Span, number>();
+  const elapsedSeconds = (span: Span): number =>
+    (performance.now() - (started.get(span) ?? performance.now())) / 1000;
+
+  return {
+    startTool: (tool, attributes) => {
+      const span = tracer.startSpan(tool, {
+        kind: SpanKind.INTERNAL,
+        attributes: { "orbio.tool": tool, ...attributes },
+      });
+      started.set(span, performance.now());
+      return span;
+    },
+    runInSpan: (span, fn) => context.with(trace.setSpan(context.active(), span), fn),
+    endTool: (span, tool, outcome, errorCode) => {
+      span.setAttribute("orbio.outcome", outcome);
+      if (errorCode) {
+        span.setAttribute("orbio.error_code", errorCode);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errorCode });
+      }
+      toolDuration.record(elapsedSeconds(span), { "orbio.tool": tool, "orbio.outcome": outcome });
+      span.end();
+    },
+    startHttpAttempt: (method, path, attempt) => {
+      const route = httpRoute(path);
+      const span = tracer.startSpan(`${method} ${route}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          "http.request.method": method,
+          "http.route": route,
+          "url.path": path.split("?")[0],
+          "http.request.resend_count": attempt,
+        },
+      });
+      started.set(span, performance.now());
+      return span;
+    },
+    endHttpAttempt: (span, method, path, result) => {
+      // Retried attempts end before the backoff sleep; the finally block must not end them twice.
+      if (!started.has(span)) {
+        return;
+      }
+      const attributes: Attributes = {
+        "http.request.method": method,
+        "http.route": httpRoute(path),
+        ...(result.status > 0 ? { "http.response.status_code": result.status } : {}),
+        ...(result.errorCode ? { "error.type": result.errorCode } : {}),
+      };
+      span.setAttributes(attributes);
+      if (result.requestId) {
+        span.setAttribute("orbio.request_id", result.requestId);
+      }
+      if (result.errorCode) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: result.errorCode });
+        httpErrors.add(1, { ...attributes, "orbio.error_code": result.errorCode });
+      }
+      if (result.retry) {
+        httpRetries.add(1, { ...attributes, "orbio.retry_reason": result.retry });
+      }
+      httpDuration.record(elapsedSeconds(span), attributes);
+      started.delete(span);
+      span.end();
+    },
+    recordRateLimit: (scope, tool) => {
+      rateLimitRejections.add(1, { "orbio.rate_limit.scope": scope, "orbio.tool": tool });
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { openJsonFile } from "./store.js";
+
+export type UsageCounts = {
+  requests: number;
+  rows: number;
+  exports: number;
+};
+
+// One bucket per UTC hour ("2026-02-10T14"), tool and channel.
+export type UsageBucket = UsageCounts & {
+  hour: string;
+  tool: string;
+  channel: string;
+};
+
+export type UsageStore = {
+  add(workspaceId: string, bucket: UsageBucket): Promise<void>;
+  list(workspaceId: string, sinceHour: string): Promise<UsageBucket[]>;
+};
+
+export type UsageSummary = {
+  total: UsageCounts;
+  byTool: Record<string, UsageCounts>;
+  byChannel: Record<string, UsageCounts>;
+};
+
+type UsageFile = {
+  version: 1;
+  workspaces: Record<string, Record<string, UsageBucket>>;
+};
+
+export const USAGE_RETENTION_DAYS = 90;
+
+export function usageHour(time: number): string {
+  return new Date(time).toISOString().slice(0, 13);
+}
+
+function addBucket(entries: Record<string, UsageBucket>, bucket: UsageBucket): void {
+  const key = `${bucket.hour}|${bucket.tool}|${bucket.channel}`;
+  const existing = entries[key];
+  entries[key] = existing
+    ? {
+        ...existing,
+        requests: existing.requests + bucket.requests,
+        rows: existing.rows + bucket.rows,
+        exports: existing.exports + bucket.exports,
+      }
+    : { ...bucket };
+  const cutoff = usageHour(Date.now() - USAGE_RETENTION_DAYS * 86_400_000);
+  for (const [existingKey, entry] of Object.entries(entries)) {
+    if (entry.hour < cutoff) {
+      delete entries[existingKey];
+    }
+  }
+}
+
+function bucketsSince(entries: Record<string, UsageBucket>, sinceHour: string): UsageBucket[] {
+  return Object.values(entries)
+    .filter((bucket) => bucket.hour >= sinceHour)
+    .sort((a, b) => a.hour.localeCompare(b.hour));
+}
+
+export function createMemoryUsageStore(): UsageStore {
+  const workspaces = new Map<string, Record<string, UsageBucket>>();
+
+  return {
+    add: async (workspaceId, bucket) => {
+      const entries = workspaces.get(workspaceId) ?? {};
+      addBucket(entries, bucket);
+      workspaces.set(workspaceId, entries);
+    },
+    list: async (workspaceId, sinceHour) =>
+      bucketsSince(workspaces.get(workspaceId) ?? {}, sinceHour),
+  };
+}
+
+export function createFileUsageStore(filePath: string): UsageStore {
+  const file = openJsonFile<UsageFile>(filePath, "Usage", (parsed) => ({
+    version: 1,
+    workspaces: parsed.workspaces ?? {},
+  }));
+
+  return {
+    add: (workspaceId, bucket) =>
+      file.run(async () => {
+        const data = await file.load();
+        const entries = data.workspaces[workspaceId] ?? {};
+        addBucket(entries, bucket);
+        data.workspaces[workspaceId] = entries;
+        await file.save(data);
+      }),
+    list: (workspaceId, sinceHour) =>
+      file.run(async () =>
+        bucketsSince((await file.load()).workspaces[workspaceId] ?? {}, sinceHour),
+      ),
+  };
+}
+
+export function summarizeUsage(buckets: UsageBucket[]): UsageSummary {
+  const empty = (): UsageCounts => ({ requests: 0, rows: 0, exports: 0 });
+  const summary: UsageSummary = { total: empty(), byTool: {}, byChannel: {} };
+  for (const bucket of buckets) {
+    for (const counts of [
+      summary.total,
+      (summary.byTool[bucket.tool] ??= empty()),
+      (summary.byChannel[bucket.channel] ??= empty()),
+    ]) {
+      counts.requests += bucket.requests;
+      counts.rows += bucket.rows;
+      counts.exports += bucket.exports;
+    }
+  }
+  return summary;
+}
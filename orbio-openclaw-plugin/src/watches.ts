@@ -0,0 +1,47 @@
+import { createFileRecordStore, createMemoryRecordStore, type NamedRecordStore } from "./store.js";
+
+// A watch tracks the companies matched by a saved search (same name) in one snapshot, keyed
+// by CNPJ with their registration status code, so the next snapshot can be diffed against it.
+export type SearchWatch = {
+  name: string;
+  session_key: string;
+  snapshot: string;
+  snapshot_date: string;
+  companies: Record<string, string | null>;
+  truncated: boolean;
+  error_snapshot?: string;
+  created_at: string;
+  checked_at: string;
+};
+
+export type WatchStore = NamedRecordStore<SearchWatch>;
+
+export type WatchDiff = {
+  added: string[];
+  statusChanged: Array<{ cnpj: string; from: string | null; to: string | null }>;
+  missing: string[];
+};
+
+export function createMemoryWatchStore(): WatchStore {
+  return createMemoryRecordStore<SearchWatch>();
+}
+
+export function createFileWatchStore(filePath: string): WatchStore {
+  return createFileRecordStore<SearchWatch>(filePath, "Watches");
+}
+
+export function diffWatchedCompanies(
+  previous: Record<string, string | null>,
+  current: Record<string, string | null>,
+): WatchDiff {
+  const diff: WatchDiff = { added: [], statusChanged: [], missing: [] };
+  for (const [cnpj, status] of Object.entries(current)) {
+    if (!(cnpj in previous)) {
+      diff.added.push(cnpj);
+    } else if ((previous[cnpj] ?? null) !== status) {
+      diff.statusChanged.push({ cnpj, from: previous[cnpj] ?? null, to: status });
+    }
+  }
+  diff.missing = Object.keys(previous).filter((cnpj) => !(cnpj in current));
+  return diff;
+}
@@ -0,0 +1,140 @@
+type JsonRecord = Record<string, unknown>;
+
+// Settings a `workspaces` entry may override; stores, audit and the limiter backend are shared by
+// the whole plugin instance.
+export const WORKSPACE_SETTINGS = [
+  "apiKey",
+  "apiKeyFile",
+  "apiKeySecondary",
+  "baseUrl",
+  "channel",
+  "sendExecutionContext",
+  "timeoutMs",
+  "maxRequestsPerMinute",
+  "rateLimitBurst",
+  "maxRequestsPerMinutePerUser",
+  "retryCount",
+  "retryBackoffMs",
+  "retryPolicy",
+  "circuitBreaker",
+  "capabilitiesTtlMs",
+  "exportWatch",
+  "exportPollIntervalMs",
+  "exportPollMaxIntervalMs",
+  "exportWatchTimeoutMs",
+  "exportWaitTimeoutMs",
+] as const;
+
+// Where a rule sends its chats, and the workspaces --workspace may pick there (routed one first).
+export type WorkspaceRoute = {
+  workspaceId: string;
+  allowed: string[];
+};
+
+export type WorkspaceRouting = {
+  workspaces: string[];
+  default: WorkspaceRoute;
+  channels: Record<string, WorkspaceRoute>;
+  teams: Record<string, WorkspaceRoute>;
+};
+
+const WORKSPACE_ID = /^[A-Za-z0-9_.-]{1,64}$/;
+
+function parseObject(raw: unknown, path: string): JsonRecord {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid plugin config: ${path} must be an object`);
+  }
+  return raw as JsonRecord;
+}
+
+export function parseWorkspaceEntries(raw: unknown): Record<string, JsonRecord> {
+  const entries: Record<string, JsonRecord> = {};
+  for (const [id, entry] of Object.entries(parseObject(raw, "workspaces"))) {
+    if (!WORKSPACE_ID.test(id)) {
+      throw new Error(
+        `Invalid plugin config: workspaces.${id} must be named with letters, digits, ".", "_" or "-"`,
+      );
+    }
+    const settings = parseObject(entry, `workspaces.${id}`);
+    for (const key of Object.keys(settings)) {
+      if (!(WORKSPACE_SETTINGS as readonly string[]).includes(key)) {
+        throw new Error(
+          `Invalid plugin config: workspaces.${id}.${key} is not a workspace setting`,
+        );
+      }
+    }
+    entries[id] = settings;
+  }
+  return entries;
+}
+
+export function parseWorkspaceRouting(
+  raw: unknown,
+  workspaces: string[],
+  fallback: string,
+): WorkspaceRouting {
+  const record = parseObject(raw, "workspaceRouting");
+  const target = (value: unknown, path: string): WorkspaceRoute => {
+    const ids = (Array.isArray(value) ? value : [value]).map((id) => String(id ?? "").trim());
+    const [workspaceId] = ids;
+    if (workspaceId === undefined) {
+      throw new Error(`Invalid plugin config: workspaceRouting.${path} must name a workspace`);
+    }
+    for (const id of ids) {
+      if (!workspaces.includes(id)) {
+        throw new Error(
+          `Invalid plugin config: workspaceRouting.${path} names unknown workspace "${id}"`,
+        );
+      }
+    }
+    return { workspaceId, allowed: [...new Set(ids)] };
+  };
+  const rules = (key: "channels" | "teams", normalize: (name: string) => string) =>
+    Object.fromEntries(
+      Object.entries(parseObject(record[key], `workspaceRouting.${key}`)).map(([name, value]) => [
+        normalize(name),
+        target(value, `${key}.${name}`),
+      ]),
+    );
+  return {
+    workspaces,
+    // Without a default rule, chats no rule matches may pick any workspace.
+    default:
+      record.default === undefined
+        ? { workspaceId: fallback, allowed: workspaces }
+        : target(record.default, "default"),
+    channels: rules("channels", (name) => name.trim().toLowerCase()),
+    teams: rules("teams", (name) => name.trim()),
+  };
+}
+
+// The team rule wins over the channel rule, which wins over the default. --workspace can only
+// pick among the workspaces the matching rule allows, so it never crosses a tenant boundary.
+export function resolveWorkspace(
+  routing: WorkspaceRouting,
+  request: { requested: string | null; teamId: string | null; channel: string | null },
+): { workspaceId: string } | { error: string } {
+  const route =
+    (request.teamId ? routing.teams[request.teamId] : undefined) ??
+    (request.channel ? routing.channels[request.channel] : undefined) ??
+    routing.default;
+  if (!request.requested) {
+    return { workspaceId: route.workspaceId };
+  }
+  if (!routing.workspaces.includes(request.requested)) {
+    return { error: `Unknown Orbio workspace "${request.requested}".` };
+  }
+  if (!route.allowed.includes(request.requested)) {
+    return route.allowed.length === 1
+      ? {
+          error: `This chat uses Orbio workspace "${route.workspaceId}"; --workspace cannot switch it.`,
+        }
+      : {
+          error: `This chat can use Orbio workspaces ${route.allowed.map((id) => `"${id}"`).join(", ")}; --workspace cannot switch to "${request.requested}".`,
+        };
+  }
+  return { workspaceId: request.requested };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import { accessDenial, parseAccessPolicy, resolveAccess } from "../src/index";
+
+const POLICY = parseAccessPolicy({
+  default: { actions: ["search"], maxLimit: 20 },
+  roles: {
+    analyst: { actions: ["search", "export"], maxLimit: 1000 },
+    sales: { actions: ["search", "contacts"], maxLimit: 200 },
+    admin: { actions: ["search", "export", "contacts"] },
+  },
+  users: { "U-ana": "analyst", "U-bia": ["analyst", "sales"], "U-root": ["admin"] },
+  channels: { WhatsApp: { actions: ["search", "contacts"], maxLimit: 50 }, slack: {} },
+});
+
+function subject(userId: string | null, channel = "slack", roles: string[] = []) {
+  return { userId, roles, channel };
+}
+
+describe("access policy", () => {
+  it("returns null when no policy is configured", () => {
+    expect(parseAccessPolicy(undefined)).toBeNull();
+    expect(parseAccessPolicy(null)).toBeNull();
+  });
+
+  it("resolves roles, the default rule and channel restrictions", () => {
+    const policy = POLICY as NonNullable<typeof POLICY>;
+    expect(resolveAccess(policy, subject(null))).toEqual({
+      actions: ["search"],
+      maxLimit: 20,
+      roles: [],
+    });
+    expect(resolveAccess(policy, subject("U-bia"))).toEqual({
+      actions: ["search", "export", "contacts"],
+      maxLimit: 1000,
+      roles: ["analyst", "sales"],
+    });
+    expect(resolveAccess(policy, subject("U-root", "whatsapp"))).toEqual({
+      actions: ["search", "contacts"],
+      maxLimit: 50,
+      roles: ["admin"],
+    });
+    expect(resolveAccess(policy, subject("U-ana", "whatsapp", ["sales", "ghost"]))).toEqual({
+      actions: ["search", "contacts"],
+      maxLimit: 50,
+      roles: ["analyst", "sales"],
+    });
+    expect(resolveAccess(policy, subject("U-root")).maxLimit).toBeNull();
+  });
+
+  it("explains which permission or limit is missing", () => {
+    const policy = POLICY as NonNullable<typeof POLICY>;
+    const who = subject("U-ana", "whatsapp");
+    const grant = resolveAccess(policy, who);
+
+    expect(accessDenial(grant, { action: "search", limit: 50 }, who)).toBeNull();
+    expect(accessDenial(grant, { action: "export" }, who)).toBe(
+      'Access denied: Exports need the "export" permission, which user U-ana (roles: analyst) in channel whatsapp does not have (allowed: search). Ask a workspace admin to update the plugin accessPolicy.',
+    );
+    expect(accessDenial(grant, { action: "search", limit: 51 }, who)).toBe(
+      "Access denied: limit 51 is above the maximum of 50 allowed for user U-ana (roles: analyst) in channel whatsapp. Use --limit 50 or less.",
+    );
+
+    const nobody = subject(null, "telegram");
+    const locked = resolveAccess(
+      parseAccessPolicy({ default: { actions: [] } }) as NonNullable<typeof POLICY>,
+      nobody,
+    );
+    expect(accessDenial(locked, { action: "search", contacts: true }, nobody)).toBe(
+      'Access denied: Searches and company lookups need the "search" permission, which this user (default policy) in channel telegram does not have (allowed: none). Ask a workspace admin to update the plugin accessPolicy.',
+    );
+    expect(parseAccessPolicy({})?.default).toEqual({ actions: ["search"] });
+  });
+
+  it.each([
+    ["a list", [], "Invalid plugin config: accessPolicy must be an object"],
+    [
+      "unknown actions",
+      { roles: { viewer: { actions: ["delete"] } } },
+      "Invalid plugin config: accessPolicy.roles.viewer.actions must list actions from: search, export, contacts",
+    ],
+    [
+      "roles without actions",
+      { default: { maxLimit: 5 } },
+      "Invalid plugin config: accessPolicy.default.actions must list actions from: search, export, contacts",
+    ],
+    [
+      "a bad maxLimit",
+      { channels: { slack: { maxLimit: 0 } } },
+      "Invalid plugin config: accessPolicy.channels.slack.maxLimit must be a positive integer",
+    ],
+    [
+      "a non-object rule",
+      { roles: { viewer: "search" } },
+      "Invalid plugin config: accessPolicy.roles.viewer must be an object",
+    ],
+    [
+      "a non-object section",
+      { users: ["U1"] },
+      "Invalid plugin config: accessPolicy.users must be an object",
+    ],
+    [
+      "unknown roles",
+      { users: { U1: "ghost" } },
+      'Invalid plugin config: accessPolicy.users.U1 refers to unknown role "ghost"',
+    ],
+    [
+      "bad role lists",
+      { users: { U1: 3 } },
+      "Invalid plugin config: accessPolicy.users.U1 must be a role name or a list of role names",
+    ],
+  ])("rejects %s", (_title, raw, message) => {
+    expect(() => parseAccessPolicy(raw)).toThrow(message);
+  });
+});
@@ -0,0 +1,94 @@
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createFileAuditSink,
+  createStdoutAuditSink,
+  createWebhookAuditSink,
+  type AuditEvent,
+} from "../src/index";
+
+function auditEvent(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    ts: "2026-02-10T14:00:00.000Z",
+    workspace_id: "ws",
+    tool: "orbio_search",
+    action: "search",
+    user_id: "U1",
+    roles: [],
+    channel: "slack",
+    query_text: "software",
+    fields_requested: null,
+    fields_granted: ["cnpj", "legal_name"],
+    contact_requested: false,
+    contact_granted: false,
+    contact_redaction: null,
+    rows: 3,
+    export_id: null,
+    request_id: "req-1",
+    outcome: "ok",
+    error_code: null,
+    duration_ms: 12,
+    ...overrides,
+  };
+}
+
+describe("audit sinks", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orbio-audit-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends one JSON line per event to a private file", async () => {
+    const filePath = join(dir, "nested", "audit.jsonl");
+    const sink = createFileAuditSink(filePath);
+
+    await Promise.all([
+      sink.write(auditEvent()),
+      sink.write(auditEvent({ tool: "orbio_export", export_id: "exp-1" })),
+    ]);
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).tool)).toEqual(["orbio_search", "orbio_export"]);
+    expect(JSON.parse(lines[1] as string).export_id).toBe("exp-1");
+    expect((await stat(filePath)).mode & 0o777).toBe(0o600);
+
+    await expect(createFileAuditSink(dir).write(auditEvent())).rejects.toThrow();
+  });
+
+  it("writes JSON lines to stdout", async () => {
+    const chunks: string[] = [];
+    await createStdoutAuditSink({ write: (chunk) => chunks.push(chunk) }).write(auditEvent());
+    expect(chunks).toEqual([`${JSON.stringify(auditEvent())}\n`]);
+
+    const write = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+    await createStdoutAuditSink().write(auditEvent());
+    expect(write).toHaveBeenCalledOnce();
+    write.mockRestore();
+  });
+
+  it("posts events to a webhook and reports rejected deliveries", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(new Response("nope", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const sink = createWebhookAuditSink("https://siem.test/hook", { timeoutMs: 1_000 });
+
+    await sink.write(auditEvent());
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://siem.test/hook");
+    expect(init).toMatchObject({ method: "POST", body: JSON.stringify(auditEvent()) });
+
+    await expect(sink.write(auditEvent())).rejects.toThrow("Audit webhook answered HTTP 500");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeCnpjCheckDigits,
+  formatCnpj,
+  isValidCnpj,
+  maskCnpj,
+  normalizeCnpj,
+  parseCnpj,
+  stripCnpj,
+} from "../src/index";
+
+describe("cnpj utilities", () => {
+  it("strips punctuation and uppercases", () => {
+    expect(stripCnpj(" 12.abc.345/01de-35 ")).toBe("12ABC34501DE35");
+  });
+
+  it("computes numeric and alphanumeric check digits", () => {
+    expect(computeCnpjCheckDigits("11.222.333/0001")).toBe("81");
+    expect(computeCnpjCheckDigits("12ABC34501DE")).toBe("35");
+    expect(() => computeCnpjCheckDigits("123")).toThrow(
+      "CNPJ base must have 12 alphanumeric characters.",
+    );
+  });
+
+  it.each([
+    ["11.222.333/0001-81", "11222333000181"],
+    ["11222333000181", "11222333000181"],
+    ["12.ABC.345/01DE-35", "12ABC34501DE35"],
+    ["12abc34501de35", "12ABC34501DE35"],
+    ["11.222.333/0001-82", null],
+    ["11111111111111", null],
+    ["1122233300018", null],
+    ["12ABC34501DEAB", null],
+    ["", null],
+  ])("normalizes %s", (input, expected) => {
+    expect(normalizeCnpj(input)).toBe(expected);
+    expect(isValidCnpj(input)).toBe(expected !== null);
+  });
+
+  it("formats and masks valid CNPJs only", () => {
+    expect(formatCnpj("11222333000181")).toBe("11.222.333/0001-81");
+    expect(formatCnpj("12abc34501de35")).toBe("12.ABC.345/01DE-35");
+    expect(formatCnpj("123")).toBeNull();
+
+    expect(maskCnpj("11222333000181")).toBe("11.***.***/0001-**");
+    expect(maskCnpj("invalid")).toBeNull();
+  });
+
+  it("extracts root and branch", () => {
+    expect(parseCnpj("11.222.333/0001-81")).toEqual({
+      cnpj: "11222333000181",
+      root: "11222333",
+      branch: "0001",
+      checkDigits: "81",
+      headquarters: true,
+      alphanumeric: false,
+    });
+    expect(parseCnpj("12.ABC.345/01DE-35")).toEqual({
+      cnpj: "12ABC34501DE35",
+      root: "12ABC345",
+      branch: "01DE",
+      checkDigits: "35",
+      headquarters: false,
+      alphanumeric: true,
+    });
+    expect(parseCnpj("00000000000000")).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  confirmationReasons,
+  createConfirmationStore,
+  parseExportConfirmationPolicy,
+} from "../src/index";
+
+describe("export confirmation", () => {
+  it("parses the policy with defaults", () => {
+    expect(parseExportConfirmationPolicy(undefined)).toEqual({
+      rowThreshold: 1000,
+      contacts: true,
+      ttlMs: 600_000,
+    });
+    expect(parseExportConfirmationPolicy({ rowThreshold: 0, contacts: false })).toMatchObject({
+      rowThreshold: 0,
+      contacts: false,
+    });
+    expect(() => parseExportConfirmationPolicy("on")).toThrow(
+      "Invalid plugin config: exportConfirmation must be an object",
+    );
+    expect(() => parseExportConfirmationPolicy({ contacts: "yes" })).toThrow(
+      "Invalid plugin config: exportConfirmation.contacts must be true or false",
+    );
+    expect(() => parseExportConfirmationPolicy({ rowThreshold: 60_000 })).toThrow(
+      "Invalid plugin config: exportConfirmation.rowThreshold must be an integer between 0 and 50000",
+    );
+  });
+
+  it("lists why an export needs confirmation", () => {
+    const policy = parseExportConfirmationPolicy({});
+    expect(confirmationReasons(policy, { limit: 1000, contacts: false })).toEqual([]);
+    expect(confirmationReasons(policy, { limit: 1001, contacts: true })).toEqual([
+      "it asks for up to 1001 rows (more than 1000)",
+      "it includes contact fields",
+    ]);
+    expect(
+      confirmationReasons({ ...policy, contacts: false }, { limit: 10, contacts: true }),
+    ).toEqual([]);
+  });
+
+  it("hands each token out once, to its user and workspace, until it expires", () => {
+    let clock = 0;
+    const store = createConfirmationStore<string>(60_000, () => clock);
+    const owner = { userId: "U-1", workspaceId: "acme" };
+
+    const token = store.issue({ ...owner, request: "export-a" });
+    expect(token).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(store.take(token, { userId: "U-2", workspaceId: "acme" })).toEqual({
+      error: "That confirmation token belongs to another user.",
+    });
+    expect(store.take(token, { userId: null, workspaceId: "acme" })).toEqual({
+      error: "That confirmation token belongs to another user.",
+    });
+    expect(store.take(token, { userId: "U-1", workspaceId: "beta" })).toEqual({
+      error: "That export was planned for workspace acme; confirm it with --workspace acme.",
+    });
+    expect(store.take(` ${token.toLowerCase()} `, owner)).toEqual({
+      entry: { ...owner, request: "export-a" },
+    });
+    expect(store.take(token, owner)).toEqual({
+      error: `No pending export for token ${token}. Tokens expire after 1 minutes; run the export again.`,
+    });
+
+    const late = store.issue({ ...owner, request: "export-b" });
+    clock = 60_000;
+    expect(store.take(late, owner)).toHaveProperty("error");
+  });
+
+  it("drops expired tokens and the oldest ones past the pending cap", () => {
+    let clock = 0;
+    const store = createConfirmationStore<number>(60_000, () => clock);
+    const owner = { userId: "U-1", workspaceId: "default" };
+
+    const expired = store.issue({ ...owner, request: 0 });
+    clock = 60_000;
+    const tokens = Array.from({ length: 1_001 }, (_item, index) =>
+      store.issue({ ...owner, request: index + 1 }),
+    );
+    expect(store.take(expired, owner)).toHaveProperty("error");
+    expect(store.take(tokens[0] as string, owner)).toHaveProperty("error");
+    expect(store.take(tokens[1] as string, owner)).toEqual({ entry: { ...owner, request: 2 } });
+  });
+});
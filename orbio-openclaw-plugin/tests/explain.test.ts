@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { describeFilters, parseSearchExplanation, renderExplanation } from "../src/index";
+
+describe("search explanation", () => {
+  it("reads the explain block leniently", () => {
+    expect(parseSearchExplanation({ accounts: [] })).toBeNull();
+    expect(parseSearchExplanation({ explain: ["cnae"] })).toBeNull();
+    expect(parseSearchExplanation(null)).toBeNull();
+    expect(
+      parseSearchExplanation({
+        explain: {
+          interpreted_filters: "uf=SP",
+          unmatched_terms: "legais",
+          estimated_total: "many",
+          notes: ["Matched trade names too.", ""],
+        },
+      }),
+    ).toEqual({
+      interpretedFilters: {},
+      unmatchedTerms: ["legais"],
+      estimatedTotal: null,
+      notes: ["Matched trade names too."],
+    });
+  });
+
+  it("decodes filter codes and keeps unknown filters as-is", () => {
+    expect(
+      describeFilters({
+        cnae: ["62", "0000000"],
+        uf: ["sp", "XX"],
+        municipality_ibge: ["3509502"],
+        company_size_code: ["03"],
+        registration_status: ["08"],
+        started_after: "2020-01-01",
+        headcount_band: ["10-49"],
+        uf_empty: [],
+      }),
+    ).toEqual([
+      "- Activity (CNAE): 62 – Atividades dos serviços de tecnologia da informação; 0000000",
+      "- State: sp (São Paulo); XX",
+      "- City: Campinas/SP",
+      "- Size: EPP",
+      "- Status: Baixada",
+      "- Started after: 2020-01-01",
+      "- headcount_band: 10-49",
+    ]);
+    expect(describeFilters(undefined)).toEqual([]);
+  });
+
+  it("renders empty interpretations and notes", () => {
+    expect(
+      renderExplanation(
+        "acme",
+        { interpretedFilters: {}, unmatchedTerms: [], estimatedTotal: 0, notes: ["Keyword match"] },
+        undefined,
+      ),
+    ).toBe(
+      [
+        'How Orbio read "acme":',
+        "From the query text:",
+        "- no filters",
+        "Estimated matches: 0",
+        "Note: Keyword match",
+      ].join("\n"),
+    );
+  });
+});
@@ -1,6 +1,37 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import registerOrbioPlugin from "../src/index";
+import registerOrbioPlugin, {
+  createMemoryRateLimiter,
+  createMemorySavedSearchStore,
+  createMemorySearchCache,
+  createMemoryWatchStore,
+  type AuditEvent,
+  type AuditSink,
+  type RateLimiter,
+  type SavedSearchStore,
+  type SearchCache,
+  type SearchWatch,
+  type SecretProvider,
+  type UsageStore,
+  type WatchStore,
+} from "../src/index";
 
 type ToolResult = {
   content: Array<{ type: "text"; text: string }>;
@@ -12,11 +43,22 @@ type ToolSpec = {
   optional?: boolean;
 };
 
-type ToolHandler = (args: unknown) => Promise<ToolResult>;
+type ToolHandler = (args: unknown, context?: unknown) => Promise<ToolResult>;
 
 type SetupOptions = {
   config?: Record<string, unknown>;
   env?: Record<string, string | undefined>;
+  sendMessage?: (message: { sessionKey: string; text: string }) => unknown;
+  savedSearchStore?: SavedSearchStore;
+  watchStore?: WatchStore;
+  searchCache?: SearchCache;
+  usageStore?: UsageStore;
+  rateLimiter?: RateLimiter;
+  auditSink?: AuditSink;
+  tracerProvider?: BasicTracerProvider;
+  meterProvider?: MeterProvider;
+  secretProvider?: SecretProvider;
+  logger?: { warn: (message: string) => void };
 };
 
 const SAFE_FIELDS = [
@@ -61,7 +103,10 @@ function textResponse(text: string, status = 200, headers?: Record<string, strin
   return new Response(text, { status, headers });
 }
 
-function capabilitiesResponse(fieldAllowlist: string[] = SAFE_FIELDS): Response {
+function capabilitiesResponse(
+  fieldAllowlist: string[] = SAFE_FIELDS,
+  overrides: Record<string, unknown> = {},
+): Response {
   return jsonResponse({
     current_snapshot: "2026-02",
     snapshot_date: "2026-02-01",
@@ -69,15 +114,19 @@ function capabilitiesResponse(fieldAllowlist: string[] = SAFE_FIELDS): Response
     limits: {},
     broad_query_rules: {
       require_cnae: false,
-      require_geo: "city",
+      require_geo: "none",
       free_minimum: "none",
     },
     allowed_sort_fields: ["cnpj"],
     field_allowlist: fieldAllowlist,
+    ...overrides,
   });
 }
 
-function searchResponse(accountsCount = 3): Response {
+function searchResponse(
+  accountsCount = 3,
+  page?: { hasMore: boolean; nextCursor: string | null },
+): Response {
   const accounts = Array.from({ length: accountsCount }, (_, idx) => ({
     cnpj: `00000000000${idx}`,
     legal_name: `Company ${idx}`,
@@ -89,12 +138,12 @@ function searchResponse(accountsCount = 3): Response {
     snapshot: "2026-02",
     snapshot_date: "2026-02-01",
     accounts,
-    has_more: false,
-    next_cursor: null,
+    has_more: page?.hasMore ?? false,
+    next_cursor: page?.nextCursor ?? null,
   });
 }
 
-function exportResponse(): Response {
+function exportResponse(status = "queued"): Response {
   return jsonResponse({
     request_id: "req-export",
     snapshot: "2026-02",
@@ -102,7 +151,7 @@ function exportResponse(): Response {
     preview_accounts: [{ cnpj: "001" }],
     export: {
       export_id: "exp-123",
-      status: "queued",
+      status,
       format: "csv",
       row_count: null,
       size_bytes: null,
@@ -112,10 +161,10 @@ function exportResponse(): Response {
   });
 }
 
-function exportStatusResponse(): Response {
+function exportStatusResponse(status = "ready"): Response {
   return jsonResponse({
     export_id: "exp-123",
-    status: "ready",
+    status,
     format: "csv",
     row_count: 10,
     size_bytes: 100,
@@ -124,6 +173,25 @@ function exportStatusResponse(): Response {
   });
 }
 
+function watchSearchResponse(
+  snapshot: string,
+  accounts: Array<[string, string]>,
+  page?: { hasMore: boolean; nextCursor: string | null },
+): Response {
+  return jsonResponse({
+    request_id: "req-watch",
+    snapshot,
+    snapshot_date: `${snapshot}-01`,
+    accounts: accounts.map(([cnpj, status]) => ({
+      cnpj,
+      trade_name: `Trade ${cnpj.slice(0, 2)}`,
+      registration_status: status,
+    })),
+    has_more: page?.hasMore ?? false,
+    next_cursor: page?.nextCursor ?? null,
+  });
+}
+
 function parseJsonBlock(text: string): Record<string, unknown> {
   const match = text.match(/```json\n([\s\S]+)\n```/);
   if (!match || !match[1]) {
@@ -150,9 +218,21 @@ function setupPlugin(options?: SetupOptions): {
       retryCount: 0,
       retryBackoffMs: 0,
       capabilitiesTtlMs: 60000,
+      savedSearchStore: "memory",
       ...(options?.config ?? {}),
     },
     env: options?.env ?? {},
+    ...(options?.sendMessage ? { sendMessage: options.sendMessage } : {}),
+    ...(options?.savedSearchStore ? { savedSearchStore: options.savedSearchStore } : {}),
+    ...(options?.watchStore ? { watchStore: options.watchStore } : {}),
+    ...(options?.searchCache ? { searchCache: options.searchCache } : {}),
+    ...(options?.usageStore ? { usageStore: options.usageStore } : {}),
+    ...(options?.rateLimiter ? { rateLimiter: options.rateLimiter } : {}),
+    ...(options?.auditSink ? { auditSink: options.auditSink } : {}),
+    ...(options?.tracerProvider ? { tracerProvider: options.tracerProvider } : {}),
+    ...(options?.meterProvider ? { meterProvider: options.meterProvider } : {}),
+    ...(options?.secretProvider ? { secretProvider: options.secretProvider } : {}),
+    ...(options?.logger ? { logger: options.logger } : {}),
     registerTool(name: string, spec: ToolSpec, handler: ToolHandler): unknown {
       handlers.set(name, handler);
       specs.set(name, spec);
@@ -164,16 +244,18 @@ function setupPlugin(options?: SetupOptions): {
   return { plugin, handlers, specs };
 }
 
+// Tool calls name a conversation unless a test passes its own host context.
 async function invokeTool(
   handlers: Map<string, ToolHandler>,
   toolName: string,
   args: unknown,
+  context: unknown = { sessionKey: "session-1" },
 ): Promise<string> {
   const handler = handlers.get(toolName);
   if (!handler) {
     throw new Error(`Tool not registered: ${toolName}`);
   }
-  const result = await handler(args);
+  const result = await handler(args, context);
   return result.content[0]?.text ?? "";
 }
 
@@ -230,19 +312,32 @@ describe("orbio-openclaw plugin", () => {
 
     expect(plugin.id).toBe("orbio-openclaw");
     expect(plugin.name).toBe("Orbio (official)");
-    expect(plugin.tools).toHaveLength(4);
+    expect(plugin.tools).toHaveLength(11);
 
     expect([...handlers.keys()].sort()).toEqual([
+      "orbio_capabilities",
       "orbio_command",
+      "orbio_company",
+      "orbio_explain",
       "orbio_export",
+      "orbio_export_cancel",
+      "orbio_export_list",
       "orbio_export_status",
       "orbio_search",
+      "orbio_search_next",
+      "orbio_usage",
     ]);
 
     expect(specs.get("orbio_search")?.optional).toBe(true);
+    expect(specs.get("orbio_search_next")?.optional).toBe(true);
     expect(specs.get("orbio_export")?.optional).toBe(true);
     expect(specs.get("orbio_export_status")?.optional).toBe(true);
+    expect(specs.get("orbio_export_list")?.optional).toBe(true);
+    expect(specs.get("orbio_export_cancel")?.optional).toBe(true);
     expect(specs.get("orbio_command")?.optional).toBe(true);
+    expect(specs.get("orbio_company")?.optional).toBe(true);
+    expect(specs.get("orbio_capabilities")?.optional).toBe(true);
+    expect(specs.get("orbio_explain")?.optional).toBe(true);
   });
 
   it("fails fast when mandatory config is missing", () => {
@@ -253,6 +348,33 @@ describe("orbio-openclaw plugin", () => {
       "Missing plugin config: apiKey",
     );
     expect(() => registerOrbioPlugin(null)).toThrow("Missing plugin config: baseUrl");
+    expect(() =>
+      setupPlugin({ config: { savedSearchStore: "redis", savedSearchesPath: "/tmp/x.json" } }),
+    ).toThrow('Invalid plugin config: savedSearchStore must be "file" or "memory"');
+    expect(() => setupPlugin({ config: { savedSearchStore: " File " } })).not.toThrow();
+    expect(() => setupPlugin({ config: { searchCache: "sqlite" } })).toThrow(
+      'Invalid plugin config: searchCache must be "off", "memory" or "file"',
+    );
+    expect(() => setupPlugin({ config: { rateLimiter: "memcached" } })).toThrow(
+      'Invalid plugin config: rateLimiter must be "memory" or "redis"',
+    );
+    expect(() => setupPlugin({ config: { rateLimiter: "redis" } })).toThrow(
+      'Missing plugin config: rateLimiterUrl (required when rateLimiter is "redis")',
+    );
+    expect(() =>
+      setupPlugin({ config: { rateLimiter: "redis", rateLimiterUrl: "http://cache:6379" } }),
+    ).toThrow(
+      "Invalid plugin config: rateLimiterUrl. Redis URL must use the redis:// or rediss:// scheme",
+    );
+    expect(() => setupPlugin({ config: { auditLog: "syslog" } })).toThrow(
+      'Invalid plugin config: auditLog must be "off", "file", "stdout" or "webhook"',
+    );
+    expect(() => setupPlugin({ env: { ORBIO_AUDIT_LOG: "webhook" } })).toThrow(
+      'Missing plugin config: auditWebhookUrl (an http(s) URL, required when auditLog is "webhook")',
+    );
+    expect(() =>
+      setupPlugin({ config: { auditLog: "webhook", auditWebhookUrl: "https://siem.test/hook" } }),
+    ).not.toThrow();
   });
 
   it("reads credentials from env and normalizes baseUrl", async () => {
@@ -371,6 +493,135 @@ describe("orbio-openclaw plugin", () => {
     expect(searchHeader.integration).toBe("openclaw");
   });
 
+  it("formats valid CNPJs in rendered accounts and keeps invalid ones as-is", async () => {
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse()).mockResolvedValueOnce(
+      jsonResponse({
+        request_id: "req-search",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        accounts: [{ cnpj: "11222333000181" }, { cnpj: "12abc34501de35" }, { cnpj: "bogus" }, {}],
+        has_more: false,
+        next_cursor: null,
+      }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_search", { query_text: "cnpj display" });
+    expect(parseJsonBlock(text).accounts).toEqual([
+      { cnpj: "11.222.333/0001-81" },
+      { cnpj: "12.ABC.345/01DE-35" },
+      { cnpj: "bogus" },
+      {},
+    ]);
+  });
+
+  it("picks the rendering view from the channel and the --view flag", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith("/v1/capabilities") ? capabilitiesResponse() : searchResponse(2),
+    );
+
+    const slack = setupPlugin({ config: { channel: "slack" } });
+    const table = await invokeTool(slack.handlers, "orbio_search", { query_text: "x" });
+    expect(table).toContain("| CNPJ | Legal name |");
+
+    const json = await invokeTool(slack.handlers, "orbio_command", {
+      command: "search x --view json",
+    });
+    expect(parseJsonBlock(json).result_count).toBe(2);
+
+    const compact = await invokeTool(slack.handlers, "orbio_command", {
+      command: "search x --view COMPACT",
+    });
+    expect(compact).toContain("1. Company 0 · 000000000000 · email ✓ · phone ✓");
+
+    const search = slack.handlers.get("orbio_search") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    const fromContext = await search({ query_text: "x" }, { messageChannel: "Telegram" });
+    expect(fromContext.content[0]?.text).toContain("1. Company 0");
+
+    const cards = await invokeTool(slack.handlers, "orbio_search", {
+      query_text: "x",
+      view: "cards",
+    });
+    expect(cards).toContain("*Company 0*");
+  });
+
+  it("applies views to export, status and company renderers", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(exportStatusResponse())
+      .mockResolvedValueOnce(exportStatusResponse("canceled"))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          request_id: "req-company",
+          snapshot: "2026-02",
+          snapshot_date: "2026-02-01",
+          account: { cnpj: "11222333000181", uf: "RJ" },
+        }),
+      )
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "c" }))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({ config: { channel: "whatsapp" } });
+    const exported = await invokeTool(handlers, "orbio_command", { command: "export agencias" });
+    expect(exported).toContain("Export requested.\n\n1. 001");
+    expect(exported).toContain("export_id=exp-123 · status=queued · format=csv");
+
+    const status = await invokeTool(handlers, "orbio_command", {
+      command: "export-status exp-123 --view table",
+    });
+    expect(status).toContain("| status | ready |");
+
+    const canceled = await invokeTool(handlers, "orbio_export_cancel", { export_id: "exp-123" });
+    expect(canceled).toContain("Export cancel requested:\n\n- export_id: exp-123");
+
+    const company = await invokeTool(handlers, "orbio_command", {
+      command: "company 11222333000181 --view json",
+    });
+    const companyBody = parseJsonBlock(company);
+    expect(companyBody.account).toEqual({
+      cnpj: "11.222.333/0001-81",
+      uf: "RJ",
+      uf_name: "Rio de Janeiro",
+    });
+
+    await invokeTool(handlers, "orbio_command", { command: "search x --view json" });
+    const next = await invokeTool(handlers, "orbio_command", { command: "more --view json" });
+    expect(parseJsonBlock(next).result_count).toBe(1);
+  });
+
+  it("rejects unknown views", async () => {
+    const { handlers } = setupPlugin();
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "search x --view html" }),
+    ).resolves.toBe("Invalid --view value. Use json|table|cards|compact.");
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "search --view table" }),
+    ).resolves.toContain("Missing query text.");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps quotes and backslashes in tokens next to --view and --workspace", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_command", {
+      command: `search 'acme "tech"' --view json`,
+    });
+    expect(requestBodyAt(1)).toMatchObject({ query_text: 'acme "tech"' });
+
+    await invokeTool(handlers, "orbio_command", {
+      command: "search c\\d --workspace workspace-1 --view table",
+    });
+    expect(requestBodyAt(2)).toMatchObject({ query_text: "c\\d" });
+  });
+
   it("allows opting out of execution-context header", async () => {
     fetchMock
       .mockResolvedValueOnce(capabilitiesResponse())
@@ -423,203 +674,3163 @@ describe("orbio-openclaw plugin", () => {
     expect(payload.fields).toEqual(SAFE_FIELDS);
   });
 
-  it("creates exports with idempotency key and format flags", async () => {
+  it("fetches the next page of the last search with the same fields", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
-      .mockResolvedValueOnce(exportResponse());
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(2, { hasMore: true, nextCursor: "cursor-2" }))
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: false, nextCursor: null }));
 
     const { handlers } = setupPlugin();
-    const text = await invokeTool(handlers, "orbio_export", {
-      query_text: "agencias de marketing em sp",
-      format: "html",
+    await invokeTool(handlers, "orbio_search", {
+      query_text: "fintech",
+      limit: 2,
       with_contact: true,
-      limit: 30,
     });
 
-    expect(text).toContain("Export requested.");
-    const payload = parseJsonBlock(text);
-    expect((payload.export as Record<string, unknown>).export_id).toBe("exp-123");
-    expect((payload.fields as string[]).includes("email")).toBe(true);
+    const text = await invokeTool(handlers, "orbio_search_next", {});
+    expect(text).toContain("Search completed (next page).");
+    expect(text).toContain("restricted by plan");
+    expect(parseJsonBlock(text).fields).toEqual(SAFE_FIELDS);
 
-    const exportInit = requestInitAt(1);
-    const headers = headerRecord(exportInit);
-    expect(headers["Idempotency-Key"]).toMatch(/^openclaw:export:/);
+    const nextBody = requestBodyAt(2);
+    expect(nextBody.query_text).toBe("fintech");
+    expect(nextBody.limit).toBe(2);
+    expect(nextBody.cursor).toBe("cursor-2");
+    expect((nextBody.output as Record<string, unknown>).fields).toEqual(SAFE_FIELDS);
 
-    const exportBody = requestBodyAt(1);
-    expect((exportBody.output as Record<string, unknown>).format).toBe("html");
-    expect(exportBody.limit).toBe(30);
+    await expect(invokeTool(handlers, "orbio_search_next", {})).resolves.toBe(
+      "No more results for the last search.",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
   });
 
-  it("uses csv as default export format when omitted", async () => {
+  it("keeps pagination state per conversation", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS))
-      .mockResolvedValueOnce(exportResponse());
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-a" }))
+      .mockResolvedValueOnce(searchResponse(1));
 
     const { handlers } = setupPlugin();
-    await invokeTool(handlers, "orbio_export", {
-      query_text: "default format export",
-      with_contact: false,
-    });
+    const first = await invokeTool(
+      handlers,
+      "orbio_command",
+      { command: "search software" },
+      { session_key: "conv-a" },
+    );
+    expect(first).toContain("Search completed.");
 
-    const exportBody = requestBodyAt(1);
-    expect((exportBody.output as Record<string, unknown>).format).toBe("csv");
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "more" }, { sessionKey: "conv-b" }),
+    ).resolves.toContain("No previous search in this conversation.");
+    // A conversation named in the arguments does not reach another conversation's search.
+    await expect(
+      invokeTool(
+        handlers,
+        "orbio_command",
+        { command: "more", session_key: "conv-a" },
+        { sessionKey: "conv-b" },
+      ),
+    ).resolves.toContain("No previous search in this conversation.");
+
+    const next = await invokeTool(
+      handlers,
+      "orbio_command",
+      { command: "next" },
+      { sessionKey: "conv-a" },
+    );
+    expect(next).toContain("Search completed (next page).");
+    expect(requestBodyAt(2).cursor).toBe("cursor-a");
   });
 
-  it("adds masking note for exports when contact is requested but unavailable", async () => {
-    fetchMock.mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS)).mockResolvedValueOnce(exportResponse());
+  it("remembers nothing when the host names no conversation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-a" }));
 
-    const { handlers } = setupPlugin();
-    const text = await invokeTool(handlers, "orbio_export", {
-      query_text: "restricted contacts",
-      with_contact: true,
+    const { handlers } = setupPlugin({ sendMessage: vi.fn() });
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command }, {});
+    await expect(run("search software")).resolves.toContain("Search completed.");
+    await expect(run("more")).resolves.toBe(
+      "No previous search in this conversation. Run /orbio search <query> first.",
+    );
+    await expect(run("save leads")).resolves.toMatch(/^No previous search in this conversation/);
+    await expect(run("watch leads software")).resolves.toBe(
+      "Watches need to know which conversation to post to; this chat did not say.",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads the conversation from the handler context", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-ctx" }))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers, specs } = setupPlugin();
+    expect(specs.get("orbio_search_next")?.parameters).toMatchObject({
+      properties: { view: expect.anything() },
     });
+    expect(specs.get("orbio_search_next")?.parameters).not.toHaveProperty("properties.session_key");
+    await invokeTool(handlers, "orbio_search", { query_text: "agro" }, { sessionKey: "conv-ctx" });
 
-    expect(text).toContain("export uses masked fields only.");
+    await expect(invokeTool(handlers, "orbio_search_next", {})).resolves.toContain(
+      "No previous search in this conversation.",
+    );
+    await expect(
+      invokeTool(handlers, "orbio_search_next", { session_key: "conv-ctx" }),
+    ).resolves.toContain("No previous search in this conversation.");
+    const next = await invokeTool(handlers, "orbio_search_next", {}, { sessionKey: "conv-ctx" });
+    expect(next).toContain("Search completed (next page).");
   });
 
-  it("returns export status payload from endpoint", async () => {
-    fetchMock.mockResolvedValueOnce(exportStatusResponse());
-    const { handlers } = setupPlugin();
+  it("forgets the oldest conversations beyond the remembered-search cap", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith("/v1/capabilities")
+        ? capabilitiesResponse()
+        : searchResponse(1, { hasMore: true, nextCursor: "cursor" }),
+    );
 
-    const text = await invokeTool(handlers, "orbio_export_status", { export_id: "exp-123" });
-    expect(text).toContain("Export status:");
+    const { handlers } = setupPlugin({ config: { maxRequestsPerMinute: 1000 } });
+    for (let idx = 0; idx <= 500; idx += 1) {
+      await invokeTool(
+        handlers,
+        "orbio_command",
+        { command: "search q" },
+        { sessionKey: `conv-${idx}` },
+      );
+    }
 
-    const payload = parseJsonBlock(text);
-    expect(payload.export_id).toBe("exp-123");
-    expect(payload.status).toBe("ready");
-    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://api.orbio.test/v1/exports/exp-123");
+    await expect(
+      invokeTool(handlers, "orbio_search_next", {}, { sessionKey: "conv-0" }),
+    ).resolves.toContain("No previous search in this conversation.");
+    await expect(
+      invokeTool(handlers, "orbio_search_next", {}, { sessionKey: "conv-500" }),
+    ).resolves.toContain("next page");
   });
 
-  it("supports command-dispatch with quoted args and aliases", async () => {
+  it("sends normalized structured filters from command flags", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
-      .mockResolvedValueOnce(searchResponse(2))
-      .mockResolvedValueOnce(exportStatusResponse());
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-f" }))
+      .mockResolvedValueOnce(searchResponse(1));
 
     const { handlers } = setupPlugin();
-    const searchText = await invokeTool(handlers, "orbio_command", {
-      command: 'search "software b2b" --limit 7 --with-contact',
+    const text = await invokeTool(handlers, "orbio_command", {
+      command:
+        "search software --uf sp,RJ --uf SP --city 3550308 --cnae 6201-5/01 --size me " +
+        "--size 3 --status Ativa --started-after 2020-01-01",
     });
-    expect(searchText).toContain("Search completed.");
-
-    const searchBody = requestBodyAt(1);
-    expect(searchBody.query_text).toBe("software b2b");
-    expect(searchBody.limit).toBe(7);
+    expect(text).toContain("Search completed.");
 
-    const statusText = await invokeTool(handlers, "orbio_command", {
-      commandName: "status exp-123",
+    expect(requestBodyAt(1).filters).toEqual({
+      uf: ["SP", "RJ"],
+      municipality_ibge: ["3550308"],
+      cnae: ["6201501"],
+      company_size_code: ["01", "03"],
+      registration_status: ["02"],
+      started_after: "2020-01-01",
     });
-    expect(statusText).toContain("Export status:");
+
+    await invokeTool(handlers, "orbio_command", { command: "more" });
+    expect((requestBodyAt(2).filters as Record<string, unknown>).uf).toEqual(["SP", "RJ"]);
   });
 
-  it("supports export through command dispatch", async () => {
+  it("omits filters from the request body when none are given", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
-      .mockResolvedValueOnce(exportResponse());
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
 
     const { handlers } = setupPlugin();
-    const exportText = await invokeTool(handlers, "orbio_command", {
-      commandArg: "export 'agencias em sp' --format html --limit 9 --with-contact",
-    });
-
-    expect(exportText).toContain("Export requested.");
-    const exportBody = requestBodyAt(1);
-    expect(exportBody.query_text).toBe("agencias em sp");
-    expect(exportBody.limit).toBe(9);
-    expect((exportBody.output as Record<string, unknown>).format).toBe("html");
+    await invokeTool(handlers, "orbio_search", { query_text: "software", filters: {} });
+    expect(requestBodyAt(1)).not.toHaveProperty("filters");
   });
 
-  it("returns parser-level command validation errors", async () => {
-    const { handlers } = setupPlugin();
-
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command: "export hello --format xlsx",
-      }),
-    ).resolves.toContain("Invalid --format value");
-
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command: "search hello --limit nope",
-      }),
-    ).resolves.toContain("Invalid --limit value");
-
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command: "search hello --limit",
-      }),
-    ).resolves.toContain("Invalid --limit value");
-
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command: "export-status",
-      }),
-    ).resolves.toContain("Missing export_id");
-
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command_arg: "unknown test",
-      }),
-    ).resolves.toContain("Unknown command");
+  it("sends structured filters on exports", async () => {
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse()).mockResolvedValueOnce(exportResponse());
 
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command_name: "search",
-      }),
-    ).resolves.toContain("Missing query text");
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_command", {
+      command: "export agencias --city 3550308 --status baixada",
+    });
+    expect(requestBodyAt(1).filters).toEqual({
+      municipality_ibge: ["3550308"],
+      registration_status: ["08"],
+    });
+  });
 
-    await expect(invokeTool(handlers, "orbio_command", {})).resolves.toContain("Usage:");
+  it("requests only the selected fields and names the ones dropped", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        capabilitiesResponse([...SAFE_FIELDS, "share_capital", "email", "phone1"]),
+      )
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-f" }))
+      .mockResolvedValueOnce(searchResponse(1));
 
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command: "export hello --format",
-      }),
-    ).resolves.toContain("Invalid --format value");
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", {
+      command: "search software --fields Trade_Name,started_at,share_capital,revenue,email",
+    });
+    expect(text).toContain(
+      "Search completed.\n" +
+        "Note: dropped fields not available on this plan: revenue.\n" +
+        "Note: dropped contact fields (add --with-contact to request them): email.",
+    );
+    expect((requestBodyAt(1).output as Record<string, unknown>).fields).toEqual([
+      "cnpj",
+      "trade_name",
+      "started_at",
+      "share_capital",
+    ]);
 
-    await expect(
-      invokeTool(handlers, "orbio_command", {
-        command_name: "   ",
-      }),
-    ).resolves.toContain("Usage:");
+    await invokeTool(handlers, "orbio_command", { command: "more" });
+    expect((requestBodyAt(2).output as Record<string, unknown>).fields).toEqual([
+      "cnpj",
+      "trade_name",
+      "started_at",
+      "share_capital",
+    ]);
   });
 
-  it("enforces plugin-side rate limiting per workspace and tool", async () => {
+  it("combines selected fields with --with-contact", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse())
-      .mockResolvedValueOnce(searchResponse(1));
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, "email", "phone1"]))
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(exportResponse());
 
-    const { handlers } = setupPlugin({
-      config: { maxRequestsPerMinute: 1 },
+    const { handlers } = setupPlugin({ config: { exportConfirmation: { contacts: false } } });
+    await invokeTool(handlers, "orbio_export", {
+      query_text: "software",
+      fields: ["legal_name", "phone1"],
+      with_contact: true,
     });
+    expect((requestBodyAt(1).output as Record<string, unknown>).fields).toEqual([
+      "cnpj",
+      "legal_name",
+      "phone1",
+    ]);
 
-    const first = await invokeTool(handlers, "orbio_search", { query_text: "first" });
-    const second = await invokeTool(handlers, "orbio_search", { query_text: "second" });
+    const text = await invokeTool(handlers, "orbio_export", {
+      query_text: "software",
+      fields: ["legal_name"],
+      with_contact: true,
+    });
+    expect(text).toContain("Export requested.\n\n");
+    expect((requestBodyAt(2).output as Record<string, unknown>).fields).toEqual([
+      "cnpj",
+      "legal_name",
+      "email",
+      "phone1",
+    ]);
+  });
 
-    expect(first).toContain("Search completed.");
-    expect(second).toContain("Rate limited by plugin policy");
-    expect(fetchMock).toHaveBeenCalledTimes(2);
+  it("rejects field selections with nothing available on the plan", async () => {
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse(["legal_name"]));
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_search", {
+      query_text: "x",
+      fields: ["Revenue", "revenue", "email"],
+    });
+    expect(text).toBe("None of the requested fields are available on this plan: revenue, email.");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
   });
 
-  it("caches capabilities for the configured TTL", async () => {
+  it("sends validated sort keys on search, next page and export", async () => {
     fetchMock
-      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, { allowed_sort_fields: ["cnpj", "started_at"] }),
+      )
+      .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "cursor-s" }))
       .mockResolvedValueOnce(searchResponse(1))
-      .mockResolvedValueOnce(searchResponse(1));
+      .mockResolvedValueOnce(exportResponse());
 
-    const { handlers } = setupPlugin({
-      config: { capabilitiesTtlMs: 120000 },
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_command", {
+      command: "search software --sort started_at:DESC,cnpj",
     });
+    expect(requestBodyAt(1).sort).toEqual([
+      { field: "started_at", direction: "desc" },
+      { field: "cnpj", direction: "asc" },
+    ]);
 
-    await invokeTool(handlers, "orbio_search", { query_text: "a" });
-    await invokeTool(handlers, "orbio_search", { query_text: "b" });
+    await invokeTool(handlers, "orbio_command", { command: "more" });
+    expect(requestBodyAt(2).sort).toEqual(requestBodyAt(1).sort);
 
-    const capabilityCalls = fetchMock.mock.calls.filter((call) =>
-      String(call[0]).endsWith("/v1/capabilities"),
+    await invokeTool(handlers, "orbio_export", {
+      query_text: "software",
+      sort: [{ field: " CNPJ ", direction: "desc" }],
+    });
+    expect(requestBodyAt(3).sort).toEqual([{ field: "cnpj", direction: "desc" }]);
+  });
+
+  it.each([
+    {
+      allowed: ["cnpj", "started_at"],
+      sort: [{ field: "revenue" }],
+      expected: "Unsupported sort field: revenue. Allowed: cnpj, started_at.",
+    },
+    {
+      allowed: ["cnpj"],
+      sort: [{ field: "cnpj" }, { field: "CNPJ", direction: "desc" as const }],
+      expected: "Duplicate sort field: cnpj.",
+    },
+    {
+      allowed: [],
+      sort: [{ field: "cnpj" }],
+      expected: "Sorting is not available on this plan.",
+    },
+    {
+      allowed: undefined,
+      sort: [{ field: "cnpj" }],
+      expected: "Sorting is not available on this plan.",
+    },
+  ])("rejects sort keys locally: $expected", async ({ allowed, sort, expected }) => {
+    fetchMock.mockResolvedValueOnce(
+      capabilitiesResponse(SAFE_FIELDS, { allowed_sort_fields: allowed }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_search", { query_text: "x", sort });
+    expect(text).toBe(expected);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("saves the last search and runs it again with overrides", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        capabilitiesResponse([...SAFE_FIELDS, "email"], { allowed_sort_fields: ["started_at"] }),
+      )
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(exportResponse("ready"))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({ config: { exportConfirmation: { contacts: false } } });
+    await invokeTool(handlers, "orbio_command", {
+      command:
+        "search software b2b --city 3550308 --cnae 6201501 --sort started_at:desc " +
+        "--fields trade_name --limit 30 --with-contact",
+    });
+    const saved = await invokeTool(handlers, "orbio_command", { command: "save Weekly-SP" });
+    expect(saved).toBe(
+      'Saved search "weekly-sp": software b2b --city 3550308 --cnae 6201501 ' +
+        "--sort started_at:desc --fields trade_name --limit 30 --with-contact\n" +
+        "Run it with /orbio run weekly-sp (add --export to export).",
+    );
+
+    await invokeTool(handlers, "orbio_command", { command: "run weekly-sp" });
+    expect(requestBodyAt(2)).toEqual({ ...requestBodyAt(1) });
+
+    await invokeTool(handlers, "orbio_command", {
+      command: "run weekly-sp agencias --city 3304557 --limit 5",
+    });
+    expect(requestBodyAt(3)).toMatchObject({
+      query_text: "agencias",
+      filters: { municipality_ibge: ["3304557"], cnae: ["6201501"] },
+      sort: [{ field: "started_at", direction: "desc" }],
+      limit: 5,
+    });
+
+    await invokeTool(handlers, "orbio_command", {
+      command: "run weekly-sp --export --format html",
+    });
+    expect(String(fetchMock.mock.calls[4]?.[0])).toContain("/v1/exports");
+    expect(requestBodyAt(4)).toMatchObject({
+      query_text: "software b2b",
+      output: { format: "html", fields: ["cnpj", "trade_name", "email"] },
+    });
+
+    await invokeTool(handlers, "orbio_command", { command: "run weekly-sp --no-contact" });
+    expect(requestBodyAt(5)).toMatchObject({ query_text: "software b2b", limit: 30 });
+    expect(JSON.stringify(requestBodyAt(5))).not.toContain("email");
+  });
+
+  it("saves explicit queries and lists, updates and deletes them", async () => {
+    const { handlers } = setupPlugin();
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command });
+
+    await expect(run("saved")).resolves.toBe(
+      "No saved searches yet. Save one with /orbio save <name> after a search.",
+    );
+    await expect(
+      run('save rio agencias --city "Rio de Janeiro/RJ" --status ativa'),
+    ).resolves.toContain('Saved search "rio": agencias --city 3304557 --status 02\n');
+    await expect(run("save acme software --started-after 2020-01-01")).resolves.toContain(
+      'Saved search "acme": software --started-after 2020-01-01\n',
+    );
+    await expect(run("save rio agencias --uf RJ")).resolves.toContain(
+      'Updated search "rio": agencias --uf RJ\n',
+    );
+
+    const list = await run("saved");
+    expect(list).toMatch(
+      /^Saved searches \(2\):\n- acme: software --started-after 2020-01-01 \(updated \d{4}-\d{2}-\d{2}\)\n- rio: agencias --uf RJ \(updated/,
+    );
+    expect(list.endsWith("Run one with /orbio run <name> [--export].")).toBe(true);
+
+    await expect(run("saved delete RIO")).resolves.toBe('Deleted saved search "rio".');
+    await expect(run("saved rm rio")).resolves.toBe('No saved search named "rio".');
+    await expect(run("run rio")).resolves.toBe('No saved search named "rio". See /orbio saved.');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps saved searches per workspace in the shared file store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "orbio-saved-"));
+    const config = { savedSearchStore: "file", savedSearchesPath: join(dir, "saved.json") };
+    try {
+      const first = setupPlugin({ config: { ...config, workspaceId: "ws-a" } });
+      const second = setupPlugin({ config: { ...config, workspaceId: "ws-b" } });
+      await invokeTool(first.handlers, "orbio_command", { command: "save mine software" });
+
+      await expect(
+        invokeTool(first.handlers, "orbio_command", { command: "saved" }),
+      ).resolves.toContain("- mine: software");
+      await expect(
+        invokeTool(second.handlers, "orbio_command", { command: "saved" }),
+      ).resolves.toContain("No saved searches yet.");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("uses a host-provided saved search store", async () => {
+    const store = createMemorySavedSearchStore();
+    const put = vi.spyOn(store, "put");
+    const { handlers } = setupPlugin({ savedSearchStore: store });
+    await invokeTool(handlers, "orbio_command", { command: "save hosted software" });
+    expect(put).toHaveBeenCalledWith(
+      "workspace-1",
+      expect.objectContaining({ name: "hosted", query_text: "software" }),
+    );
+  });
+
+  it.each([
+    { command: "save", expected: "Missing name. Use: /orbio save <name> [<query> [filters]]" },
+    { command: "save x --uf SP", expected: "Missing query text. Use: /orbio save <name> <query>" },
+    { command: "save x q --uf", expected: "Missing value for --uf." },
+    { command: "save bad!name q", expected: "Invalid saved search name: bad!name." },
+    { command: "save later", expected: "No previous search in this conversation to save." },
+    { command: "saved purge", expected: "Use: /orbio saved [delete <name>]" },
+    { command: "saved delete", expected: "Use: /orbio saved [delete <name>]" },
+    { command: "run", expected: "Missing name. Use: /orbio run <name> [--export] [overrides]" },
+    { command: "run x --limit 0", expected: "Invalid --limit value." },
+    { command: "save x q --city Atlantis", expected: "Invalid --city value: Atlantis." },
+  ])("rejects invalid saved-search command: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", { command });
+    expect(text).toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("caps the number of saved searches per workspace", async () => {
+    const { handlers } = setupPlugin({ config: { maxRequestsPerMinute: 600 } });
+    for (let idx = 0; idx < 100; idx += 1) {
+      await invokeTool(handlers, "orbio_command", { command: `save s${idx} q` });
+    }
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "save one-more q" }),
+    ).resolves.toBe(
+      "Saved search limit reached (100). Delete one with /orbio saved delete <name>.",
+    );
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "save s0 updated" }),
+    ).resolves.toContain('Updated search "s0"');
+  });
+
+  it("watches a query and reports new companies and status changes on a new snapshot", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(
+        watchSearchResponse(
+          "2026-02",
+          [
+            ["11222333000181", "02"],
+            ["22333444000181", "02"],
+          ],
+          { hasMore: true, nextCursor: "c2" },
+        ),
+      )
+      .mockResolvedValueOnce(
+        watchSearchResponse("2026-02", [
+          ["33444555000181", "02"],
+          ["00000000000000", "02"],
+        ]),
+      );
+
+    const { handlers } = setupPlugin({ sendMessage });
+    const command = handlers.get("orbio_command") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    const run = async (text: string) =>
+      (await command({ command: text }, { sessionKey: "conv-watch" })).content[0]?.text;
+
+    await expect(run("watch ti-sp software --city 3550308 --status ativa")).resolves.toBe(
+      'Watching "ti-sp": 4 companies in snapshot 2026-02 (data as of 2026-02-01).\n' +
+        "New companies and status changes will be posted here when a new snapshot is published.",
+    );
+    expect(requestBodyAt(1)).toEqual({
+      query_text: "software",
+      filters: { municipality_ibge: ["3550308"], registration_status: ["02"] },
+      limit: 500,
+      output: {
+        format: "json",
+        include_explain: false,
+        fields: ["cnpj", "legal_name", "trade_name", "registration_status"],
+      },
+    });
+    expect(requestBodyAt(2)).toMatchObject({ cursor: "c2" });
+
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse());
+    await vi.advanceTimersByTimeAsync(3_600_000);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    fetchMock
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, {
+          current_snapshot: "2026-03",
+          snapshot_date: "2026-03-01",
+        }),
+      )
+      .mockResolvedValueOnce(
+        watchSearchResponse("2026-03", [
+          ["11222333000181", "02"],
+          ["22333444000181", "04"],
+          ["44555666000181", "02"],
+        ]),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          request_id: "req-lookup",
+          snapshot: "2026-03",
+          snapshot_date: "2026-03-01",
+          account: { cnpj: "33444555000181", legal_name: "Terceira SA", registration_status: "08" },
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ detail: "not found" }, 404));
+    await vi.advanceTimersByTimeAsync(3_600_000);
+
+    expect(String(fetchMock.mock.calls[6]?.[0])).toContain(
+      "/v1/accounts/33444555000181?fields=cnpj%2Clegal_name%2Ctrade_name%2Cregistration_status",
+    );
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith({
+      sessionKey: "conv-watch",
+      text: [
+        'Orbio watch "ti-sp": snapshot 2026-03 (data as of 2026-03-01) compared with 2026-02.',
+        "",
+        "New companies (1):",
+        "- Trade 44 · 44.555.666/0001-81 · Ativa",
+        "",
+        "Status changes (2):",
+        "- Trade 22 · 22.333.444/0001-81 · Ativa → Inapta",
+        "- Terceira SA · 33.444.555/0001-81 · Ativa → Baixada",
+        "",
+        "No longer matching: 1.",
+      ].join("\n"),
+    });
+
+    const list = await run("watches");
+    expect(list).toMatch(
+      /^Watches \(1\):\n- ti-sp: 3 companies · snapshot 2026-03 · checked \d{4}-\d{2}-\d{2}\n {2}software --city 3550308 --status 02\n/,
+    );
+    await expect(run("unwatch TI-SP")).resolves.toBe(
+      'Stopped watching "ti-sp". The saved search is kept.',
+    );
+    await expect(run("unwatch ti-sp")).resolves.toBe('No watch named "ti-sp".');
+    await expect(run("watches")).resolves.toBe(
+      "No watches yet. Watch a saved search with /orbio watch <name>.",
+    );
+
+    await vi.advanceTimersByTimeAsync(7_200_000);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+
+  it("re-checks watches when capabilities show a new snapshot and reports failures once", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    const newSnapshot = { current_snapshot: "2026-03", snapshot_date: "2026-03-01" };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(watchSearchResponse("2026-02", [["11222333000181", "02"]]));
+    const usageStore = { add: vi.fn().mockResolvedValue(undefined), list: vi.fn() };
+
+    const { handlers } = setupPlugin({ sendMessage, usageStore });
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command });
+    await run("save acme software --city 3550308");
+    await expect(run("watch acme")).resolves.toContain('Watching "acme": 1 companies');
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, newSnapshot))
+      .mockResolvedValueOnce(jsonResponse({ detail: "down" }, 503));
+    await run("capabilities");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(usageStore.add.mock.calls.map(([, entry]) => entry.tool)).toEqual([
+      "orbio_command",
+      "orbio_command",
+      "orbio_command",
+      "background:watch",
+    ]);
+    expect(sendMessage).toHaveBeenCalledWith({
+      sessionKey: "session-1",
+      text: 'Orbio watch "acme" could not be checked against snapshot 2026-03: Orbio dependency is temporarily unavailable. Retry shortly. It will be retried.',
+    });
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, newSnapshot))
+      .mockResolvedValueOnce(jsonResponse({ detail: "down" }, 503))
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, newSnapshot))
+      .mockResolvedValueOnce(watchSearchResponse("2026-03", [["11222333000181", "08"]]));
+    await vi.advanceTimersByTimeAsync(3_600_000);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(3_600_000);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(sendMessage).toHaveBeenLastCalledWith({
+      sessionKey: "session-1",
+      text: expect.stringContaining(
+        "Status changes (1):\n- Trade 11 · 11.222.333/0001-81 · Ativa → Baixada",
+      ),
+    });
+
+    await expect(run("saved delete acme")).resolves.toBe(
+      'Deleted saved search "acme" and stopped watching it.',
+    );
+    await expect(run("watches")).resolves.toContain("No watches yet.");
+  });
+
+  it("re-baselines existing watches and only alerts when something changed", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn().mockRejectedValue(new Error("channel offline"));
+    const page = (snapshot: string, accounts: Array<Record<string, unknown>>) =>
+      jsonResponse({
+        request_id: "req-watch",
+        snapshot,
+        snapshot_date: `${snapshot}-01`,
+        accounts,
+        has_more: false,
+        next_cursor: null,
+      });
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(page("2026-02", [{ cnpj: "x1" }]))
+      .mockResolvedValueOnce(page("2026-02", [{ cnpj: "x1" }]));
+
+    const { handlers } = setupPlugin({ sendMessage });
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command });
+    await expect(run("watch w q --city 3550308")).resolves.toContain('Watching "w": 1 companies');
+    await expect(run("watch w")).resolves.toContain('Updated watch "w": 1 companies');
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { current_snapshot: "2026-03" }))
+      .mockResolvedValueOnce(page("2026-03", [{ cnpj: "x1" }]))
+      .mockResolvedValueOnce(jsonResponse({ detail: "down" }, 503))
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { current_snapshot: "2026-04" }))
+      .mockResolvedValueOnce(page("2026-04", [{ cnpj: "x2", legal_name: "Nova" }]))
+      .mockResolvedValueOnce(
+        jsonResponse({ request_id: "r", snapshot: "2026-04", snapshot_date: "2026-04-01" }),
+      );
+    await vi.advanceTimersByTimeAsync(7_200_000);
+    expect(sendMessage).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(3_600_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(9);
+    expect(sendMessage).toHaveBeenCalledWith({
+      sessionKey: "session-1",
+      text: [
+        'Orbio watch "w": snapshot 2026-04 (data as of 2026-04-01) compared with 2026-03.',
+        "",
+        "New companies (1):",
+        "- Nova · x2 · unknown",
+        "",
+        "No longer matching: 1.",
+      ].join("\n"),
+    });
+  });
+
+  it("resumes stored watches and drops the ones whose saved search is gone", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    const watchStore = createMemoryWatchStore();
+    const watch: SearchWatch = {
+      name: "gone",
+      session_key: "conv-old",
+      snapshot: "2026-01",
+      snapshot_date: "2026-01-01",
+      companies: { "11222333000181": "02" },
+      truncated: false,
+      created_at: "2026-01-02T00:00:00.000Z",
+      checked_at: "2026-01-02T00:00:00.000Z",
+    };
+    await watchStore.put("workspace-1", watch);
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse());
+
+    const { handlers } = setupPlugin({ sendMessage, watchStore });
+    await expect(invokeTool(handlers, "orbio_command", { command: "watches" })).resolves.toContain(
+      "- gone: 1 companies · snapshot 2026-01 · checked 2026-01-02\n  (saved search missing)",
+    );
+    await vi.advanceTimersByTimeAsync(3_600_000);
+
+    expect(sendMessage).toHaveBeenCalledWith({
+      sessionKey: "conv-old",
+      text: 'Orbio watch "gone" was removed because its saved search no longer exists.',
+    });
+    expect(await watchStore.list("workspace-1")).toEqual([]);
+  });
+
+  it("tracks at most 5000 companies per watch and shortens long alerts", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    const accounts = (prefix: string, count: number): Array<[string, string]> =>
+      Array.from({ length: count }, (_, idx) => [`${prefix}${idx}`, "02"]);
+    const page = { hasMore: true, nextCursor: "more" };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(watchSearchResponse("2026-02", accounts("b", 5000), page));
+
+    const { handlers } = setupPlugin({ sendMessage });
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command });
+    await expect(run("watch big software --city 3550308")).resolves.toContain(
+      "5000 companies in snapshot 2026-02 (data as of 2026-02-01).\nNote: only the first 5000 matches are tracked.",
+    );
+    await expect(run("watches")).resolves.toContain("- big: 5000+ companies");
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { current_snapshot: "2026-03" }))
+      .mockResolvedValueOnce(
+        watchSearchResponse("2026-03", [...accounts("b", 5000), ...accounts("n", 25)], page),
+      );
+    await vi.advanceTimersByTimeAsync(3_600_000);
+
+    const text = String(sendMessage.mock.calls[0]?.[0]?.text);
+    expect(text).toContain("New companies (25):\n- Trade n0 · n0 · Ativa\n");
+    expect(text).toContain("- Trade n1 · n19 · Ativa\n… and 5 more");
+    expect(text.endsWith("Note: only the first 5000 matches are tracked.")).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("caps the number of watches per workspace", async () => {
+    const watchStore = createMemoryWatchStore();
+    for (let idx = 0; idx < 20; idx += 1) {
+      await watchStore.put("workspace-1", {
+        name: `w${idx}`,
+        session_key: "default",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        companies: {},
+        truncated: false,
+        created_at: "2026-02-02T00:00:00.000Z",
+        checked_at: "2026-02-02T00:00:00.000Z",
+      });
+    }
+    const { handlers } = setupPlugin({ sendMessage: vi.fn(), watchStore });
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "watch one-more software" }),
+    ).resolves.toBe("Watch limit reached (20). Stop one with /orbio unwatch <name>.");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("needs a host that can post messages to watch", async () => {
+    const { handlers } = setupPlugin();
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "watch acme software" }),
+    ).resolves.toBe("Watches need a host that can post messages to the chat; this host cannot.");
+  });
+
+  it.each([
+    { command: "watch", expected: "Missing name. Use: /orbio watch <name> [<query> [filters]]" },
+    {
+      command: "watch x --uf SP",
+      expected: "Missing query text. Use: /orbio watch <name> <query>",
+    },
+    { command: "watch x q --sort", expected: "Missing value for --sort." },
+    { command: "watch bad!name", expected: "Invalid saved search name: bad!name." },
+    { command: "watch later", expected: 'No saved search named "later". Use /orbio watch later' },
+    { command: "unwatch", expected: "Missing name. Use: /orbio unwatch <name>" },
+  ])("rejects invalid watch command: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin({ sendMessage: vi.fn() });
+    const text = await invokeTool(handlers, "orbio_command", { command });
+    expect(text).toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("does not cache searches unless enabled", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_search", { query_text: "software" });
+    const text = await invokeTool(handlers, "orbio_search", { query_text: "software" });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(parseJsonBlock(text).cached).toBeUndefined();
+  });
+
+  it("serves repeated searches from the cache until the snapshot changes", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+      .mockResolvedValueOnce(searchResponse(2, { hasMore: true, nextCursor: "c1" }))
+      .mockResolvedValueOnce(searchResponse(2))
+      .mockResolvedValueOnce(searchResponse(2))
+      .mockResolvedValueOnce(searchResponse(2));
+
+    const { handlers } = setupPlugin({ config: { searchCache: "memory" } });
+    const search = (args: Record<string, unknown>) => invokeTool(handlers, "orbio_search", args);
+    await search({ query_text: "Software  B2B" });
+    const cached = await search({ query_text: "software b2b " });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(parseJsonBlock(cached)).toMatchObject({ cached: true, next_cursor: "c1" });
+    await expect(search({ query_text: "software b2b", view: "table" })).resolves.toContain(
+      "cached=true",
+    );
+
+    await expect(invokeTool(handlers, "orbio_search_next", {})).resolves.toContain("next page");
+    expect(requestBodyAt(2)).toMatchObject({ query_text: "software b2b", cursor: "c1" });
+
+    await search({ query_text: "software b2b", limit: 5 });
+    await search({ query_text: "software b2b", with_contact: true });
+    await search({ query_text: "software b2b", with_contact: true });
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { current_snapshot: "2026-03" }))
+      .mockResolvedValueOnce(searchResponse(1));
+    await vi.advanceTimersByTimeAsync(60_000);
+    const fresh = await search({ query_text: "software b2b" });
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+    expect(parseJsonBlock(fresh).cached).toBeUndefined();
+  });
+
+  it("falls back to the API when the cache backend fails", async () => {
+    const searchCache: SearchCache = {
+      get: vi.fn().mockRejectedValue(new Error("disk full")),
+      set: vi.fn().mockRejectedValue(new Error("disk full")),
+      retain: vi.fn(),
+    };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({ searchCache });
+    await invokeTool(handlers, "orbio_search", { query_text: "software" });
+    const text = await invokeTool(handlers, "orbio_search", { query_text: "software" });
+
+    expect(text).toContain("Search completed.");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(searchCache.set).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses a host-provided search cache and the file backend", async () => {
+    const searchCache = createMemorySearchCache({ ttlMs: 60_000, maxEntries: 10 });
+    const set = vi.spyOn(searchCache, "set");
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
+    const { handlers } = setupPlugin({ searchCache });
+    await invokeTool(handlers, "orbio_search", { query_text: "software" });
+    expect(set).toHaveBeenCalledWith(
+      expect.stringMatching(/^[0-9a-f]{64}$/),
+      expect.objectContaining({ snapshot: "2026-02" }),
+    );
+
+    const dir = await mkdtemp(join(tmpdir(), "orbio-cache-"));
+    try {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1));
+      const config = { searchCache: "file", searchCachePath: join(dir, "cache.json") };
+      const first = setupPlugin({ config });
+      await invokeTool(first.handlers, "orbio_search", { query_text: "software" });
+
+      fetchMock.mockResolvedValueOnce(capabilitiesResponse());
+      const second = setupPlugin({ config });
+      const text = await invokeTool(second.handlers, "orbio_search", { query_text: "software" });
+      expect(parseJsonBlock(text).cached).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("records usage per tool and channel and reports it with /orbio usage", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-10T12:30:00Z"));
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(3))
+      .mockResolvedValueOnce(
+        jsonResponse({ snapshot: "2026-02", account: { legal_name: "Exemplo" } }),
+      )
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(
+        jsonResponse({ error: { code: "not_found", message: "missing" } }, 404, {
+          "X-RateLimit-Limit": "60",
+          "X-RateLimit-Remaining": "58",
+          "X-RateLimit-Reset": "30",
+        }),
+      )
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, { limits: { monthly_rows: { limit: 1000, used: 250 } } }),
+      );
+
+    const { handlers } = setupPlugin();
+    const search = handlers.get("orbio_search") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    await search({ query_text: "software" }, { messageChannel: "Slack" });
+    await invokeTool(handlers, "orbio_company", { cnpj: "11222333000181" });
+    await invokeTool(handlers, "orbio_export", { query_text: "software" });
+    await invokeTool(handlers, "orbio_company", { cnpj: "22333444000181" });
+
+    vi.setSystemTime(new Date("2026-02-12T12:30:00Z"));
+    const text = await invokeTool(handlers, "orbio_command", { command: "usage" });
+    expect(text).toBe(
+      [
+        "Orbio usage for workspace workspace-1, last 7d (through this plugin):",
+        "- Total: 5 requests · 4 rows · 1 exports",
+        "",
+        "By tool:",
+        "- orbio_search: 2 requests · 3 rows · 0 exports",
+        "- orbio_company: 2 requests · 1 rows · 0 exports",
+        "- orbio_export: 1 requests · 0 rows · 1 exports",
+        "",
+        "By channel:",
+        "- chat: 3 requests · 1 rows · 1 exports",
+        "- slack: 2 requests · 3 rows · 0 exports",
+        "",
+        "Plan limits:",
+        "- monthly rows: 250 of 1000 used (25%)",
+        "",
+        "Last reported by the API:",
+        "- rate limit: 58 of 60 remaining (resets 30)",
+      ].join("\n"),
+    );
+
+    const recent = await invokeTool(handlers, "orbio_usage", { since: "24H" });
+    expect(recent).toContain("last 24h");
+    expect(recent).toContain("- Total: 1 requests · 0 rows · 0 exports");
+    expect(recent).toContain("- orbio_command: 1 requests");
+  });
+
+  it("reports empty usage even when capabilities are unavailable", async () => {
+    fetchMock.mockRejectedValueOnce(new Error("offline"));
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", { command: "usage --since 90d" });
+    expect(text).toBe(
+      "Orbio usage for workspace workspace-1, last 90d (through this plugin):\n- No API requests recorded.",
+    );
+  });
+
+  it.each([
+    ["usage --since 0h", "Invalid --since value: 0h. Use e.g. 24h or 7d (max 90d)."],
+    ["usage --since 91d", "Invalid --since value: 91d. Use e.g. 24h or 7d (max 90d)."],
+    ["usage --since 2w", "Invalid --since value: 2w. Use e.g. 24h or 7d (max 90d)."],
+    ["usage 7d", "Use: /orbio usage [--since 7d]"],
+    ["usage --since", "Use: /orbio usage [--since 7d]"],
+  ])("rejects %s", async (command, expected) => {
+    const { handlers } = setupPlugin();
+    await expect(invokeTool(handlers, "orbio_command", { command })).resolves.toBe(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("warns once a day when usage approaches plan limits or the API quota", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-10T12:00:00Z"));
+    const quotaSearch = () =>
+      jsonResponse({ snapshot: "2026-02", accounts: [] }, 200, {
+        "X-Quota-Limit": "100",
+        "X-Quota-Remaining": "5",
+        "X-Quota-Reset": "2026-03-01",
+      });
+    const limits = { monthly_rows: { limit: 1000, remaining: 150 }, requests_per_minute: 60 };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { limits }))
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(quotaSearch())
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { limits }))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin();
+    const search = () => invokeTool(handlers, "orbio_search", { query_text: "software" });
+    const rowsWarning =
+      'Warning: plan limit "monthly rows" is at 85% (850 of 1000 used). See /orbio usage.';
+    const quotaWarning = "Warning: the API quota is at 95% (95 of 100 used). See /orbio usage.";
+
+    expect(await search()).toContain(`\n\n${rowsWarning}`);
+    expect(await search()).not.toContain("Warning:");
+    const third = await search();
+    expect(third).toContain(quotaWarning);
+    expect(third).not.toContain(rowsWarning);
+
+    vi.setSystemTime(new Date("2026-02-11T12:00:00Z"));
+    expect(await search()).toContain(`${rowsWarning}\n${quotaWarning}`);
+
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS, { limits }))
+      .mockResolvedValueOnce(searchResponse(1));
+    const quiet = setupPlugin({ config: { usageWarningPercent: 90 } });
+    await expect(
+      invokeTool(quiet.handlers, "orbio_search", { query_text: "software" }),
+    ).resolves.not.toContain("Warning:");
+  });
+
+  it("keeps usage in a host-provided store and survives store failures", async () => {
+    const usageStore: UsageStore = {
+      add: vi.fn().mockRejectedValue(new Error("disk full")),
+      list: vi.fn().mockResolvedValue([]),
+    };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({ usageStore });
+    await expect(
+      invokeTool(handlers, "orbio_search", { query_text: "software" }),
+    ).resolves.toContain("Search completed.");
+    expect(usageStore.add).toHaveBeenCalledWith(
+      "workspace-1",
+      expect.objectContaining({ tool: "orbio_search", channel: "chat", requests: 1, rows: 1 }),
+    );
+  });
+
+  it("resolves municipality names and CNAE descriptions in filter flags", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_command", {
+      command:
+        'search x --city "sao paulo/sp" --city "Bom Jesus" --uf PI ' +
+        '--cnae "programas de computador sob encomenda" --cnae "comercio varejista"',
+    });
+    expect(requestBodyAt(1).filters).toEqual({
+      uf: ["PI"],
+      municipality_ibge: ["3550308", "2201903"],
+      cnae: ["6201501", "47"],
+    });
+  });
+
+  it.each([
+    {
+      command: 'search x --city "Bom Jesus"',
+      expected:
+        "Ambiguous --city value: Bom Jesus. Matches: Bom Jesus/PI (2201903); " +
+        "Bom Jesus/RN (2401701); Bom Jesus/PB (2502201); Bom Jesus/SC (4202537); " +
+        'Bom Jesus/RS (4302303). Add the state, e.g. --city "Bom Jesus/PI".',
+    },
+    {
+      command: 'search x --cnae "programas de computador"',
+      expected:
+        "Ambiguous --cnae value: programas de computador. Matches: 6201-5/01 Desenvolvimento",
+    },
+    {
+      command: 'search x --cnae "comercio"',
+      expected: "and 209 more. Use the code or a more specific description.",
+    },
+  ])("rejects ambiguous names: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", { command });
+    expect(text).toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    { command: "search x --uf XX", expected: "Invalid --uf value: XX." },
+    { command: "search x --city 355", expected: "Invalid --city value: 355." },
+    { command: "search x --city Atlantis", expected: "Invalid --city value: Atlantis." },
+    { command: "search x --cnae abc", expected: "Invalid --cnae value: abc." },
+    { command: "search x --size huge", expected: "Invalid --size value: huge." },
+    { command: "search x --status zombie", expected: "Invalid --status value: zombie." },
+    { command: "search x --started-after 2020-13-01", expected: "Invalid --started-after value" },
+    { command: "search x --started-after 2020-02-30", expected: "Invalid --started-after value" },
+    { command: "search x --started-after yesterday", expected: "Invalid --started-after value" },
+    { command: "search x --uf", expected: "Missing value for --uf." },
+    { command: "search x --sort", expected: "Missing value for --sort." },
+    { command: "export x --fields --wait", expected: "Missing value for --fields." },
+    { command: "search x --sort cnpj:up", expected: "Invalid --sort value: cnpj:up." },
+    { command: "export x --sort a:asc:b", expected: "Invalid --sort value: a:asc:b." },
+    { command: "export x --sort :desc", expected: "Invalid --sort value: :desc." },
+    {
+      command: "export x --started-after --limit 3",
+      expected: "Missing value for --started-after.",
+    },
+  ])("rejects invalid filter flag: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", { command });
+    expect(text).toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    {
+      rules: { require_cnae: true, require_geo: "none", free_minimum: "none" },
+      filters: { uf: ["SP"] },
+      expected: "Add a CNAE filter (--cnae 6201-5/01) and retry.",
+    },
+    {
+      rules: { require_cnae: true, require_geo: "city", free_minimum: "none" },
+      filters: { uf: ["SP"] },
+      expected:
+        "Add a CNAE filter (--cnae 6201-5/01) and a municipality filter (--city 3550308) and retry.",
+    },
+    {
+      rules: { require_cnae: false, require_geo: "uf", free_minimum: "none" },
+      filters: { cnae: ["6201501"] },
+      expected: "Add a state or municipality filter (--uf SP or --city 3550308) and retry.",
+    },
+  ])("enforces broad-query rules locally: $expected", async ({ rules, filters, expected }) => {
+    fetchMock.mockResolvedValueOnce(
+      capabilitiesResponse(SAFE_FIELDS, { broad_query_rules: rules }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_search", { query_text: "x", filters });
+    expect(text).toBe(`Query is too broad for this plan. ${expected}`);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves unfiltered queries, explain and dry runs to the server", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, {
+          broad_query_rules: { require_cnae: false, require_geo: "city", free_minimum: "none" },
+        }),
+      )
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin();
+    const run = (command: string) => invokeTool(handlers, "orbio_command", { command });
+    await expect(run("search software em Campinas")).resolves.toContain("Search completed.");
+    await expect(run("explain software --uf SP")).resolves.toContain('How Orbio read "software"');
+    await expect(run("export software --uf SP --dry-run")).resolves.toContain(
+      "Dry run: no export was created.",
+    );
+    await expect(run("export software --uf SP")).resolves.toBe(
+      "Query is too broad for this plan. Add a municipality filter (--city 3550308) and retry.",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("accepts filters that satisfy broad-query rules", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, {
+          broad_query_rules: { require_cnae: true, require_geo: "state", free_minimum: "none" },
+        }),
+      )
+      .mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_export", {
+      query_text: "x",
+      filters: { cnae: ["62.01-5-01"], municipality_ibge: ["3304557"] },
+    });
+    expect(text).toContain("Export requested.");
+  });
+
+  it("looks up one company by normalized CNPJ", async () => {
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse()).mockResolvedValueOnce(
+      jsonResponse({
+        request_id: "req-company",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        account: {
+          cnpj: "11222333000181",
+          legal_name: "Empresa Exemplo LTDA",
+          trade_name: "Exemplo",
+          uf: "SP",
+          has_email: true,
+          email: "leak@example.com",
+          started_at: null,
+        },
+      }),
+    );
+
+    const { handlers } = setupPlugin({ config: { channel: "discord" } });
+    const text = await invokeTool(handlers, "orbio_company", {
+      cnpj: "11.222.333/0001-81",
+      with_contact: true,
+    });
+
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(
+      `https://api.orbio.test/v1/accounts/11222333000181?fields=${encodeURIComponent(SAFE_FIELDS.join(","))}`,
+    );
+    expect(text).toContain("Company profile.\nNote: contact fields are restricted by plan");
+    expect(text).toContain("*Exemplo*");
+    expect(text).toContain("CNPJ: 11.222.333/0001-81");
+    expect(text).toContain("State: São Paulo (SP)");
+    expect(text).toContain("Has email: yes");
+    expect(text).not.toContain("Started");
+    expect(text).not.toContain("leak@example.com");
+    expect(text).toContain("request_id=req-company · snapshot=2026-02 · snapshot_date=2026-02-01");
+  });
+
+  it("looks up companies through the command dispatcher", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          request_id: "req-company",
+          snapshot: "2026-02",
+          snapshot_date: "2026-02-01",
+          account: { legal_name: "Sem Fantasia SA", email: "contato@semfantasia.com.br" },
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ detail: "not found" }, 404))
+      .mockResolvedValueOnce(textResponse("", 200));
+
+    const { handlers } = setupPlugin({ config: { channel: "discord" } });
+    const text = await invokeTool(handlers, "orbio_command", {
+      command: "company 11 222 333 0001 81 --with-contact",
+    });
+    expect(text).toContain("*Sem Fantasia SA*");
+    expect(text).toContain("Email: contato@semfantasia.com.br");
+    expect(String(fetchMock.mock.calls[1]?.[0])).toContain("email");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "cnpj 11222333000181" }),
+    ).resolves.toBe("No company found for CNPJ 11222333000181 in the current snapshot.");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", { command: "company 11222333000181" }),
+    ).resolves.toContain("*Unnamed company*");
+  });
+
+  it("renders company lookups in the channel's default view", async () => {
+    const lookup = () =>
+      jsonResponse({
+        request_id: "req-company",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        account: { cnpj: "11222333000181", trade_name: "Exemplo", uf: "SP" },
+      });
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(lookup())
+      .mockResolvedValueOnce(lookup())
+      .mockResolvedValueOnce(lookup());
+
+    const { handlers } = setupPlugin();
+    const company = (context?: Record<string, unknown>, view?: string) =>
+      invokeTool(handlers, "orbio_company", { cnpj: "11222333000181", view }, context);
+
+    const json = await company();
+    expect(json).toContain('"trade_name": "Exemplo"');
+    const compact = await company({ messageChannel: "whatsapp" });
+    expect(compact).not.toContain('"trade_name"');
+    expect(compact).not.toBe(json);
+    await expect(company({ messageChannel: "whatsapp" }, "json")).resolves.toBe(json);
+  });
+
+  it("propagates non-404 company lookup errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(jsonResponse({ detail: "bad" }, 400, { "X-Request-Id": "req-c" }));
+
+    const { handlers } = setupPlugin();
+    await expect(invokeTool(handlers, "orbio_company", { cnpj: "11222333000181" })).resolves.toBe(
+      "Orbio API error: bad (request_id=req-c)",
+    );
+  });
+
+  it.each([
+    { command: "company", expected: "Missing CNPJ. Use: /orbio company <cnpj>" },
+    { command: "company 11.222.333/0001-82", expected: "Invalid CNPJ: 11.222.333/0001-82." },
+    { command: "company 11111111111111", expected: "Invalid CNPJ: 11111111111111." },
+    { command: "company 1122233300018", expected: "Invalid CNPJ: 1122233300018." },
+    { command: "cnpj 12.ABC.345/01DE-36", expected: "Invalid CNPJ: 12.ABC.345/01DE-36." },
+  ])("rejects invalid CNPJ input locally: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin();
+    await expect(invokeTool(handlers, "orbio_command", { command })).resolves.toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("creates exports with idempotency key and format flags", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+      .mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin({ config: { exportConfirmation: { contacts: false } } });
+    const text = await invokeTool(handlers, "orbio_export", {
+      query_text: "agencias de marketing em sp",
+      format: "html",
+      with_contact: true,
+      limit: 30,
+    });
+
+    expect(text).toContain("Export requested.");
+    const payload = parseJsonBlock(text);
+    expect((payload.export as Record<string, unknown>).export_id).toBe("exp-123");
+    expect((payload.fields as string[]).includes("email")).toBe(true);
+
+    const exportInit = requestInitAt(1);
+    const headers = headerRecord(exportInit);
+    expect(headers["Idempotency-Key"]).toMatch(/^openclaw:export:/);
+
+    const exportBody = requestBodyAt(1);
+    expect((exportBody.output as Record<string, unknown>).format).toBe("html");
+    expect(exportBody.limit).toBe(30);
+  });
+
+  it("uses csv as default export format when omitted", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS))
+      .mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin();
+    await invokeTool(handlers, "orbio_export", {
+      query_text: "default format export",
+      with_contact: false,
+    });
+
+    const exportBody = requestBodyAt(1);
+    expect((exportBody.output as Record<string, unknown>).format).toBe("csv");
+  });
+
+  it("adds masking note for exports when contact is requested but unavailable", async () => {
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse(SAFE_FIELDS)).mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_export", {
+      query_text: "restricted contacts",
+      with_contact: true,
+    });
+
+    expect(text).toContain("export uses masked fields only.");
+  });
+
+  it("waits for export completion and returns the download url inline", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(exportStatusResponse("processing"))
+      .mockResolvedValueOnce(exportStatusResponse("ready"));
+
+    const { handlers } = setupPlugin({ config: { exportPollIntervalMs: 1000 } });
+    const pending = invokeTool(handlers, "orbio_command", {
+      command: "export agencias --wait",
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    const text = await pending;
+
+    expect(text).toContain("Export requested.");
+    expect(text).toContain(
+      "Orbio export exp-123 is ready: rows=10 expires_at=2026-02-28T00:00:00Z",
+    );
+    expect(text).toContain("https://storage.example.com/file.csv");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("returns after the wait timeout when the export is still running", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockImplementation(async () => exportStatusResponse("processing"));
+
+    const { handlers } = setupPlugin({
+      config: {
+        exportPollIntervalMs: 400,
+        exportPollMaxIntervalMs: 500,
+        exportWaitTimeoutMs: 2000,
+      },
+    });
+    const pending = invokeTool(handlers, "orbio_export", { query_text: "slow", wait: true });
+    await vi.advanceTimersByTimeAsync(2000);
+    const text = await pending;
+
+    expect(text).toContain(
+      "Export still running after 2s. Check progress with /orbio export-status exp-123.",
+    );
+    // Polls at 0, 400, 900, 1400, 1900 and 2000 ms: doubling backoff capped at 500 ms.
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+  });
+
+  it("skips polling when the export is already terminal", async () => {
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse("ready"));
+
+    const { handlers } = setupPlugin({ sendMessage });
+    const text = await invokeTool(handlers, "orbio_export", { query_text: "fast", wait: true });
+
+    expect(text).toContain("Export requested.");
+    expect(text).not.toContain("notified");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("watches pending exports in the background and notifies the conversation", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(jsonResponse({ detail: "busy" }, 503, { "Retry-After": "5" }))
+      .mockResolvedValueOnce(exportStatusResponse("failed"));
+    const usageStore = { add: vi.fn().mockResolvedValue(undefined), list: vi.fn() };
+
+    const { handlers } = setupPlugin({
+      sendMessage,
+      usageStore,
+      config: { exportPollIntervalMs: 1000 },
+    });
+    const exportTool = handlers.get("orbio_export") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    const result = await exportTool({ query_text: "agencias" }, { sessionKey: "conv-export" });
+    expect(result.content[0]?.text).toContain("You will be notified here when it finishes.");
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(sendMessage).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sendMessage).toHaveBeenCalledWith({
+      sessionKey: "conv-export",
+      text: "Orbio export exp-123 finished with status failed.",
+    });
+    expect(usageStore.add.mock.calls.map(([, entry]) => entry.tool)).toEqual([
+      "orbio_export",
+      "orbio_export",
+      "background:export_watch",
+      "background:export_watch",
+    ]);
+  });
+
+  it("keeps one watcher per export and respects plugin throttling while polling", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn().mockRejectedValue(new Error("channel offline"));
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(exportStatusResponse("processing"))
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(exportStatusResponse("processing"))
+      .mockResolvedValueOnce(exportStatusResponse("ready"));
+
+    const { handlers } = setupPlugin({
+      sendMessage,
+      config: { exportPollIntervalMs: 1000, maxRequestsPerMinute: 2 },
+    });
+    await invokeTool(handlers, "orbio_export", { query_text: "a" });
+    await vi.advanceTimersByTimeAsync(0);
+    const second = await invokeTool(handlers, "orbio_command", { command: "export a" });
+    expect(second).toContain("You will be notified here when it finishes.");
+
+    // Third poll at 3s hits the 2/min plugin limit and waits for the bucket to refill a token
+    // (one every 30s).
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("honors HTTP-date Retry-After while watching exports", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-01T00:00:00Z"));
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(
+        jsonResponse({ error: { code: "rate_limit_exceeded" } }, 429, {
+          "Retry-After": "Sun, 01 Feb 2026 00:00:10 GMT",
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ detail: "down" }, 502, { "Retry-After": "soon" }))
+      .mockResolvedValueOnce(exportStatusResponse("ready"));
+
+    const { handlers } = setupPlugin({ sendMessage, config: { exportPollIntervalMs: 1000 } });
+    await invokeTool(handlers, "orbio_export", { query_text: "dated" });
+
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(sendMessage.mock.calls[0]?.[0].text).toContain("Orbio export exp-123 is ready:");
+  });
+
+  it("notifies completed exports with missing metadata", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(
+        jsonResponse({
+          export_id: "exp-123",
+          status: "completed",
+          format: "csv",
+          row_count: null,
+          size_bytes: null,
+          expires_at: null,
+          download_url: null,
+        }),
+      );
+
+    const { handlers } = setupPlugin({ sendMessage });
+    await invokeTool(handlers, "orbio_export", { query_text: "bare" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sendMessage.mock.calls[0]?.[0].text).toBe(
+      "Orbio export exp-123 is ready:\n(no download_url)",
+    );
+  });
+
+  it("reports untrackable and long-running exports through the notifier", async () => {
+    vi.useFakeTimers();
+    const sendMessage = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockResolvedValueOnce(jsonResponse({ detail: "missing" }, 404));
+
+    const { handlers } = setupPlugin({ sendMessage });
+    await invokeTool(handlers, "orbio_export", { query_text: "gone" });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sendMessage.mock.calls[0]?.[0].text).toBe(
+      "Orbio export exp-123 could not be tracked: Orbio API error: missing",
+    );
+
+    fetchMock
+      .mockReset()
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(exportResponse())
+      .mockImplementation(async () => exportStatusResponse("processing"));
+    const slow = setupPlugin({
+      sendMessage,
+      config: { exportPollIntervalMs: 1000, exportWatchTimeoutMs: 3000 },
+    });
+    await invokeTool(slow.handlers, "orbio_export", { query_text: "slow" });
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(sendMessage.mock.calls[1]?.[0].text).toBe(
+      "Orbio export exp-123 is still running. Use /orbio export-status exp-123.",
+    );
+  });
+
+  it("does not start watchers when disabled by config", async () => {
+    const sendMessage = vi.fn();
+    fetchMock.mockResolvedValueOnce(capabilitiesResponse()).mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin({ sendMessage, config: { exportWatch: false } });
+    const text = await invokeTool(handlers, "orbio_export", { query_text: "quiet" });
+
+    expect(text).not.toContain("notified");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns export status payload from endpoint", async () => {
+    fetchMock.mockResolvedValueOnce(exportStatusResponse());
+    const { handlers } = setupPlugin();
+
+    const text = await invokeTool(handlers, "orbio_export_status", { export_id: "exp-123" });
+    expect(text).toContain("Export status:");
+
+    const payload = parseJsonBlock(text);
+    expect(payload.export_id).toBe("exp-123");
+    expect(payload.status).toBe("ready");
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://api.orbio.test/v1/exports/exp-123");
+  });
+
+  it("lists recent exports as a compact table", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        exports: [
+          {
+            export_id: "exp-1",
+            status: "ready",
+            format: "csv",
+            row_count: 1200,
+            size_bytes: 1_572_864,
+            created_at: "2026-02-10T12:00:00Z",
+            expires_at: "2026-02-17T12:00:00Z",
+            download_url: "https://storage.example.com/1.csv",
+          },
+          {
+            export_id: "exp-2",
+            status: "processing",
+            format: "html",
+            row_count: null,
+            size_bytes: 512,
+            expires_at: null,
+            download_url: null,
+          },
+        ],
+        has_more: true,
+        next_cursor: "cur-2",
+      }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_export_list", { status: "ready", limit: 5 });
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "https://api.orbio.test/v1/exports?status=ready&limit=5",
+    );
+    expect(text).toContain("Recent exports (2):");
+    expect(text).toContain("export_id  status      format  rows  size    created     expires");
+    expect(text).toContain("exp-1      ready       csv     1200  1.5 MB  2026-02-10  2026-02-17");
+    expect(text).toContain("exp-2      processing  html    -     512 B   -           -");
+    expect(text).toContain("More: /orbio export-list --cursor cur-2");
+  });
+
+  it("handles empty export lists and list command flags", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ exports: [], has_more: false, next_cursor: null }))
+      .mockResolvedValueOnce(textResponse("", 200));
+
+    const { handlers } = setupPlugin();
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "export-list --status FAILED --limit 500 --cursor abc",
+      }),
+    ).resolves.toBe("No exports found.");
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "https://api.orbio.test/v1/exports?status=failed&limit=100&cursor=abc",
+    );
+
+    await expect(invokeTool(handlers, "orbio_command", { command: "exports" })).resolves.toBe(
+      "No exports found.",
+    );
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.orbio.test/v1/exports?limit=10");
+  });
+
+  it("cancels exports through tool and command", async () => {
+    fetchMock
+      .mockResolvedValueOnce(exportStatusResponse("canceled"))
+      .mockResolvedValueOnce(exportStatusResponse("canceled"));
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_export_cancel", { export_id: "exp-123" });
+    expect(text).toContain("Export cancel requested:");
+    expect(parseJsonBlock(text).status).toBe("canceled");
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://api.orbio.test/v1/exports/exp-123/cancel");
+    expect(requestInitAt(0).method).toBe("POST");
+
+    await invokeTool(handlers, "orbio_command", { command: "cancel exp/9" });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.orbio.test/v1/exports/exp%2F9/cancel");
+  });
+
+  it.each([
+    { command: "export-list --status maybe", expected: "Invalid --status value." },
+    { command: "export-list --limit 0", expected: "Invalid --limit value." },
+    { command: "export-list --limit", expected: "Invalid --limit value." },
+    { command: "export-list --cursor", expected: "Missing value for --cursor." },
+    { command: "export-list --verbose", expected: "Unknown export-list option: --verbose" },
+    { command: "export-cancel", expected: "Missing export_id. Use: /orbio export-cancel" },
+  ])("rejects invalid export lifecycle command: $command", async ({ command, expected }) => {
+    const { handlers } = setupPlugin();
+    await expect(invokeTool(handlers, "orbio_command", { command })).resolves.toContain(expected);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("supports command-dispatch with quoted args and aliases", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+      .mockResolvedValueOnce(searchResponse(2))
+      .mockResolvedValueOnce(exportStatusResponse());
+
+    const { handlers } = setupPlugin();
+    const searchText = await invokeTool(handlers, "orbio_command", {
+      command: 'search "software b2b" --limit 7 --with-contact',
+    });
+    expect(searchText).toContain("Search completed.");
+
+    const searchBody = requestBodyAt(1);
+    expect(searchBody.query_text).toBe("software b2b");
+    expect(searchBody.limit).toBe(7);
+
+    const statusText = await invokeTool(handlers, "orbio_command", {
+      commandName: "status exp-123",
+    });
+    expect(statusText).toContain("Export status:");
+  });
+
+  it("supports export through command dispatch", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+      .mockResolvedValueOnce(exportResponse());
+
+    const { handlers } = setupPlugin({ config: { exportConfirmation: { contacts: false } } });
+    const exportText = await invokeTool(handlers, "orbio_command", {
+      commandArg: "export 'agencias em sp' --format html --limit 9 --with-contact",
+    });
+
+    expect(exportText).toContain("Export requested.");
+    const exportBody = requestBodyAt(1);
+    expect(exportBody.query_text).toBe("agencias em sp");
+    expect(exportBody.limit).toBe(9);
+    expect((exportBody.output as Record<string, unknown>).format).toBe("html");
+  });
+
+  it("returns parser-level command validation errors", async () => {
+    const { handlers } = setupPlugin();
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "export hello --format xlsx",
+      }),
+    ).resolves.toContain("Invalid --format value");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "search hello --limit nope",
+      }),
+    ).resolves.toContain("Invalid --limit value");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "search hello --limit",
+      }),
+    ).resolves.toContain("Invalid --limit value");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "export-status",
+      }),
+    ).resolves.toContain("Missing export_id");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command_arg: "unknown test",
+      }),
+    ).resolves.toContain("Unknown command");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command_name: "search",
+      }),
+    ).resolves.toContain("Missing query text");
+
+    await expect(invokeTool(handlers, "orbio_command", {})).resolves.toContain("Usage:");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command: "export hello --format",
+      }),
+    ).resolves.toContain("Invalid --format value");
+
+    await expect(
+      invokeTool(handlers, "orbio_command", {
+        command_name: "   ",
+      }),
+    ).resolves.toContain("Usage:");
+  });
+
+  it("enforces plugin-side rate limiting per workspace and tool", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({
+      config: { maxRequestsPerMinute: 1 },
+    });
+
+    const first = await invokeTool(handlers, "orbio_search", { query_text: "first" });
+    const second = await invokeTool(handlers, "orbio_search", { query_text: "second" });
+
+    expect(first).toContain("Search completed.");
+    expect(second).toContain("Rate limited by plugin policy");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("refills the plugin-side token bucket and allows the configured burst", async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockImplementation(async () => searchResponse(1));
+
+    const { handlers } = setupPlugin({ config: { maxRequestsPerMinute: 6, rateLimitBurst: 2 } });
+    const search = () => invokeTool(handlers, "orbio_search", { query_text: "software" });
+
+    await expect(search()).resolves.toContain("Search completed.");
+    await expect(search()).resolves.toContain("Search completed.");
+    await expect(search()).resolves.toBe("Rate limited by plugin policy. Retry in ~10s.");
+    await vi.advanceTimersByTimeAsync(10_000);
+    await expect(search()).resolves.toContain("Search completed.");
+  });
+
+  it("limits each user across tools when a per-user rate is configured", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockImplementation(async () => searchResponse(1));
+
+    const { handlers } = setupPlugin({ config: { maxRequestsPerMinutePerUser: 1 } });
+    const search = handlers.get("orbio_search") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    const command = handlers.get("orbio_command") as (
+      args: unknown,
+      context?: unknown,
+    ) => Promise<ToolResult>;
+    const text = async (pending: Promise<ToolResult>) => (await pending).content[0]?.text;
+
+    await expect(text(search({ query_text: "a" }, { senderId: "u-1" }))).resolves.toContain(
+      "Search completed.",
+    );
+    await expect(text(command({ command: "search a" }, { sender_id: "u-1" }))).resolves.toMatch(
+      /^Rate limited by plugin policy/,
+    );
+    await expect(text(search({ query_text: "a" }, { userId: "u-2" }))).resolves.toContain(
+      "Search completed.",
+    );
+    await expect(invokeTool(handlers, "orbio_search", { query_text: "a" })).resolves.toContain(
+      "Search completed.",
+    );
+  });
+
+  it("falls back to local buckets when the shared limiter is unavailable", async () => {
+    const shared = createMemoryRateLimiter();
+    const rateLimiter: RateLimiter = {
+      take: vi
+        .fn()
+        .mockImplementationOnce((key, rule) => shared.take(key, rule))
+        .mockRejectedValue(new Error("connection refused")),
+    };
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockImplementation(async () => searchResponse(1));
+
+    const { handlers } = setupPlugin({ rateLimiter, config: { maxRequestsPerMinute: 1 } });
+    const search = () => invokeTool(handlers, "orbio_search", { query_text: "software" });
+    await expect(search()).resolves.toContain("Search completed.");
+    expect(rateLimiter.take).toHaveBeenCalledWith("workspace-1:orbio_search", {
+      ratePerMinute: 1,
+      burst: 1,
+    });
+    await expect(search()).resolves.toContain("Search completed.");
+    await expect(search()).resolves.toMatch(/^Rate limited by plugin policy/);
+
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1));
+    const unreachable = setupPlugin({
+      config: { rateLimiter: "redis", rateLimiterUrl: "redis://127.0.0.1:1", timeoutMs: 500 },
+    });
+    await expect(
+      invokeTool(unreachable.handlers, "orbio_search", { query_text: "software" }),
+    ).resolves.toContain("Search completed.");
+  });
+
+  describe("access policy", () => {
+    const accessPolicy = {
+      default: { actions: ["search"], maxLimit: 10 },
+      roles: {
+        analyst: { actions: ["search", "export"] },
+        sales: { actions: ["search", "export", "contacts"], maxLimit: 100 },
+      },
+      users: { "U-ana": "analyst" },
+      channels: { whatsapp: { actions: ["search"] } },
+    };
+    type Handler = (args: unknown, context?: unknown) => Promise<ToolResult>;
+    const call = async (handler: ToolHandler | undefined, args: unknown, context?: unknown) =>
+      (await (handler as Handler)(args, context)).content[0]?.text ?? "";
+
+    it("refuses actions outside the user's roles before any API call", async () => {
+      const { handlers } = setupPlugin({ config: { accessPolicy } });
+      const command = handlers.get("orbio_command");
+
+      await expect(
+        call(command, { command: "export software" }, { senderId: "U-x" }),
+      ).resolves.toBe(
+        'Access denied: Exports need the "export" permission, which user U-x (default policy) in channel chat does not have (allowed: search). Ask a workspace admin to update the plugin accessPolicy.',
+      );
+      await expect(
+        call(
+          handlers.get("orbio_search"),
+          { query_text: "a", with_contact: true },
+          { senderId: "U-ana" },
+        ),
+      ).resolves.toContain('Contact fields (--with-contact) need the "contacts" permission');
+      await expect(
+        call(command, { command: "search a --limit 11" }, { senderId: "U-x" }),
+      ).resolves.toBe(
+        "Access denied: limit 11 is above the maximum of 10 allowed for user U-x (default policy) in channel chat. Use --limit 10 or less.",
+      );
+      await expect(
+        call(
+          command,
+          { command: "export-list" },
+          { senderId: "U-ana", messageChannel: "WhatsApp" },
+        ),
+      ).resolves.toContain("user U-ana (roles: analyst) in channel whatsapp does not have");
+      // A channel named in the arguments does not lift the host channel's restriction.
+      await expect(
+        call(
+          command,
+          { command: "export-list", message_channel: "slack" },
+          { senderId: "U-ana", messageChannel: "WhatsApp" },
+        ),
+      ).resolves.toContain("user U-ana (roles: analyst) in channel whatsapp does not have");
+      await expect(
+        call(command, { command: "export software", senderId: "U-ana", roles: ["sales"] }),
+      ).resolves.toMatch(/^Access denied: Exports need/);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      fetchMock.mockResolvedValueOnce(capabilitiesResponse());
+      await expect(call(command, { command: "plan" }, { senderId: "U-x" })).resolves.toContain(
+        "Orbio plan: pro",
+      );
+    });
+
+    it("caps default limits and allows what the roles grant", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(exportResponse());
+
+      const { handlers } = setupPlugin({ config: { accessPolicy } });
+      const search = handlers.get("orbio_search");
+      await call(search, { query_text: "a" }, { senderId: "U-x" });
+      expect(requestBodyAt(1).limit).toBe(10);
+
+      await call(search, { query_text: "a", with_contact: true }, { senderRoles: ["sales"] });
+      expect(requestBodyAt(2)).toMatchObject({ limit: 20 });
+
+      await expect(
+        call(handlers.get("orbio_export"), { query_text: "a", limit: 500 }, { senderId: "U-ana" }),
+      ).resolves.toContain("Export requested.");
+      expect(requestBodyAt(3).limit).toBe(500);
+    });
+
+    it("checks saved searches against the policy when they run", async () => {
+      fetchMock.mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]));
+      const { handlers } = setupPlugin({ config: { accessPolicy } });
+      const command = handlers.get("orbio_command");
+      const sales = { senderId: "U-bia", roles: "sales" };
+
+      await expect(
+        call(command, { command: "save leads software --with-contact --limit 50" }, sales),
+      ).resolves.toContain('Saved search "leads"');
+      await expect(call(command, { command: "run leads" }, { senderId: "U-x" })).resolves.toMatch(
+        /^Access denied: Contact fields \(--with-contact\) need the "contacts" permission/,
+      );
+      await expect(call(command, { command: "run leads" }, { senderId: "U-ana" })).resolves.toMatch(
+        /^Access denied: Contact fields/,
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("checks the next page against the caller, not whoever ran the search", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(searchResponse(1, { hasMore: true, nextCursor: "c2" }))
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({ config: { accessPolicy } });
+      const group = { sessionKey: "group-1" };
+      await call(
+        handlers.get("orbio_search"),
+        { query_text: "a", with_contact: true, limit: 50 },
+        { ...group, senderId: "U-bia", roles: "sales" },
+      );
+      const next = handlers.get("orbio_search_next");
+      await expect(call(next, {}, { ...group, senderId: "U-x" })).resolves.toMatch(
+        /^Access denied: Contact fields \(--with-contact\) need the "contacts" permission/,
+      );
+      await expect(
+        call(next, {}, { ...group, senderId: "U-bia", roles: "sales" }),
+      ).resolves.toContain("Search completed (next page).");
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("audit log", () => {
+    const auditTo = (events: AuditEvent[]): AuditSink => ({
+      write: async (event) => {
+        events.push(event);
+      },
+    });
+    type Handler = (args: unknown, context?: unknown) => Promise<ToolResult>;
+    const call = async (handler: ToolHandler | undefined, args: unknown, context?: unknown) =>
+      (await (handler as Handler)(args, context)).content[0]?.text ?? "";
+
+    it("records who pulled which fields, without the contact values", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(
+          jsonResponse(
+            {
+              request_id: "req-search",
+              snapshot: "2026-02",
+              snapshot_date: "2026-02-01",
+              accounts: [{ cnpj: "11222333000181", email: "ana@acme.test", phone1: "999990000" }],
+              has_more: false,
+              next_cursor: null,
+            },
+            200,
+            { "X-Request-Id": "req-123" },
+          ),
+        )
+        .mockResolvedValueOnce(exportResponse());
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({ auditSink: auditTo(events) });
+      const context = { senderId: "U-ana", senderRoles: ["sales"], messageChannel: "Slack" };
+
+      await call(
+        handlers.get("orbio_search"),
+        { query_text: "software", with_contact: true, fields: ["email", "legal_name", "revenue"] },
+        context,
+      );
+      await call(handlers.get("orbio_command"), { command: "export software" }, context);
+
+      expect(events[0]).toEqual({
+        ts: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        workspace_id: "workspace-1",
+        tool: "orbio_search",
+        action: "search",
+        user_id: "U-ana",
+        roles: ["sales"],
+        channel: "slack",
+        query_text: "software",
+        fields_requested: ["email", "legal_name", "revenue"],
+        fields_granted: ["cnpj", "email", "legal_name"],
+        contact_requested: true,
+        contact_granted: true,
+        contact_redaction: "full",
+        rows: 1,
+        export_id: null,
+        request_id: "req-123",
+        outcome: "ok",
+        error_code: null,
+        duration_ms: expect.any(Number),
+      });
+      expect(events[1]).toMatchObject({
+        tool: "orbio_command",
+        action: "export",
+        query_text: "software",
+        fields_requested: null,
+        contact_granted: false,
+        rows: 0,
+        export_id: "exp-123",
+        request_id: expect.any(String),
+        outcome: "ok",
+      });
+      expect(JSON.stringify(events)).not.toMatch(/ana@acme|99999/);
+    });
+
+    it("records denials, plugin limits and API errors with their codes", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(
+          jsonResponse({ code: "QUERY_TOO_BROAD", detail: "too broad" }, 422, {
+            "X-Request-Id": "req-422",
+          }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ detail: "gone" }, 410));
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({
+        auditSink: auditTo(events),
+        config: {
+          maxRequestsPerMinute: 3,
+          accessPolicy: { default: { actions: ["search"] } },
+        },
+      });
+      const command = handlers.get("orbio_command");
+
+      await call(command, { command: "export software" });
+      await call(command, { command: "search software" });
+      await call(command, { command: "export-status exp-9" });
+      await call(command, { command: "company 123" });
+      await call(command, { command: "search software" });
+      await call(command, { command: "search software" });
+
+      expect(
+        events.map((event) => [event.action, event.outcome, event.error_code, event.request_id]),
+      ).toEqual([
+        ["export", "denied", "ACCESS_DENIED", null],
+        ["search", "error", "QUERY_TOO_BROAD", "req-422"],
+        ["export", "denied", "ACCESS_DENIED", null],
+        ["search", "invalid", "INVALID_INPUT", null],
+        ["search", "error", "HTTP_410", expect.any(String)],
+        ["search", "rate_limited", "PLUGIN_RATE_LIMITED", null],
+      ]);
+      expect(events[1]).toMatchObject({ query_text: "software", fields_granted: SAFE_FIELDS });
+    });
+
+    it("counts cached rows and next pages, and survives a failing sink", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(2, { hasMore: true, nextCursor: "c2" }))
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({
+        auditSink: auditTo(events),
+        searchCache: createMemorySearchCache({ ttlMs: 60_000, maxEntries: 10 }),
+      });
+      const session = { sessionKey: "s-1" };
+      await call(
+        handlers.get("orbio_search"),
+        { query_text: "a", fields: ["legal_name"] },
+        session,
+      );
+      await call(
+        handlers.get("orbio_search"),
+        { query_text: "a", fields: ["legal_name"] },
+        session,
+      );
+      await call(handlers.get("orbio_search_next"), {}, session);
+
+      expect(events.map((event) => [event.tool, event.rows])).toEqual([
+        ["orbio_search", 2],
+        ["orbio_search", 2],
+        ["orbio_search_next", 1],
+      ]);
+      expect(events[2]).toMatchObject({
+        query_text: "a",
+        fields_requested: ["legal_name"],
+        fields_granted: ["cnpj", "legal_name"],
+      });
+
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(
+          jsonResponse({ snapshot: "2026-02", accounts: [] }, 200, { "X-Request-Id": "req-lost" }),
+        );
+      const logger = { warn: vi.fn() };
+      const failing = setupPlugin({
+        auditSink: { write: async () => Promise.reject(new Error("disk full")) },
+        logger,
+      });
+      await expect(call(failing.handlers.get("orbio_capabilities"), {})).resolves.toContain(
+        "Orbio plan: pro",
+      );
+      await expect(
+        call(failing.handlers.get("orbio_search"), { query_text: "a" }),
+      ).resolves.toContain("Search completed.");
+      await vi.waitFor(() => expect(logger.warn).toHaveBeenCalledTimes(2));
+      expect(logger.warn.mock.calls.map(([message]) => message)).toEqual([
+        "[orbio] Audit event for orbio_capabilities (request_id=none) was not written: disk full",
+        "[orbio] Audit event for orbio_search (request_id=req-lost) was not written: disk full",
+      ]);
+    });
+  });
+
+  describe("telemetry", () => {
+    const spanExporter = new InMemorySpanExporter();
+    let metricExporter: InMemoryMetricExporter;
+    let metricReader: PeriodicExportingMetricReader;
+    let meterProvider: MeterProvider;
+
+    beforeEach(() => {
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+      metricExporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+      metricReader = new PeriodicExportingMetricReader({
+        exporter: metricExporter,
+        exportIntervalMillis: 60_000,
+      });
+      meterProvider = new MeterProvider({ readers: [metricReader] });
+    });
+
+    afterEach(async () => {
+      spanExporter.reset();
+      await meterProvider.shutdown();
+      context.disable();
+    });
+
+    const setupTraced = (options: SetupOptions = {}) =>
+      setupPlugin({
+        ...options,
+        tracerProvider: new BasicTracerProvider({
+          spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+        }),
+        meterProvider,
+      });
+
+    const metricPoints = async (name: string) => {
+      await metricReader.forceFlush();
+      const metric = metricExporter
+        .getMetrics()
+        .at(-1)
+        ?.scopeMetrics.flatMap((scope) => scope.metrics)
+        .find((candidate) => candidate.descriptor.name === name);
+      return (metric?.dataPoints ?? []).map((point) => ({
+        attributes: point.attributes,
+        value: point.value,
+      }));
+    };
+
+    it("traces each tool call with one child span per HTTP attempt", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(jsonResponse({ detail: "downstream" }, 503))
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(jsonResponse({ account: { cnpj: "11222333000181" } }));
+
+      const { handlers } = setupTraced({ config: { retryCount: 1, retryBackoffMs: 0 } });
+      await invokeTool(handlers, "orbio_search", { query_text: "retry" });
+      await invokeTool(handlers, "orbio_company", { cnpj: "11.222.333/0001-81" });
+
+      const spans = spanExporter.getFinishedSpans();
+      const toolSpan = spans.find((span) => span.name === "orbio_search");
+      expect(toolSpan?.attributes).toMatchObject({
+        "orbio.tool": "orbio_search",
+        "orbio.workspace_id": "workspace-1",
+        "orbio.outcome": "ok",
+      });
+      const attempts = spans.filter(
+        (span) => span.parentSpanContext?.spanId === toolSpan?.spanContext().spanId,
+      );
+      expect(
+        attempts.map((span) => [
+          span.name,
+          span.attributes["http.request.resend_count"],
+          span.attributes["http.response.status_code"],
+          span.status.code,
+        ]),
+      ).toEqual([
+        ["GET /v1/capabilities", 0, 200, SpanStatusCode.UNSET],
+        ["POST /v1/accounts/search", 0, 503, SpanStatusCode.ERROR],
+        ["POST /v1/accounts/search", 1, 200, SpanStatusCode.UNSET],
+      ]);
+      expect(spans.map((span) => span.name)).toContain("GET /v1/accounts/{cnpj}");
+
+      expect(await metricPoints("orbio.http.client.retries")).toEqual([
+        {
+          attributes: {
+            "http.request.method": "POST",
+            "http.route": "/v1/accounts/search",
+            "http.response.status_code": 503,
+            "error.type": "HTTP_503",
+            "orbio.retry_reason": "server_error",
+          },
+          value: 1,
+        },
+      ]);
+      expect(await metricPoints("orbio.tool.duration")).toEqual([
+        {
+          attributes: { "orbio.tool": "orbio_search", "orbio.outcome": "ok" },
+          value: expect.objectContaining({ count: 1 }),
+        },
+        {
+          attributes: { "orbio.tool": "orbio_company", "orbio.outcome": "ok" },
+          value: expect.objectContaining({ count: 1 }),
+        },
+      ]);
+    });
+
+    it("counts API errors by code and plugin rate-limit rejections", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(jsonResponse({ code: "QUERY_TOO_BROAD", detail: "too broad" }, 422))
+        .mockRejectedValueOnce(new TypeError("socket closed"));
+
+      const { handlers } = setupTraced({ config: { maxRequestsPerMinute: 2 } });
+      await invokeTool(handlers, "orbio_search", { query_text: "software" });
+      await invokeTool(handlers, "orbio_search", { query_text: "software" });
+      await invokeTool(handlers, "orbio_search", { query_text: "software" });
+
+      const errors = await metricPoints("orbio.http.client.errors");
+      expect(errors.map((point) => [point.attributes["orbio.error_code"], point.value])).toEqual([
+        ["QUERY_TOO_BROAD", 1],
+        ["NETWORK_ERROR", 1],
+      ]);
+      expect(await metricPoints("orbio.rate_limit.rejections")).toEqual([
+        {
+          attributes: { "orbio.rate_limit.scope": "tool", "orbio.tool": "orbio_search" },
+          value: 1,
+        },
+      ]);
+      expect(
+        spanExporter
+          .getFinishedSpans()
+          .filter((span) => span.name === "orbio_search")
+          .map((span) => [span.attributes["orbio.outcome"], span.attributes["orbio.error_code"]]),
+      ).toEqual([
+        ["error", "QUERY_TOO_BROAD"],
+        ["error", "NETWORK_ERROR"],
+        ["rate_limited", "PLUGIN_RATE_LIMITED"],
+      ]);
+    });
+  });
+
+  describe("retry policy", () => {
+    it("retries 429s after Retry-After and re-sends the same Idempotency-Key", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(
+          jsonResponse({ code: "rate_limit_exceeded", detail: "slow down" }, 429, {
+            "Retry-After": "0",
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({ code: "dependency_unavailable", detail: "down" }, 503, {
+            "Retry-After": "Tue, 10 Feb 2026 11:00:00 GMT",
+          }),
+        )
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({ config: { retryCount: 2 } });
+      const text = await invokeTool(handlers, "orbio_search", { query_text: "retry" });
+
+      expect(text).toContain("Search completed.");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      const attempts = [1, 2, 3].map((index) => headerRecord(requestInitAt(index)));
+      expect(attempts[0]?.["Idempotency-Key"]).toMatch(/^openclaw:request:/);
+      expect(new Set(attempts.map((headers) => headers["Idempotency-Key"])).size).toBe(1);
+      expect(new Set(attempts.map((headers) => headers["X-Request-Id"])).size).toBe(1);
+      expect(headerRecord(requestInitAt(0))["Idempotency-Key"]).toBeUndefined();
+    });
+
+    it("surfaces quota errors, long waits and non-retryable endpoints at once", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(jsonResponse({ code: "QUOTA_EXCEEDED", detail: "quota" }, 429))
+        .mockResolvedValueOnce(
+          jsonResponse({ code: "rate_limit_exceeded", detail: "later" }, 429, {
+            "Retry-After": "120",
+          }),
+        )
+        .mockResolvedValueOnce(jsonResponse({ detail: "downstream" }, 503));
+
+      const { handlers } = setupPlugin({
+        config: {
+          retryCount: 2,
+          retryPolicy: { maxElapsedMs: 10_000, endpoints: { "POST /v1/exports": false } },
+        },
+      });
+
+      await invokeTool(handlers, "orbio_search", { query_text: "quota" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await expect(
+        invokeTool(handlers, "orbio_search", { query_text: "later" }),
+      ).resolves.toContain("Orbio rate limit exceeded. Retry-After=120s.");
+      await expect(
+        invokeTool(handlers, "orbio_export", { query_text: "software" }),
+      ).resolves.toContain("Orbio dependency is temporarily unavailable.");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("pauses calls after repeated dependency failures and resumes after the cooldown", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-02-10T12:00:00Z"));
+      const unavailable = () =>
+        jsonResponse({ code: "dependency_unavailable", detail: "down" }, 503);
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(jsonResponse({ code: "invalid_spec", detail: "bad" }, 422))
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({
+        config: { circuitBreaker: { failureThreshold: 2, cooldownMs: 20_000 } },
+      });
+      const search = () => invokeTool(handlers, "orbio_search", { query_text: "software" });
+
+      await search();
+      await search();
+      await search();
+      await expect(search()).resolves.toContain("temporarily unavailable");
+      await expect(search()).resolves.toBe(
+        "Orbio looks unavailable after repeated failures, so calls are paused. Retry in ~20s.",
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+
+      vi.setSystemTime(new Date("2026-02-10T12:00:21Z"));
+      await expect(search()).resolves.toContain("Search completed.");
+      await expect(search()).resolves.not.toContain("paused");
+    });
+  });
+
+  describe("workspaces", () => {
+    type Handler = (args: unknown, context?: unknown) => Promise<ToolResult>;
+    const call = async (handler: ToolHandler | undefined, args: unknown, context?: unknown) =>
+      (await (handler as Handler)(args, context)).content[0]?.text ?? "";
+
+    const config = {
+      workspaces: {
+        beta: {
+          apiKey: "beta-key",
+          baseUrl: "https://beta.orbio.test",
+          channel: "whatsapp",
+          maxRequestsPerMinute: 1,
+        },
+      },
+      workspaceRouting: { channels: { WhatsApp: "beta" }, teams: { "T-acme": "workspace-1" } },
+    };
+
+    it("routes calls by flag, channel and team to separate clients and limits", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(2));
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({
+        config,
+        auditSink: {
+          write: async (event) => {
+            events.push(event);
+          },
+        },
+      });
+      const command = handlers.get("orbio_command");
+      const search = handlers.get("orbio_search");
+
+      await expect(
+        call(command, { command: "search software --workspace beta" }),
+      ).resolves.toContain("Search completed.");
+      await expect(
+        call(command, { command: "search software" }, { messageChannel: "WhatsApp" }),
+      ).resolves.toContain("Rate limited by plugin policy.");
+      await expect(
+        call(search, { query_text: "software" }, { messageChannel: "slack" }),
+      ).resolves.toContain("Search completed.");
+      await expect(
+        call(command, { command: "search software --workspace beta" }, { teamId: "T-acme" }),
+      ).resolves.toBe(
+        'This chat uses Orbio workspace "workspace-1"; --workspace cannot switch it.',
+      );
+      // A channel rule is a boundary too: WhatsApp chats cannot reach the default workspace.
+      await expect(
+        call(
+          command,
+          { command: "search software --workspace workspace-1" },
+          { messageChannel: "WhatsApp" },
+        ),
+      ).resolves.toBe('This chat uses Orbio workspace "beta"; --workspace cannot switch it.');
+      await expect(call(command, { command: "search software --workspace" })).resolves.toBe(
+        "Missing value for --workspace.",
+      );
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        "https://beta.orbio.test/v1/capabilities",
+        "https://beta.orbio.test/v1/accounts/search",
+        "https://api.orbio.test/v1/capabilities",
+        "https://api.orbio.test/v1/accounts/search",
+      ]);
+      expect(headerRecord(requestInitAt(1)).Authorization).toBe("Bearer beta-key");
+      expect(executionContextHeaderAt(1)).toMatchObject({
+        workspace: "beta",
+        channel: "whatsapp",
+      });
+      expect(headerRecord(requestInitAt(3)).Authorization).toBe("Bearer api-key");
+      expect(events.map((event) => [event.workspace_id, event.channel, event.outcome])).toEqual([
+        ["beta", "whatsapp", "ok"],
+        ["beta", "whatsapp", "rate_limited"],
+        ["workspace-1", "slack", "ok"],
+        ["workspace-1", "chat", "invalid"],
+        ["workspace-1", "whatsapp", "invalid"],
+        ["workspace-1", "chat", "ok"],
+      ]);
+    });
+
+    it("polls and watches exports with the serving workspace's settings", async () => {
+      vi.useFakeTimers();
+      const sendMessage = vi.fn();
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(exportResponse())
+        .mockResolvedValueOnce(exportStatusResponse("ready"))
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(exportResponse());
+
+      const { handlers } = setupPlugin({
+        sendMessage,
+        config: {
+          exportPollIntervalMs: 60_000,
+          workspaces: { beta: { apiKey: "beta-key", exportPollIntervalMs: 1000 } },
+          workspaceRouting: { channels: { whatsapp: "beta" } },
+        },
+      });
+      const command = handlers.get("orbio_command");
+      await expect(
+        call(command, { command: "export a" }, { sessionKey: "s-1", messageChannel: "whatsapp" }),
+      ).resolves.toContain("You will be notified here when it finishes.");
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(sendMessage).toHaveBeenCalledWith({
+        sessionKey: "s-1",
+        text: expect.stringContaining("Orbio export exp-123 is ready"),
+      });
+
+      const noWatch = setupPlugin({
+        sendMessage,
+        config: { workspaces: { beta: { apiKey: "beta-key", exportWatch: false } } },
+      });
+      await expect(
+        call(
+          noWatch.handlers.get("orbio_command"),
+          { command: "export a --workspace beta" },
+          { sessionKey: "s-1" },
+        ),
+      ).resolves.not.toContain("notified");
+    });
+
+    it("routes on the host channel, not one named in the arguments", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({ config });
+      await expect(
+        call(
+          handlers.get("orbio_command"),
+          { command: "search software", message_channel: "whatsapp" },
+          { messageChannel: "slack" },
+        ),
+      ).resolves.toContain("Search completed.");
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        "https://api.orbio.test/v1/capabilities",
+        "https://api.orbio.test/v1/accounts/search",
+      ]);
+      expect(headerRecord(requestInitAt(1)).Authorization).toBe("Bearer api-key");
+    });
+
+    it("keeps saved searches and usage apart per workspace", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(capabilitiesResponse());
+
+      const { handlers } = setupPlugin({
+        config: { workspaces: { beta: { apiKey: "beta-key" } } },
+      });
+      const command = handlers.get("orbio_command");
+      const session = { sessionKey: "s-1" };
+      await call(command, { command: "search software --workspace beta" }, session);
+      await call(command, { command: "save leads --workspace beta" }, session);
+
+      await expect(call(command, { command: "saved" })).resolves.toContain("No saved searches");
+      await expect(call(command, { command: "saved --workspace beta" })).resolves.toContain(
+        "leads",
+      );
+      await expect(call(command, { command: "usage --workspace beta" })).resolves.toContain(
+        "Orbio usage for workspace beta",
+      );
+    });
+
+    it("works without a top-level apiKey and validates workspace config", () => {
+      const { specs } = setupPlugin({
+        config: { apiKey: undefined, workspaces: { beta: { apiKey: "beta-key" } } },
+      });
+      expect(specs.has("orbio_search")).toBe(true);
+
+      expect(() =>
+        setupPlugin({ config: { apiKey: undefined, workspaces: { beta: { channel: "slack" } } } }),
+      ).toThrow("Missing plugin config: apiKey (workspace beta)");
+      expect(() =>
+        setupPlugin({ config: { workspaces: { beta: { auditLog: "stdout" } } } }),
+      ).toThrow("Invalid plugin config: workspaces.beta.auditLog is not a workspace setting");
+      expect(() =>
+        setupPlugin({ config: { ...config, workspaceRouting: { default: "gamma" } } }),
+      ).toThrow('Invalid plugin config: workspaceRouting.default names unknown workspace "gamma"');
+    });
+  });
+
+  describe("query explain", () => {
+    const explained = () =>
+      jsonResponse({
+        request_id: "req-explain",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        accounts: [{ cnpj: "11222333000181" }],
+        has_more: true,
+        next_cursor: "c1",
+        explain: {
+          interpreted_filters: { cnae: ["6201501"], uf: ["SP"], registration_status: ["02"] },
+          unmatched_terms: ["legais"],
+          estimated_total: 4210,
+        },
+      });
+    const bodyAt = (index: number) => JSON.parse(String(requestInitAt(index).body));
+
+    it("shows how a query is read without returning companies", async () => {
+      fetchMock.mockResolvedValueOnce(explained());
+
+      const { handlers } = setupPlugin();
+      const text = await invokeTool(handlers, "orbio_explain", {
+        query_text: "empresas de software legais em SP",
+        filters: { municipality_ibge: ["3550308"], company_size_code: ["me"] },
+      });
+      expect(text).toBe(
+        [
+          'How Orbio read "empresas de software legais em SP":',
+          "From the query text:",
+          "- Activity (CNAE): 6201-5/01 – Desenvolvimento de programas de computador sob encomenda",
+          "- State: SP (São Paulo)",
+          "- Status: Ativa",
+          "From your filters:",
+          "- City: São Paulo/SP",
+          "- Size: ME",
+          'Not understood: "legais"',
+          "Estimated matches: 4210",
+        ].join("\n"),
+      );
+      expect(bodyAt(0)).toEqual({
+        query_text: "empresas de software legais em SP",
+        filters: { municipality_ibge: ["3550308"], company_size_code: ["01"] },
+        limit: 1,
+        output: { format: "json", include_explain: true, fields: ["cnpj"] },
+      });
+
+      await expect(
+        invokeTool(handlers, "orbio_command", { command: "explain --uf SP" }),
+      ).resolves.toBe("Missing query text. Use: /orbio explain <query> [filters]");
+    });
+
+    it("appends the explanation to a search run with --explain", async () => {
+      fetchMock.mockResolvedValueOnce(capabilitiesResponse()).mockResolvedValueOnce(explained());
+
+      const { handlers } = setupPlugin();
+      const text = await invokeTool(handlers, "orbio_command", {
+        command: "search software em SP --explain --view compact",
+      });
+      expect(text).toContain("Search completed.");
+      expect(text).toContain('How Orbio read "software em SP":\nFrom the query text:');
+      expect(bodyAt(1).output.include_explain).toBe(true);
+      expect(bodyAt(1).limit).not.toBe(1);
+    });
+
+    it("previews searches and exports on --dry-run without running them", async () => {
+      fetchMock
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(explained());
+
+      const { handlers } = setupPlugin();
+      const command = handlers.get("orbio_command") as ToolHandler;
+      const search = (await command({ command: "search software --dry-run" })).content[0]?.text;
+      expect(search).toContain("Orbio returned no interpretation for this query.");
+      expect(search).toContain("Dry run: nothing was searched.");
+
+      const exported = (
+        await command({
+          command: "export software --city 3550308 --limit 200 --format html --dry-run",
+        })
+      ).content[0]?.text;
+      expect(exported).toContain("From your filters:\n- City: São Paulo/SP");
+      expect(exported).toContain(
+        "Dry run: no export was created. It would export up to 200 rows as html with fields cnpj,",
+      );
+      expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+        "https://api.orbio.test/v1/accounts/search",
+        "https://api.orbio.test/v1/capabilities",
+        "https://api.orbio.test/v1/accounts/search",
+      ]);
+      expect(bodyAt(2)).toMatchObject({ limit: 1, output: { include_explain: true } });
+    });
+  });
+
+  describe("api key sources", () => {
+    const rejected = () =>
+      jsonResponse({ error: { code: "authentication_invalid", message: "bad key" } }, 401);
+    const authorizations = () =>
+      fetchMock.mock.calls.map((_call, index) => headerRecord(requestInitAt(index)).Authorization);
+
+    it("retries with the secondary key once the primary is rejected", async () => {
+      fetchMock
+        .mockResolvedValueOnce(rejected())
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({
+        config: { apiKey: "new-key", apiKeySecondary: "old-key" },
+      });
+      await expect(invokeTool(handlers, "orbio_search", { query_text: "a" })).resolves.toContain(
+        "Search completed.",
+      );
+      await expect(invokeTool(handlers, "orbio_search", { query_text: "b" })).resolves.toContain(
+        "Search completed.",
+      );
+      expect(authorizations()).toEqual([
+        "Bearer new-key",
+        "Bearer old-key",
+        "Bearer old-key",
+        "Bearer old-key",
+      ]);
+    });
+
+    it("picks up a rewritten key file without a restart", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "orbio-key-"));
+      const keyFile = join(dir, "orbio.key");
+      await writeFile(keyFile, "file-key-1\n");
+      const logger = { warn: vi.fn() };
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse())
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(searchResponse(1));
+
+      try {
+        const { handlers } = setupPlugin({
+          config: { apiKey: undefined, apiKeyFile: keyFile },
+          logger,
+        });
+        await invokeTool(handlers, "orbio_search", { query_text: "a" });
+        await writeFile(keyFile, "file-key-two\n");
+        await invokeTool(handlers, "orbio_search", { query_text: "b" });
+        expect(authorizations()).toEqual([
+          "Bearer file-key-1",
+          "Bearer file-key-1",
+          "Bearer file-key-two",
+        ]);
+
+        await rm(keyFile);
+        const reply = await invokeTool(handlers, "orbio_search", { query_text: "c" });
+        expect(reply).toBe(
+          "Orbio API key could not be loaded. Check the plugin log for the cause.",
+        );
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+        expect(logger.warn.mock.calls[0]?.[0]).toContain(
+          `[orbio] Could not read the Orbio API key file: ENOENT`,
+        );
+        expect(logger.warn.mock.calls[0]?.[0]).toContain(keyFile);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("resolves provider secrets and keeps keys per workspace", async () => {
+      fetchMock.mockResolvedValueOnce(rejected());
+
+      const secretProvider = vi.fn(async (name: string) => `vault-${name}`);
+      const { handlers } = setupPlugin({
+        secretProvider,
+        config: {
+          apiKeySecondary: "main-old",
+          workspaces: { beta: { apiKey: "secret:beta" } },
+        },
+      });
+      await expect(
+        invokeTool(handlers, "orbio_command", { command: "plan --workspace beta" }),
+      ).resolves.toContain("Orbio authentication failed. Check plugin apiKey.");
+      // beta does not inherit the default workspace's secondary key.
+      expect(authorizations()).toEqual(["Bearer vault-beta"]);
+      expect(secretProvider).toHaveBeenCalledTimes(2);
+
+      expect(() => setupPlugin({ config: { apiKey: "secret:orbio" } })).toThrow(
+        'Invalid plugin config: "secret:" API key references need a host secretProvider',
+      );
+      expect(() =>
+        setupPlugin({ config: { workspaces: { beta: { apiKey: "env:BETA_KEY" } } } }),
+      ).toThrow(
+        "Invalid plugin config: apiKey references env BETA_KEY, which is not set (workspace beta)",
+      );
+    });
+  });
+
+  describe("export confirmation", () => {
+    type Handler = (args: unknown, context?: unknown) => Promise<ToolResult>;
+    const call = async (handler: ToolHandler | undefined, args: unknown, context?: unknown) =>
+      (await (handler as Handler)(args, context)).content[0]?.text ?? "";
+    const urls = () => fetchMock.mock.calls.map(([url]) => String(url));
+
+    it("holds large contact exports until the same user confirms them", async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS], {
+            limits: { monthly_export_rows: 20000, max_search_limit: 100 },
+          }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            request_id: "req-explain",
+            snapshot: "2026-02",
+            accounts: [{ cnpj: "11222333000181" }],
+            explain: { interpreted_filters: {}, estimated_total: 4210 },
+          }),
+        )
+        .mockResolvedValueOnce(exportResponse());
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({
+        auditSink: { write: async (event) => void events.push(event) },
+      });
+      const command = handlers.get("orbio_command");
+      const estimate = await call(
+        command,
+        { command: "export software --city 3550308 --limit 5000 --with-contact" },
+        { senderId: "U-ana" },
+      );
+      const token = /\/orbio confirm ([A-Z0-9]{6})/.exec(estimate)?.[1] ?? "";
+      expect(estimate).toBe(
+        [
+          "This export needs confirmation: it asks for up to 5000 rows (more than 1000) and it includes contact fields.",
+          "- Estimated matches: 4210",
+          "- Rows to export: about 4210 (limit 5000)",
+          "- Format: csv",
+          `- Fields: ${[...SAFE_FIELDS, ...CONTACT_FIELDS].join(", ")} (contact fields included)`,
+          "- Plan limit, monthly export rows: 20000",
+          "",
+          `To run it, send /orbio confirm ${token} within 10 minutes. Nothing has been exported yet; the estimate used one search request.`,
+        ].join("\n"),
+      );
+      expect(urls()).not.toContain("https://api.orbio.test/v1/exports");
+      // The row fetched for the estimate reached nobody, so the audit event counts none.
+      expect(events[0]).toMatchObject({ action: "export", outcome: "ok", rows: 0 });
+
+      await expect(
+        call(command, { command: `confirm ${token}` }, { senderId: "U-bob" }),
+      ).resolves.toBe("That confirmation token belongs to another user.");
+      await expect(
+        call(command, { command: `confirm ${token.toLowerCase()}` }, { senderId: "U-ana" }),
+      ).resolves.toContain("Export requested.");
+      expect(urls().filter((url) => url.endsWith("/v1/exports"))).toHaveLength(1);
+      expect(requestBodyAt(2)).toMatchObject({
+        limit: 5000,
+        filters: { municipality_ibge: ["3550308"] },
+      });
+
+      await expect(
+        call(command, { command: `confirm ${token}` }, { senderId: "U-ana" }),
+      ).resolves.toBe(
+        `No pending export for token ${token}. Tokens expire after 10 minutes; run the export again.`,
+      );
+      await expect(call(command, { command: "confirm" })).resolves.toBe(
+        "Use: /orbio confirm <token>",
+      );
+    });
+
+    it("exports small contact-free requests right away and follows the configured threshold", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(exportResponse())
+        .mockResolvedValueOnce(searchResponse(1));
+
+      const { handlers } = setupPlugin({
+        config: { exportConfirmation: { rowThreshold: 50, contacts: false } },
+      });
+      const exportTool = handlers.get("orbio_export");
+      await expect(
+        call(exportTool, { query_text: "a", limit: 50, with_contact: true }),
+      ).resolves.toContain("Export requested.");
+
+      const estimate = await call(exportTool, { query_text: "a", limit: 51 }, { senderId: "U-1" });
+      expect(estimate).toContain(
+        "This export needs confirmation: it asks for up to 51 rows (more than 50).",
+      );
+      expect(estimate).toContain(
+        "- Estimated matches: unknown\n- Rows to export: up to 51 (limit 51)",
+      );
+      expect(urls().filter((url) => url.endsWith("/v1/exports"))).toHaveLength(1);
+
+      expect(() => setupPlugin({ config: { exportConfirmation: { ttlMs: 1000 } } })).toThrow(
+        "Invalid plugin config: exportConfirmation.ttlMs must be an integer between 30000 and 86400000",
+      );
+    });
+
+    it("issues no token when the host does not identify the user", async () => {
+      fetchMock.mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]));
+
+      const { handlers } = setupPlugin();
+      const command = handlers.get("orbio_command");
+      await expect(
+        call(command, { command: "export software --city 3550308 --with-contact" }),
+      ).resolves.toBe(
+        "This export needs confirmation: it includes contact fields. The chat did not say who is asking, so it cannot be confirmed here. Ask for 1000 rows or fewer without contact fields to export right away.",
+      );
+      expect(urls()).toEqual(["https://api.orbio.test/v1/capabilities"]);
+    });
+  });
+
+  describe("contact redaction", () => {
+    const contactAccount = {
+      cnpj: "11222333000181",
+      legal_name: "Acme",
+      has_email: true,
+      has_phone: true,
+      email: "joao.silva@empresa.com.br",
+      area_code1: "11",
+      phone1: "912341234",
+    };
+    const contactSearch = (page?: { hasMore: boolean; nextCursor: string | null }) =>
+      jsonResponse({
+        request_id: "req-search",
+        snapshot: "2026-02",
+        snapshot_date: "2026-02-01",
+        accounts: [contactAccount],
+        has_more: page?.hasMore ?? false,
+        next_cursor: page?.nextCursor ?? null,
+      });
+    type Handler = (args: unknown, context?: unknown) => Promise<ToolResult>;
+    const call = async (handler: ToolHandler | undefined, args: unknown, context?: unknown) =>
+      (await (handler as Handler)(args, context)).content[0]?.text ?? "";
+
+    it("partially masks contacts in group chats, based on the host context only", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(contactSearch({ hasMore: true, nextCursor: "c2" }))
+        .mockResolvedValueOnce(contactSearch())
+        .mockResolvedValueOnce(contactSearch())
+        .mockResolvedValueOnce(contactSearch());
+
+      const events: AuditEvent[] = [];
+      const { handlers } = setupPlugin({
+        auditSink: { write: async (event) => void events.push(event) },
+      });
+      const search = handlers.get("orbio_search");
+      const group = { chatType: "group", sessionKey: "s-group" };
+
+      const masked = await call(
+        search,
+        { query_text: "a", with_contact: true, view: "table" },
+        group,
+      );
+      expect(masked).toContain("Note: contact values are partially masked in group chats.");
+      expect(masked).toContain("| jo***@empresa.com.br | (11) 9****-1234 |");
+      expect(masked).not.toContain("joao.silva");
+      expect(events[0]).toMatchObject({ contact_granted: true, contact_redaction: "partial" });
+
+      const next = await call(handlers.get("orbio_search_next"), { view: "cards" }, group);
+      expect(next).toContain("Email: jo***@empresa.com.br");
+
+      const direct = await call(
+        search,
+        { query_text: "a", with_contact: true, chat_type: "direct" },
+        { isGroup: true },
+      );
+      expect(direct).not.toContain("joao.silva");
+      await expect(call(search, { query_text: "a", with_contact: true })).resolves.toContain(
+        "joao.silva@empresa.com.br",
+      );
+    });
+
+    it("applies channel rules for the host channel, not one named in the arguments", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(contactSearch());
+
+      const { handlers } = setupPlugin({
+        config: { contactRedaction: { default: "partial", channels: { slack: "full" } } },
+      });
+      const text = await call(
+        handlers.get("orbio_command"),
+        { command: "search a --city 3550308 --with-contact", message_channel: "slack" },
+        { messageChannel: "whatsapp" },
+      );
+      expect(text).toContain("jo***@empresa.com.br");
+      expect(text).not.toContain("joao.silva");
+    });
+
+    it("leaves contact fields out of exports requested from group chats", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(exportResponse("ready"))
+        .mockResolvedValueOnce(exportResponse("ready"));
+
+      const { handlers } = setupPlugin({ config: { exportConfirmation: { contacts: false } } });
+      const exported = await call(
+        handlers.get("orbio_export"),
+        { query_text: "a", with_contact: true, limit: 100 },
+        { chatType: "group", senderId: "U-1" },
+      );
+      expect(exported).toContain("Export requested.");
+      expect(exported).toContain(
+        "Note: contact fields are left out of exports in group chats, since the export file cannot be masked.",
+      );
+      const fields = (requestBodyAt(1).output as { fields: string[] }).fields;
+      expect(fields.filter((field) => CONTACT_FIELDS.includes(field))).toEqual([]);
+
+      await call(
+        handlers.get("orbio_export"),
+        { query_text: "a", with_contact: true, limit: 100 },
+        { chatType: "direct", senderId: "U-1" },
+      );
+      expect((requestBodyAt(2).output as { fields: string[] }).fields).toContain("email");
+    });
+
+    it("shows availability flags only in flags channels, and keeps contacts out of exports", async () => {
+      fetchMock
+        .mockResolvedValueOnce(capabilitiesResponse([...SAFE_FIELDS, ...CONTACT_FIELDS]))
+        .mockResolvedValueOnce(searchResponse(1))
+        .mockResolvedValueOnce(
+          jsonResponse({ request_id: "req-company", snapshot: "2026-02", account: { cnpj: "1" } }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse({
+            request_id: "req-export",
+            snapshot: "2026-02",
+            snapshot_date: "2026-02-01",
+            preview_accounts: [contactAccount],
+            export: { export_id: "exp-1", status: "ready" },
+          }),
+        );
+
+      const { handlers } = setupPlugin({
+        config: {
+          exportConfirmation: { contacts: false },
+          contactRedaction: { channels: { whatsapp: "flags" } },
+        },
+      });
+      const whatsapp = { messageChannel: "WhatsApp" };
+
+      const text = await call(
+        handlers.get("orbio_search"),
+        { query_text: "a", with_contact: true, fields: ["email", "legal_name"] },
+        whatsapp,
+      );
+      expect((requestBodyAt(1).output as { fields: string[] }).fields).toEqual([
+        "cnpj",
+        "legal_name",
+        "has_email",
+        "has_phone",
+      ]);
+      expect(text).toContain(
+        "Note: contact values are hidden in channel whatsapp; request them from a chat without masking.",
+      );
+      expect(text).toContain("email on file");
+      expect(text).not.toContain("restricted by plan");
+
+      await call(
+        handlers.get("orbio_company"),
+        { cnpj: "11.222.333/0001-81", with_contact: true },
+        whatsapp,
+      );
+      expect(String(fetchMock.mock.calls[2]?.[0])).not.toContain("%2Cemail");
+
+      const exported = await call(
+        handlers.get("orbio_export"),
+        { query_text: "a", with_contact: true, view: "json" },
+        whatsapp,
+      );
+      expect((requestBodyAt(3).output as { fields: string[] }).fields).not.toContain("email");
+      expect(exported).toContain(
+        "Note: contact fields are left out of exports in channel whatsapp, since the export file cannot be masked.",
+      );
+      expect(exported).not.toContain("joao.silva");
+
+      expect(() => setupPlugin({ config: { contactRedaction: { default: "blur" } } })).toThrow(
+        "Invalid plugin config: contactRedaction.default must be one of: full, partial, flags",
+      );
+    });
+  });
+
+  it("caches capabilities for the configured TTL", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({
+      config: { capabilitiesTtlMs: 120000 },
+    });
+
+    await invokeTool(handlers, "orbio_search", { query_text: "a" });
+    await invokeTool(handlers, "orbio_search", { query_text: "b" });
+
+    const capabilityCalls = fetchMock.mock.calls.filter((call) =>
+      String(call[0]).endsWith("/v1/capabilities"),
     );
     expect(capabilityCalls).toHaveLength(1);
     expect(fetchMock).toHaveBeenCalledTimes(3);
   });
 
+  it("renders plan, limits, snapshot, contact access and rules for capabilities", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-11T12:00:00Z"));
+    fetchMock.mockResolvedValueOnce(
+      capabilitiesResponse([...SAFE_FIELDS, "email", "phone1"], {
+        limits: {
+          requests_per_minute: 60,
+          monthly_exports: { limit: 10, remaining: 7 },
+          monthly_rows: { limit: 50000, used: 1200 },
+          seats: { max: 3 },
+        },
+        broad_query_rules: { require_cnae: true, require_geo: "uf", free_minimum: "2 filters" },
+        allowed_sort_fields: ["cnpj", "started_at"],
+      }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_capabilities", {});
+    expect(text).toBe(
+      [
+        "Orbio plan: pro",
+        "Snapshot: 2026-02 (data as of 2026-02-01, 10 days old)",
+        "",
+        "Limits:",
+        "- requests per minute: 60",
+        "- monthly exports: 7 of 10 remaining",
+        "- monthly rows: 1200 of 50000 used",
+        '- seats: {"max":3}',
+        "",
+        "Contact fields unlocked (use --with-contact): email, phone1",
+        "",
+        "Broad-query rules:",
+        "- Filtered searches must include a CNAE filter (--cnae) and a state or municipality filter (--uf or --city).",
+        "- Free-plan minimum: 2 filters.",
+        "",
+        "Sortable fields: cnpj, started_at",
+      ].join("\n"),
+    );
+  });
+
+  it("refreshes capabilities for /orbio plan and reports locked plans", async () => {
+    fetchMock
+      .mockResolvedValueOnce(capabilitiesResponse())
+      .mockResolvedValueOnce(searchResponse(1))
+      .mockResolvedValueOnce(
+        capabilitiesResponse(SAFE_FIELDS, {
+          plan_tier: "",
+          snapshot_date: "unknown",
+          limits: undefined,
+          allowed_sort_fields: [],
+          broad_query_rules: { require_cnae: false, require_geo: "city", free_minimum: "none" },
+        }),
+      )
+      .mockResolvedValueOnce(searchResponse(1));
+
+    const { handlers } = setupPlugin({ config: { capabilitiesTtlMs: 120000 } });
+    await invokeTool(handlers, "orbio_search", { query_text: "a" });
+    const text = await invokeTool(handlers, "orbio_command", { command: "plan" });
+    await invokeTool(handlers, "orbio_search", {
+      query_text: "b",
+      filters: { municipality_ibge: ["3550308"] },
+    });
+
+    expect(text).toContain("Orbio plan: unknown\nSnapshot: 2026-02 (data as of unknown)");
+    expect(text).toContain("- No plan limits reported.");
+    expect(text).toContain("Contact fields: locked on this plan; results show masked fields only.");
+    expect(text).toContain(
+      "Broad-query rules:\n- Filtered searches must include a municipality filter (--city).",
+    );
+    expect(text).not.toContain("Free-plan minimum");
+    expect(text).not.toContain("Sortable fields");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("describes plans without broad-query requirements", async () => {
+    fetchMock.mockResolvedValueOnce(
+      capabilitiesResponse(SAFE_FIELDS, {
+        broad_query_rules: { require_cnae: false, require_geo: "none", free_minimum: "none" },
+      }),
+    );
+
+    const { handlers } = setupPlugin();
+    const text = await invokeTool(handlers, "orbio_command", { command: "capabilities" });
+    expect(text).toContain("- Filtered searches have no extra requirements.");
+  });
+
   it("rejects search when allowlist has no safe fields", async () => {
     fetchMock.mockResolvedValueOnce(capabilitiesResponse(["email"]));
 
@@ -705,7 +3916,8 @@ describe("orbio-openclaw plugin", () => {
       status: 403,
       payload: { error: { code: "quota_exceeded", message: "quota" } },
       headers: { "X-Request-Id": "req-403" },
-      expected: "Orbio quota exceeded for this API key/workspace. (request_id=req-403)",
+      expected:
+        "Orbio quota exceeded for this API key/workspace. See /orbio usage for recent consumption and /orbio capabilities for plan limits. (request_id=req-403)",
     },
     {
       title: "authentication failure",
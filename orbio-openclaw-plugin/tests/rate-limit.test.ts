@@ -0,0 +1,279 @@
+import { createServer, type AddressInfo, type Server, type Socket } from "node:net";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RedisReplyError,
+  createMemoryRateLimiter,
+  createRedisConnection,
+  createRedisRateLimiter,
+  type RedisConnection,
+} from "../src/index";
+
+const RULE = { ratePerMinute: 6, burst: 2 };
+
+// Local stand-in for a Redis server: parses RESP command arrays and answers the commands the
+// plugin sends. EVAL runs the token-bucket script's logic in JS against shared in-memory hashes.
+type StandIn = {
+  url: (auth?: string, db?: number) => string;
+  commands: string[][];
+  close: () => Promise<void>;
+};
+
+function parseCommands(buffer: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = [];
+  let text = buffer.toString("utf8");
+  for (;;) {
+    const match = text.match(/^\*(\d+)\r\n/);
+    if (!match) {
+      break;
+    }
+    let offset = match[0].length;
+    const args: string[] = [];
+    for (let idx = 0; idx < Number(match[1]); idx += 1) {
+      const header = text.slice(offset).match(/^\$(\d+)\r\n/);
+      const length = Number(header?.[1] ?? -1);
+      if (!header || text.length < offset + header[0].length + length + 2) {
+        return { commands, rest: Buffer.from(text) };
+      }
+      offset += header[0].length;
+      args.push(text.slice(offset, offset + length));
+      offset += length + 2;
+    }
+    commands.push(args);
+    text = text.slice(offset);
+  }
+  return { commands, rest: Buffer.from(text) };
+}
+
+async function startStandIn(): Promise<StandIn> {
+  const hashes = new Map<string, { tokens: number; ts: number }>();
+  const commands: string[][] = [];
+  const sockets = new Set<Socket>();
+
+  const reply = (args: string[], session: { authFailed: boolean }): string => {
+    const [name = "", ...rest] = args;
+    if (session.authFailed) {
+      return "-NOAUTH Authentication required.\r\n";
+    }
+    switch (name.toUpperCase()) {
+      case "AUTH":
+        session.authFailed = rest.at(-1) !== "s3cret";
+        return session.authFailed ? "-WRONGPASS invalid password\r\n" : "+OK\r\n";
+      case "SELECT":
+        return "+OK\r\n";
+      case "GET":
+        return "$-1\r\n";
+      case "NULLARRAY":
+        return "*-1\r\n";
+      case "BADTYPE":
+        return "?what\r\n";
+      case "EVAL": {
+        const [, , key = "", burstRaw, perMsRaw, nowRaw] = rest;
+        const [burst, perMs, now] = [Number(burstRaw), Number(perMsRaw), Number(nowRaw)];
+        const state = hashes.get(key) ?? { tokens: burst, ts: now };
+        let tokens = Math.min(burst, state.tokens + Math.max(0, now - state.ts) * perMs);
+        let wait = 0;
+        const allowed = tokens >= 1 ? 1 : 0;
+        if (allowed) {
+          tokens -= 1;
+        } else {
+          wait = Math.ceil((1 - tokens) / perMs);
+        }
+        hashes.set(key, { tokens, ts: now });
+        return `*2\r\n:${allowed}\r\n:${wait}\r\n`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    const session = { authFailed: false };
+    let pending = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      const parsed = parseCommands(Buffer.concat([pending, chunk]));
+      pending = parsed.rest;
+      for (const args of parsed.commands) {
+        commands.push(args);
+        if (args[0] === "HANGUP") {
+          socket.destroy();
+          return;
+        }
+        if (args[0] === "SLOW") {
+          continue;
+        }
+        const text = args[0] === "SPLIT" ? "$5\r\nhello\r\n" : reply(args, session);
+        if (args[0] === "SPLIT") {
+          socket.write(text.slice(0, 6));
+          setTimeout(() => socket.write(text.slice(6)), 5);
+        } else {
+          socket.write(text);
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: (auth, db) => `redis://${auth ? `${auth}@` : ""}127.0.0.1:${port}${db ? `/${db}` : ""}`,
+    commands,
+    close: () =>
+      new Promise((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+describe("memory rate limiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows the burst and then one request per refill interval", async () => {
+    const limiter = createMemoryRateLimiter();
+    await expect(limiter.take("k", RULE)).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+    await expect(limiter.take("k", RULE)).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+    await expect(limiter.take("k", RULE)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: 10_000,
+    });
+    await expect(limiter.take("other", RULE)).resolves.toMatchObject({ allowed: true });
+
+    vi.advanceTimersByTime(10_000);
+    await expect(limiter.take("k", RULE)).resolves.toMatchObject({ allowed: true });
+    await expect(limiter.take("k", RULE)).resolves.toMatchObject({ allowed: false });
+
+    vi.advanceTimersByTime(60_000);
+    await expect(limiter.take("k", RULE)).resolves.toMatchObject({ allowed: true });
+    await expect(limiter.take("k", RULE)).resolves.toMatchObject({ allowed: true });
+  });
+
+  it("forgets refilled buckets once many keys are tracked", async () => {
+    const limiter = createMemoryRateLimiter();
+    for (let idx = 0; idx < 1_001; idx += 1) {
+      await limiter.take(`user-${idx}`, { ratePerMinute: 1, burst: 1 });
+    }
+    vi.advanceTimersByTime(60_000);
+    await limiter.take("fresh", { ratePerMinute: 1, burst: 1 });
+
+    await expect(limiter.take("user-0", { ratePerMinute: 1, burst: 1 })).resolves.toMatchObject({
+      allowed: true,
+    });
+    await expect(limiter.take("user-0", { ratePerMinute: 1, burst: 1 })).resolves.toMatchObject({
+      allowed: false,
+    });
+  });
+});
+
+describe("redis rate limiter", () => {
+  let standIn: StandIn;
+  const connections: RedisConnection[] = [];
+  const connect = (url: string, timeoutMs = 1_000) => {
+    const connection = createRedisConnection(url, { timeoutMs });
+    connections.push(connection);
+    return connection;
+  };
+
+  beforeEach(async () => {
+    standIn = await startStandIn();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    for (const connection of connections.splice(0)) {
+      connection.close();
+    }
+    await standIn.close();
+  });
+
+  it("shares one bucket between gateway replicas", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const first = createRedisRateLimiter(connect(standIn.url(":s3cret", 2)));
+    const second = createRedisRateLimiter(connect(standIn.url("orbio:s3cret")), {
+      prefix: "test:",
+    });
+    const third = createRedisRateLimiter(connect(standIn.url()), { prefix: "test:" });
+
+    await expect(second.take("ws:tool", RULE)).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+    await expect(third.take("ws:tool", RULE)).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+    await expect(second.take("ws:tool", RULE)).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: 10_000,
+    });
+    await expect(first.take("ws:tool", RULE)).resolves.toMatchObject({ allowed: true });
+
+    vi.advanceTimersByTime(10_000);
+    await expect(third.take("ws:tool", RULE)).resolves.toMatchObject({ allowed: true });
+
+    expect(standIn.commands.slice(0, 2)).toEqual([
+      ["AUTH", "orbio", "s3cret"],
+      [
+        "EVAL",
+        expect.stringContaining("HMGET"),
+        "1",
+        "test:ws:tool",
+        "2",
+        "0.0001",
+        expect.any(String),
+      ],
+    ]);
+    expect(standIn.commands).toContainEqual(["AUTH", "s3cret"]);
+    expect(standIn.commands).toContainEqual(["SELECT", "2"]);
+    expect(standIn.commands.at(-2)?.[3]).toBe("orbio:ratelimit:ws:tool");
+  });
+
+  it("decodes replies and surfaces server errors", async () => {
+    const redis = connect(standIn.url());
+    await expect(redis.send(["GET", "missing"])).resolves.toBeNull();
+    await expect(redis.send(["NULLARRAY"])).resolves.toBeNull();
+    await expect(redis.send(["SPLIT"])).resolves.toBe("hello");
+    await expect(redis.send(["NOPE"])).rejects.toThrow(RedisReplyError);
+    await expect(createRedisRateLimiter(redis).take("k", RULE)).resolves.toMatchObject({
+      allowed: true,
+    });
+
+    const wrongPassword = connect(standIn.url(":nope"));
+    await expect(wrongPassword.send(["GET", "k"])).rejects.toThrow(/WRONGPASS|NOAUTH/);
+    await expect(createRedisRateLimiter(connect(standIn.url())).take("k", RULE)).resolves.toEqual(
+      expect.objectContaining({ allowed: true }),
+    );
+
+    const odd = createRedisRateLimiter({ send: async () => "OK" });
+    await expect(odd.take("k", RULE)).rejects.toThrow(
+      "Unexpected reply from the Redis rate limiter script",
+    );
+  });
+
+  it("fails pending commands on protocol errors, hangups and timeouts, then reconnects", async () => {
+    const redis = connect(standIn.url(), 50);
+    await expect(redis.send(["BADTYPE"])).rejects.toThrow("Unexpected Redis reply type: ?");
+    await expect(redis.send(["GET", "k"])).resolves.toBeNull();
+    await expect(redis.send(["HANGUP"])).rejects.toThrow("Redis connection closed");
+    await expect(redis.send(["SLOW"])).rejects.toThrow("Redis command timed out after 50ms");
+    await expect(redis.send(["GET", "k"])).resolves.toBeNull();
+
+    const refused = connect("redis://127.0.0.1:1");
+    await expect(refused.send(["GET", "k"])).rejects.toThrow(/ECONNREFUSED/);
+  });
+
+  it("rejects malformed Redis URLs", () => {
+    expect(() => createRedisConnection("not a url", { timeoutMs: 10 })).toThrow(
+      "Redis URL must look like redis://[:password@]host[:port][/db]",
+    );
+    expect(() => createRedisConnection("redis://cache/x", { timeoutMs: 10 })).toThrow(
+      "Redis URL database must be a non-negative integer",
+    );
+    expect(() => createRedisConnection("rediss://cache:6380/1", { timeoutMs: 10 })).not.toThrow();
+  });
+});
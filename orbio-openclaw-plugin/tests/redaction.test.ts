@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  maskEmail,
+  maskPhone,
+  parseContactRedactionPolicy,
+  redactContacts,
+  resolveContactRedaction,
+} from "../src/index";
+
+const ACCOUNT = {
+  cnpj: "11222333000181",
+  has_email: true,
+  has_phone: false,
+  email: "joao.silva@empresa.com.br",
+  area_code1: "11",
+  phone1: "912341234",
+  phone2: "",
+  street: "Paulista",
+  street_number: "1000",
+  address_complement: "cj 42",
+  postal_code: "01310-100",
+};
+
+describe("contact redaction", () => {
+  it("masks emails and phones partially", () => {
+    expect(maskEmail("joao.silva@empresa.com.br")).toBe("jo***@empresa.com.br");
+    expect(maskEmail("jo@x.com")).toBe("j***@x.com");
+    expect(maskEmail("not-an-email")).toBe("***");
+    expect(maskPhone("912341234")).toBe("9****-1234");
+    expect(maskPhone("3234-1234")).toBe("3***-1234");
+    expect(maskPhone("190")).toBe("****");
+  });
+
+  it("redacts accounts by mode", () => {
+    expect(redactContacts(ACCOUNT, "full")).toBe(ACCOUNT);
+    expect(redactContacts(ACCOUNT, "partial")).toEqual({
+      ...ACCOUNT,
+      email: "jo***@empresa.com.br",
+      phone1: "9****-1234",
+      street_number: "***",
+      address_complement: "***",
+      postal_code: "01310-***",
+    });
+    expect(redactContacts({ postal_code: "013" }, "partial")).toEqual({ postal_code: "***" });
+    expect(redactContacts(ACCOUNT, "flags")).toEqual({
+      cnpj: "11222333000181",
+      has_email: "email on file",
+      has_phone: false,
+    });
+  });
+
+  it("resolves the default, channel and group-chat rules", () => {
+    const defaults = parseContactRedactionPolicy(undefined);
+    expect(resolveContactRedaction(defaults, { channel: "slack", groupChat: false })).toEqual({
+      mode: "full",
+      reason: "by the workspace contact policy",
+    });
+    expect(resolveContactRedaction(defaults, { channel: "slack", groupChat: true })).toEqual({
+      mode: "partial",
+      reason: "in group chats",
+    });
+
+    const policy = parseContactRedactionPolicy({
+      default: "partial",
+      groupChats: "partial",
+      channels: { WhatsApp: "flags", Slack: "full" },
+    });
+    expect(resolveContactRedaction(policy, { channel: "whatsapp", groupChat: true })).toEqual({
+      mode: "flags",
+      reason: "in channel whatsapp",
+    });
+    expect(resolveContactRedaction(policy, { channel: "slack", groupChat: false }).mode).toBe(
+      "full",
+    );
+    expect(resolveContactRedaction(policy, { channel: "teams", groupChat: false }).mode).toBe(
+      "partial",
+    );
+  });
+
+  it.each([
+    ["a non-object policy", "partial", "Invalid plugin config: contactRedaction must be an object"],
+    [
+      "unknown modes",
+      { groupChats: "blur" },
+      "Invalid plugin config: contactRedaction.groupChats must be one of: full, partial, flags",
+    ],
+    [
+      "a non-object channel map",
+      { channels: ["whatsapp"] },
+      "Invalid plugin config: contactRedaction.channels must be an object",
+    ],
+  ])("rejects %s", (_title, raw, message) => {
+    expect(() => parseContactRedactionPolicy(raw)).toThrow(message);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findCnaes,
+  findMunicipalities,
+  formatCnae,
+  formatCnaeCode,
+  formatMunicipality,
+  lookupCnae,
+  lookupMunicipality,
+} from "../src/index";
+
+describe("reference data", () => {
+  it("decodes IBGE municipality codes", () => {
+    expect(lookupMunicipality("3550308")).toEqual({
+      code: "3550308",
+      name: "São Paulo",
+      uf: "SP",
+    });
+    expect(formatMunicipality(5300108)).toBe("Brasília/DF");
+    expect(formatMunicipality("1100015")).toBe("Alta Floresta D'Oeste/RO");
+    expect(formatMunicipality("9999999")).toBeNull();
+    expect(formatMunicipality("sp")).toBeNull();
+    expect(formatMunicipality(null)).toBeNull();
+  });
+
+  it.each([
+    ["Campinas", undefined, ["3509502"]],
+    ["campinas/sp", undefined, ["3509502"]],
+    ["Campinas - SP", undefined, ["3509502"]],
+    ["Campinas (SP)", undefined, ["3509502"]],
+    ["SAO PAULO", undefined, ["3550308"]],
+    ["Bom Jesus", ["pi", "RN"], ["2201903", "2401701"]],
+    ["Bom Jesus/SC", ["PI"], ["4202537"]],
+    ["Campinas/RJ", undefined, []],
+    ["Atlantis", undefined, []],
+  ])("finds municipalities named %s", (query, ufs, codes) => {
+    expect(findMunicipalities(query, ufs).map((m) => m.code)).toEqual(codes);
+  });
+
+  it("formats CNAE codes", () => {
+    expect(formatCnaeCode("6201501")).toBe("6201-5/01");
+    expect(formatCnaeCode("62015")).toBe("62.01-5");
+    expect(formatCnaeCode("62")).toBe("62");
+  });
+
+  it("decodes CNAE subclasses with a division fallback", () => {
+    expect(formatCnae("6201-5/01")).toBe(
+      "6201-5/01 – Desenvolvimento de programas de computador sob encomenda",
+    );
+    expect(lookupCnae(6204000)?.level).toBe("subclass");
+    expect(formatCnae("0133405")).toBe("0133-4/05 – Cultivo de coco da baía");
+    expect(formatCnae("6190602")).toBe(
+      "6190-6/02 – Provedores de voz sobre protocolo internet - VoIP",
+    );
+    expect(formatCnae("4789998")).toBe("4789-9/98 – Comércio varejista (div. 47)");
+    expect(formatCnae("62")).toBe("62 – Atividades dos serviços de tecnologia da informação");
+    expect(formatCnae("0400000")).toBeNull();
+    expect(formatCnae("software")).toBeNull();
+  });
+
+  it("finds CNAEs by description", () => {
+    expect(findCnaes("Construção de edifícios").map((entry) => entry.code)).toEqual(["41"]);
+    expect(findCnaes("web design").map((entry) => entry.code)).toEqual(["6201502"]);
+    expect(findCnaes("coco da baia").map((entry) => entry.code)).toEqual(["0133405"]);
+    expect(findCnaes("consultoria tecnologia").map((entry) => entry.code)).toEqual(["6204000"]);
+    expect(findCnaes("licenciamento").map((entry) => entry.code)).toEqual(["6202300", "6203100"]);
+    expect(findCnaes("  ")).toEqual([]);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  RENDERERS,
+  defaultViewForChannel,
+  displayValue,
+  parseViewMode,
+  renderDocument,
+  withDecodedLabels,
+  type RenderDocument,
+} from "../src/render";
+
+const ACCOUNTS = [
+  {
+    cnpj: "11.222.333/0001-81",
+    legal_name: "Empresa Exemplo LTDA",
+    trade_name: "Exemplo",
+    uf: "sp",
+    company_size_code: "01",
+    registration_status: "02",
+    municipality_ibge: "3550308",
+    cnae_primary: "6201501",
+    has_email: true,
+    has_phone: false,
+    area_code1: "11",
+    phone1: "3333-4444",
+    street_type: "Rua",
+    street: "Augusta",
+    street_number: "100",
+  },
+  {
+    cnpj: "99",
+    legal_name: "Sem | Pipe SA",
+    uf: "XX",
+    company_size_code: "77",
+    registration_status: null,
+    has_email: false,
+    has_phone: true,
+    phone1: "9999-0000",
+  },
+];
+
+const FIELDS = [
+  "cnpj",
+  "legal_name",
+  "trade_name",
+  "uf",
+  "company_size_code",
+  "registration_status",
+  "has_email",
+  "has_phone",
+  "area_code1",
+  "phone1",
+  "street_type",
+  "street",
+  "street_number",
+];
+
+function searchDoc(items = ACCOUNTS): RenderDocument {
+  return {
+    header: "Search completed.",
+    summary: { request_id: "req-1", snapshot: "2026-02", has_more: false, next_cursor: null },
+    fields: FIELDS,
+    records: { key: "accounts", items },
+  };
+}
+
+describe("renderers", () => {
+  it("maps channels to default views", () => {
+    expect(defaultViewForChannel("slack")).toBe("table");
+    expect(defaultViewForChannel("whatsapp")).toBe("compact");
+    expect(defaultViewForChannel("telegram")).toBe("compact");
+    expect(defaultViewForChannel("discord")).toBe("cards");
+    expect(defaultViewForChannel("chat")).toBe("json");
+  });
+
+  it("parses view names", () => {
+    expect(parseViewMode(" Table ")).toBe("table");
+    expect(parseViewMode("html")).toBeNull();
+    expect(parseViewMode(undefined)).toBeNull();
+  });
+
+  it("adds decoded labels for agents", () => {
+    expect(withDecodedLabels(ACCOUNTS[0] ?? {})).toMatchObject({
+      uf_name: "São Paulo",
+      company_size_label: "ME",
+      registration_status_label: "Ativa",
+    });
+    expect(withDecodedLabels(ACCOUNTS[0] ?? {})).toMatchObject({
+      municipality_name: "São Paulo/SP",
+      cnae_primary_description: "Desenvolvimento de programas de computador sob encomenda",
+    });
+    expect(withDecodedLabels({ uf: 35, company_size_code: 5 })).toEqual({
+      uf: 35,
+      company_size_code: 5,
+      company_size_label: "Demais",
+    });
+  });
+
+  it("decodes display values", () => {
+    const [first = {}, second = {}] = ACCOUNTS;
+    expect(displayValue("uf", first)).toBe("São Paulo (SP)");
+    expect(displayValue("uf", second)).toBe("XX");
+    expect(displayValue("company_size_code", second)).toBe("77");
+    expect(displayValue("municipality_ibge", first)).toBe("São Paulo/SP");
+    expect(displayValue("municipality_ibge", { municipality_ibge: "123" })).toBe("123");
+    expect(displayValue("cnae_primary", first)).toBe(
+      "6201-5/01 – Desenvolvimento de programas de computador sob encomenda",
+    );
+    expect(displayValue("cnae_primary", { cnae_primary: "0000000" })).toBe("0000000");
+    expect(displayValue("registration_status", second)).toBe("");
+    expect(displayValue("phone1", first)).toBe("(11) 3333-4444");
+    expect(displayValue("phone1", second)).toBe("9999-0000");
+    expect(displayValue("phone2", first)).toBe("");
+    expect(displayValue("street", first)).toBe("Rua Augusta, 100");
+    expect(displayValue("has_phone", first)).toBe("no");
+    expect(displayValue("meta", { meta: { a: 1 } })).toBe('{"a":1}');
+  });
+
+  it("renders json with the legacy body layout", () => {
+    const text = renderDocument(searchDoc(), "json");
+    const match = text.match(/^Search completed\.\n\n```json\n([\s\S]+)\n```$/);
+    const body = JSON.parse(match?.[1] ?? "{}") as Record<string, unknown>;
+    expect(Object.keys(body)).toEqual([
+      "request_id",
+      "snapshot",
+      "has_more",
+      "next_cursor",
+      "fields",
+      "accounts",
+    ]);
+    expect((body.accounts as Array<Record<string, unknown>>)[0]?.uf_name).toBe("São Paulo");
+
+    const single = renderDocument(
+      {
+        header: "Company profile.",
+        summary: {},
+        records: { key: "account", items: [], single: true },
+      },
+      "json",
+    );
+    expect(single).toContain('"account": null');
+  });
+
+  it("renders markdown tables with merged contact columns", () => {
+    const text = renderDocument(searchDoc(), "table");
+    expect(text).toContain(
+      "| CNPJ | Legal name | Trade name | State | Size | Status | Has email | Has phone | Phone | Address |",
+    );
+    expect(text).toContain(
+      "| 11.222.333/0001-81 | Empresa Exemplo LTDA | Exemplo | São Paulo (SP) | ME | Ativa | yes | no | (11) 3333-4444 | Rua Augusta, 100 |",
+    );
+    expect(text).toContain("| 99 | Sem \\| Pipe SA | - | XX | 77 | - | no | yes | 9999-0000 | - |");
+    expect(text.endsWith("request_id=req-1 · snapshot=2026-02 · has_more=false")).toBe(true);
+  });
+
+  it("renders one line per company in compact mode", () => {
+    const text = renderDocument(searchDoc(), "compact");
+    expect(text).toContain(
+      "1. Exemplo · 11.222.333/0001-81 · São Paulo (SP) · ME · Ativa · email ✓ · (11) 3333-4444 · Rua Augusta, 100",
+    );
+    expect(text).toContain("2. Sem | Pipe SA · 99 · XX · 77 · phone ✓ · 9999-0000");
+  });
+
+  it("renders cards with labels and skips blank values", () => {
+    const text = renderDocument(searchDoc(), "cards");
+    expect(text).toContain("*Exemplo*\nCNPJ: 11.222.333/0001-81\nLegal name: Empresa Exemplo LTDA");
+    expect(text).toContain("*Sem | Pipe SA*");
+    expect(text).not.toContain("Trade name: \n");
+  });
+
+  it("derives columns from records when fields are not given", () => {
+    const text = renderDocument(
+      {
+        header: "Preview.",
+        summary: {},
+        records: { key: "accounts", items: [{ cnpj: "1", custom_field: "x" }, {}] },
+      },
+      "table",
+    );
+    expect(text).toBe("Preview.\n\n| CNPJ | custom_field |\n| --- | --- |\n| 1 | x |\n| - | - |");
+    expect(
+      renderDocument({ header: "", summary: {}, records: { key: "a", items: [{}] } }, "compact"),
+    ).toBe("1. Unnamed company");
+  });
+
+  it.each(["table", "cards", "compact"] as const)("renders empty %s results", (view) => {
+    expect(renderDocument(searchDoc([]), view)).toBe(
+      "Search completed.\n\nNo companies matched.\n\nrequest_id=req-1 · snapshot=2026-02 · has_more=false",
+    );
+  });
+
+  it("renders summary-only documents for each view", () => {
+    const doc: RenderDocument = {
+      header: "Export status:",
+      summary: { export_id: "exp-1", status: "ready", expires_at: null, nested: { rows: 3 } },
+    };
+    expect(RENDERERS.table(doc)).toBe(
+      "Export status:\n\n| Field | Value |\n| --- | --- |\n| export_id | exp-1 |\n| status | ready |\n| rows | 3 |",
+    );
+    expect(RENDERERS.cards(doc)).toBe(
+      "Export status:\n\n- export_id: exp-1\n- status: ready\n- rows: 3",
+    );
+    expect(RENDERERS.compact(doc)).toBe(RENDERERS.cards(doc));
+  });
+});
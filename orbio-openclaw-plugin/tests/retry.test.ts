@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  backoffDelayMs,
+  createCircuitBreaker,
+  isRetryable,
+  parseCircuitBreakerOptions,
+  parseRetryAfterMs,
+  parseRetryPolicy,
+} from "../src/index";
+
+const BASE = { maxRetries: 2, baseDelayMs: 300 };
+
+describe("retry policy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("parses defaults and per-endpoint overrides", () => {
+    expect(parseRetryPolicy(undefined, BASE)).toEqual({
+      maxRetries: 2,
+      baseDelayMs: 300,
+      maxDelayMs: 5_000,
+      maxElapsedMs: 30_000,
+      retryRateLimited: true,
+      endpoints: {},
+    });
+
+    const policy = parseRetryPolicy(
+      {
+        maxDelayMs: 100,
+        maxElapsedMs: 0,
+        retryRateLimited: false,
+        endpoints: { " post   /v1/exports ": false, "GET /v1/exports/{export_id}": true },
+      },
+      BASE,
+    );
+    expect(policy).toMatchObject({ maxDelayMs: 300, maxElapsedMs: 0, retryRateLimited: false });
+    expect(policy.endpoints).toEqual({
+      "POST /v1/exports": false,
+      "GET /v1/exports/{export_id}": true,
+    });
+  });
+
+  it.each([
+    ["a non-object policy", "fast", "Invalid plugin config: retryPolicy must be an object"],
+    [
+      "out-of-range delays",
+      { maxDelayMs: 0 },
+      "Invalid plugin config: retryPolicy.maxDelayMs must be an integer between 1 and 60000",
+    ],
+    [
+      "non-boolean flags",
+      { retryRateLimited: "yes" },
+      "Invalid plugin config: retryPolicy.retryRateLimited must be true or false",
+    ],
+    [
+      "malformed endpoint keys",
+      { endpoints: { "/v1/exports": false } },
+      'Invalid plugin config: retryPolicy.endpoints./v1/exports must map "METHOD /route" to true or false',
+    ],
+    [
+      "non-boolean endpoint values",
+      { endpoints: { "POST /v1/exports": "no" } },
+      'Invalid plugin config: retryPolicy.endpoints.POST /v1/exports must map "METHOD /route" to true or false',
+    ],
+  ])("rejects %s", (_title, raw, message) => {
+    expect(() => parseRetryPolicy(raw, BASE)).toThrow(message);
+  });
+
+  it("retries GETs and keyed POSTs unless an endpoint says otherwise", () => {
+    const policy = parseRetryPolicy({ endpoints: { "POST /v1/exports": false } }, BASE);
+    const request = { method: "POST", route: "/v1/accounts/search", idempotencyKey: "k-1" };
+    expect(isRetryable(policy, { ...request, method: "GET", idempotencyKey: undefined })).toBe(
+      true,
+    );
+    expect(isRetryable(policy, request)).toBe(true);
+    expect(isRetryable(policy, { ...request, idempotencyKey: undefined })).toBe(false);
+    expect(isRetryable(policy, { ...request, route: "/v1/exports" })).toBe(false);
+  });
+
+  it("backs off exponentially with full jitter up to the cap", () => {
+    const policy = parseRetryPolicy(undefined, BASE);
+    expect(backoffDelayMs(policy, 0, () => 0.5)).toBe(150);
+    expect(backoffDelayMs(policy, 2, () => 0.5)).toBe(600);
+    expect(backoffDelayMs(policy, 6, () => 0.999)).toBe(4_995);
+    expect(backoffDelayMs(policy, 0, () => 0)).toBe(0);
+    expect(backoffDelayMs(policy, 1)).toBeLessThan(600);
+  });
+
+  it("parses Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("2026-02-10T12:00:00Z");
+    expect(parseRetryAfterMs("3", now)).toBe(3_000);
+    expect(parseRetryAfterMs("Tue, 10 Feb 2026 12:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfterMs("Tue, 10 Feb 2026 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfterMs("soon", now)).toBeNull();
+    expect(parseRetryAfterMs(null)).toBeNull();
+  });
+});
+
+describe("circuit breaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("parses options", () => {
+    expect(parseCircuitBreakerOptions(undefined)).toEqual({
+      failureThreshold: 5,
+      cooldownMs: 30_000,
+    });
+    expect(() => parseCircuitBreakerOptions({ cooldownMs: 10 })).toThrow(
+      "Invalid plugin config: circuitBreaker.cooldownMs must be an integer between 1000 and 600000",
+    );
+  });
+
+  it("opens after consecutive failures and lets one probe through after the cooldown", () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 10_000 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.blockedForMs()).toBe(0);
+    breaker.recordFailure();
+    expect(breaker.blockedForMs()).toBe(10_000);
+
+    vi.advanceTimersByTime(10_000);
+    expect(breaker.blockedForMs()).toBe(0);
+    expect(breaker.blockedForMs()).toBe(10_000);
+    breaker.recordFailure();
+    expect(breaker.blockedForMs()).toBe(10_000);
+
+    vi.advanceTimersByTime(10_000);
+    expect(breaker.blockedForMs()).toBe(0);
+    breaker.recordSuccess();
+    expect(breaker.blockedForMs()).toBe(0);
+  });
+
+  it("never opens with a zero threshold", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 0, cooldownMs: 1_000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.blockedForMs()).toBe(0);
+  });
+});
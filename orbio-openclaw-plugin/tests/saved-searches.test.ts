@@ -0,0 +1,108 @@
+import { mkdir, mkdtemp, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  createFileSavedSearchStore,
+  createMemorySavedSearchStore,
+  type SavedSearch,
+} from "../src/index";
+
+function savedSearch(name: string, overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    name,
+    query_text: `query ${name}`,
+    created_at: "2026-02-01T00:00:00.000Z",
+    updated_at: "2026-02-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("saved search stores", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orbio-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ["memory", () => createMemorySavedSearchStore()],
+    ["file", () => createFileSavedSearchStore(join(dir, "nested", "saved.json"))],
+  ])("stores searches per workspace (%s)", async (_kind, create) => {
+    const store = create();
+    expect(await store.list("ws")).toEqual([]);
+    expect(await store.get("ws", "missing")).toBeNull();
+
+    await store.put("ws", savedSearch("zeta"));
+    await store.put("ws", savedSearch("alpha"));
+    await store.put("other", savedSearch("alpha", { query_text: "other" }));
+
+    expect((await store.list("ws")).map((search) => search.name)).toEqual(["alpha", "zeta"]);
+    expect((await store.get("other", "alpha"))?.query_text).toBe("other");
+    expect(await store.delete("ws", "alpha")).toBe(true);
+    expect(await store.delete("ws", "alpha")).toBe(false);
+    expect(await store.delete("nobody", "alpha")).toBe(false);
+    expect((await store.list("ws")).map((search) => search.name)).toEqual(["zeta"]);
+  });
+
+  it("persists to disk and shares the file between instances", async () => {
+    const path = join(dir, "saved.json");
+    const first = createFileSavedSearchStore(path);
+    await Promise.all([first.put("ws", savedSearch("a")), first.put("ws", savedSearch("b"))]);
+
+    const second = createFileSavedSearchStore(path);
+    expect((await second.list("ws")).map((search) => search.name)).toEqual(["a", "b"]);
+
+    const raw = JSON.parse(await readFile(path, "utf8")) as Record<string, unknown>;
+    expect(raw.version).toBe(1);
+    expect(Object.keys((raw.workspaces as Record<string, object>).ws ?? {})).toEqual(["a", "b"]);
+  });
+
+  it("waits for another process's lockfile and takes over a stale one", async () => {
+    const path = join(dir, "saved.json");
+    const lockPath = `${path}.lock`;
+    const store = createFileSavedSearchStore(path);
+
+    await writeFile(lockPath, "");
+    let written = false;
+    const put = store.put("ws", savedSearch("a")).then(() => {
+      written = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(written).toBe(false);
+    await rm(lockPath);
+    await put;
+    expect((await store.list("ws")).map((search) => search.name)).toEqual(["a"]);
+    await expect(stat(lockPath)).rejects.toThrow("ENOENT");
+
+    await writeFile(lockPath, "");
+    const old = new Date(Date.now() - 60_000);
+    await utimes(lockPath, old, old);
+    await store.put("ws", savedSearch("b"));
+    expect((await store.list("ws")).map((search) => search.name)).toEqual(["a", "b"]);
+  });
+
+  it("reports unreadable files without overwriting them", async () => {
+    const path = join(dir, "saved.json");
+    await writeFile(path, "{not json");
+    const store = createFileSavedSearchStore(path);
+    await expect(store.list("ws")).rejects.toThrow(
+      `Saved searches file is not valid JSON: ${path}`,
+    );
+    await expect(store.put("ws", savedSearch("a"))).rejects.toThrow("not valid JSON");
+    expect(await readFile(path, "utf8")).toBe("{not json");
+
+    await writeFile(path, "{}");
+    expect(await store.list("ws")).toEqual([]);
+
+    const dirPath = join(dir, "is-a-dir");
+    await mkdir(dirPath);
+    await expect(createFileSavedSearchStore(dirPath).list("ws")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,94 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createFileSearchCache, createMemorySearchCache, type SearchCache } from "../src/index";
+
+function entry(snapshot: string, value: unknown = snapshot) {
+  return { snapshot, stored_at: Date.now(), value };
+}
+
+describe("search caches", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orbio-cache-"));
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-10T12:00:00Z"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, (maxEntries: number) => SearchCache]> = [
+    ["memory", (maxEntries) => createMemorySearchCache({ ttlMs: 60_000, maxEntries })],
+    [
+      "file",
+      (maxEntries) => createFileSearchCache(join(dir, "cache.json"), { ttlMs: 60_000, maxEntries }),
+    ],
+  ];
+
+  it.each(backends)("expires entries after the TTL (%s)", async (_kind, create) => {
+    const cache = create(10);
+    expect(await cache.get("a")).toBeNull();
+    await cache.set("a", entry("2026-02", { rows: 1 }));
+    expect(await cache.get("a")).toMatchObject({ snapshot: "2026-02", value: { rows: 1 } });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await cache.get("a")).toBeNull();
+  });
+
+  it.each(backends)("keeps at most maxEntries (%s)", async (_kind, create) => {
+    const cache = create(2);
+    await cache.set("a", entry("s"));
+    vi.advanceTimersByTime(1);
+    await cache.set("b", entry("s"));
+    vi.advanceTimersByTime(1);
+    await cache.set("b", entry("s", "b2"));
+    await cache.set("c", entry("s"));
+
+    expect(await cache.get("a")).toBeNull();
+    expect((await cache.get("b"))?.value).toBe("b2");
+    expect(await cache.get("c")).not.toBeNull();
+  });
+
+  it.each(backends)("drops entries from other snapshots (%s)", async (_kind, create) => {
+    const cache = create(10);
+    await cache.set("old", entry("2026-01"));
+    await cache.set("new", entry("2026-02"));
+    await cache.retain("2026-02");
+    await cache.retain("2026-02");
+
+    expect(await cache.get("old")).toBeNull();
+    expect(await cache.get("new")).not.toBeNull();
+  });
+
+  it("evicts the least recently used entry from memory", async () => {
+    const cache = createMemorySearchCache({ ttlMs: 60_000, maxEntries: 2 });
+    await cache.set("a", entry("s"));
+    await cache.set("b", entry("s"));
+    await cache.get("a");
+    await cache.set("c", entry("s"));
+
+    expect(await cache.get("a")).not.toBeNull();
+    expect(await cache.get("b")).toBeNull();
+  });
+
+  it("persists the file cache and prunes expired entries on write", async () => {
+    const path = join(dir, "cache.json");
+    await createFileSearchCache(path, { ttlMs: 60_000, maxEntries: 10 }).set("a", entry("s"));
+    vi.advanceTimersByTime(60_000);
+    const cache = createFileSearchCache(path, { ttlMs: 60_000, maxEntries: 10 });
+    await cache.set("b", entry("s"));
+
+    const raw = JSON.parse(await readFile(path, "utf8")) as { entries: object };
+    expect(Object.keys(raw.entries)).toEqual(["b"]);
+
+    await writeFile(path, "[");
+    await expect(cache.get("b")).rejects.toThrow(`Search cache file is not valid JSON: ${path}`);
+  });
+});
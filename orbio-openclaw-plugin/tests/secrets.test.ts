@@ -0,0 +1,116 @@
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createApiKeyResolver, parseApiKeyRefs, parseSecretRef } from "../src/index";
+
+describe("api key secrets", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orbio-secrets-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("parses literals, env, file and provider references", () => {
+    const env = { VAULT_KEY: " from-env " };
+    expect(parseSecretRef(" plain ", "apiKey", env)).toEqual({ kind: "literal", value: "plain" });
+    expect(parseSecretRef("env:VAULT_KEY", "apiKey", env)).toEqual({
+      kind: "literal",
+      value: "from-env",
+    });
+    expect(parseSecretRef("file: /run/secrets/orbio", "apiKey", env)).toEqual({
+      kind: "file",
+      path: "/run/secrets/orbio",
+    });
+    expect(parseSecretRef("secret:orbio/prod", "apiKey", env)).toEqual({
+      kind: "provider",
+      name: "orbio/prod",
+    });
+    expect(parseSecretRef(undefined, "apiKey", env)).toBeNull();
+    expect(() => parseSecretRef("env:MISSING", "apiKeySecondary", env)).toThrow(
+      "Invalid plugin config: apiKeySecondary references env MISSING, which is not set",
+    );
+    expect(() => parseSecretRef("file:", "apiKey", env)).toThrow(
+      'Invalid plugin config: apiKey must name the file to read after "file:"',
+    );
+  });
+
+  it("collects the primary and secondary key sources", () => {
+    expect(parseApiKeyRefs({ apiKeyFile: "/k", apiKeySecondary: "old" }, {}, false)).toEqual([
+      { kind: "file", path: "/k" },
+      { kind: "literal", value: "old" },
+    ]);
+    expect(parseApiKeyRefs({}, { ORBIO_API_KEY_FILE: "/env-k" }, false)).toEqual([
+      { kind: "file", path: "/env-k" },
+    ]);
+    expect(parseApiKeyRefs({}, { ORBIO_API_KEY: "env-key" }, false)).toEqual([
+      { kind: "literal", value: "env-key" },
+    ]);
+    expect(parseApiKeyRefs({ apiKeySecondary: "orphan" }, {}, false)).toEqual([]);
+    expect(() => parseApiKeyRefs({ apiKey: "k", apiKeyFile: "/k" }, {}, false)).toThrow(
+      "Invalid plugin config: set either apiKey or apiKeyFile, not both",
+    );
+    expect(() => parseApiKeyRefs({ apiKey: "secret:orbio" }, {}, false)).toThrow(
+      'Invalid plugin config: "secret:" API key references need a host secretProvider',
+    );
+    expect(parseApiKeyRefs({ apiKey: "secret:orbio" }, {}, true)).toHaveLength(1);
+  });
+
+  it("re-reads key files when they change", async () => {
+    const path = join(dir, "orbio.key");
+    await writeFile(path, "key-1\n");
+    const keys = createApiKeyResolver([{ kind: "file", path }], undefined);
+    expect(await keys.current()).toBe("key-1");
+
+    await writeFile(path, "key-22\n");
+    expect(await keys.current()).toBe("key-22");
+
+    // Same size and mtime: the cached value stands until the API rejects it.
+    const stamp = new Date("2026-01-01T00:00:00Z");
+    await utimes(path, stamp, stamp);
+    expect(await keys.current()).toBe("key-22");
+    await writeFile(path, "key-33\n");
+    await utimes(path, stamp, stamp);
+    expect(await keys.current()).toBe("key-22");
+    expect(await keys.recover("key-22")).toBe("key-33");
+
+    await rm(path);
+    await expect(keys.current()).rejects.toThrow("Could not read the Orbio API key file");
+  });
+
+  it("falls over to the secondary key and back to a rotated primary", async () => {
+    let primary = "prov-1";
+    const provider = vi.fn(async (name: string) => (name === "orbio" ? primary : null));
+    const keys = createApiKeyResolver(
+      [
+        { kind: "provider", name: "orbio" },
+        { kind: "literal", value: "backup" },
+      ],
+      provider,
+    );
+
+    expect(await keys.current()).toBe("prov-1");
+    expect(await keys.current()).toBe("prov-1");
+    expect(provider).toHaveBeenCalledTimes(1);
+
+    expect(await keys.recover("prov-1")).toBe("backup");
+    expect(await keys.current()).toBe("backup");
+
+    primary = "prov-2";
+    expect(await keys.recover("backup")).toBe("prov-2");
+    expect(await keys.recover("prov-2")).toBeNull();
+    // With every key rejected the primary goes out again and the API error surfaces.
+    expect(await keys.current()).toBe("prov-2");
+
+    primary = "";
+    await expect(
+      createApiKeyResolver([{ kind: "provider", name: "orbio" }], provider).current(),
+    ).rejects.toThrow("The Orbio API key source is empty.");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { createTelemetry, httpRoute } from "../src/index";
+
+describe("telemetry", () => {
+  it("collapses ids in HTTP routes", () => {
+    expect(httpRoute("/v1/accounts/search")).toBe("/v1/accounts/search");
+    expect(httpRoute("/v1/accounts/11222333000181")).toBe("/v1/accounts/{cnpj}");
+    expect(httpRoute("/v1/exports")).toBe("/v1/exports");
+    expect(httpRoute("/v1/exports/exp-1?wait=1")).toBe("/v1/exports/{export_id}");
+    expect(httpRoute("/v1/capabilities")).toBe("/v1/capabilities");
+  });
+
+  it("is a no-op when no SDK is registered", async () => {
+    const telemetry = createTelemetry("1.0.0");
+    const span = telemetry.startTool("orbio_search", {});
+    expect(span.isRecording()).toBe(false);
+    await expect(telemetry.runInSpan(span, async () => "done")).resolves.toBe("done");
+
+    const attempt = telemetry.startHttpAttempt("GET", "/v1/capabilities", 0);
+    const result = {
+      status: 0,
+      errorCode: "TIMEOUT",
+      requestId: "req-1",
+      retry: "timeout" as const,
+    };
+    telemetry.endHttpAttempt(attempt, "GET", "/v1/capabilities", result);
+    telemetry.endHttpAttempt(attempt, "GET", "/v1/capabilities", result);
+    telemetry.recordRateLimit("user", "orbio_search");
+    telemetry.endTool(span, "orbio_search", "error", "TIMEOUT");
+  });
+});
@@ -0,0 +1,100 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createFileUsageStore,
+  createMemoryUsageStore,
+  summarizeUsage,
+  usageHour,
+  type UsageStore,
+} from "../src/index";
+
+function bucket(tool: string, channel: string, rows = 0, exports = 0) {
+  return { hour: usageHour(Date.now()), tool, channel, requests: 1, rows, exports };
+}
+
+describe("usage stores", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "orbio-usage-"));
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-10T12:30:00Z"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => UsageStore]> = [
+    ["memory", () => createMemoryUsageStore()],
+    ["file", () => createFileUsageStore(join(dir, "usage.json"))],
+  ];
+
+  it.each(backends)("adds into hourly buckets per workspace (%s)", async (_kind, create) => {
+    const store = create();
+    await store.add("ws-1", bucket("orbio_search", "slack", 10));
+    await store.add("ws-1", bucket("orbio_search", "slack", 5));
+    await store.add("ws-1", bucket("orbio_export", "chat", 0, 1));
+    await store.add("ws-2", bucket("orbio_search", "chat", 1));
+    vi.advanceTimersByTime(3_600_000);
+    await store.add("ws-1", bucket("orbio_search", "slack", 2));
+
+    expect(await store.list("ws-1", "2026-02-10T12")).toEqual([
+      { ...bucket("orbio_search", "slack", 15), hour: "2026-02-10T12", requests: 2 },
+      { ...bucket("orbio_export", "chat", 0, 1), hour: "2026-02-10T12" },
+      bucket("orbio_search", "slack", 2),
+    ]);
+    expect(await store.list("ws-1", "2026-02-10T13")).toHaveLength(1);
+    expect(await store.list("ws-3", "2026-02-10T12")).toEqual([]);
+  });
+
+  it.each(backends)("drops buckets older than the retention window (%s)", async (_kind, create) => {
+    const store = create();
+    await store.add("ws-1", bucket("orbio_search", "chat", 1));
+    vi.advanceTimersByTime(91 * 86_400_000);
+    await store.add("ws-1", bucket("orbio_company", "chat", 1));
+
+    expect(await store.list("ws-1", "2026-01-01T00")).toEqual([bucket("orbio_company", "chat", 1)]);
+  });
+
+  it("shares the usage file across store instances", async () => {
+    const path = join(dir, "usage.json");
+    await createFileUsageStore(path).add("ws-1", bucket("orbio_search", "chat", 3));
+    const store = createFileUsageStore(path);
+    await store.add("ws-1", bucket("orbio_search", "chat", 2));
+
+    expect(await store.list("ws-1", "2026-02-10T00")).toEqual([
+      { ...bucket("orbio_search", "chat", 5), requests: 2 },
+    ]);
+
+    await writeFile(path, "{");
+    await expect(store.list("ws-1", "2026-02-10T00")).rejects.toThrow(
+      `Usage file is not valid JSON: ${path}`,
+    );
+  });
+
+  it("summarizes buckets by tool and channel", () => {
+    expect(
+      summarizeUsage([
+        bucket("orbio_search", "slack", 10),
+        bucket("orbio_search", "chat", 5),
+        bucket("orbio_export", "chat", 0, 1),
+      ]),
+    ).toEqual({
+      total: { requests: 3, rows: 15, exports: 1 },
+      byTool: {
+        orbio_search: { requests: 2, rows: 15, exports: 0 },
+        orbio_export: { requests: 1, rows: 0, exports: 1 },
+      },
+      byChannel: {
+        slack: { requests: 1, rows: 10, exports: 0 },
+        chat: { requests: 2, rows: 5, exports: 1 },
+      },
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { createFileWatchStore, createMemoryWatchStore, diffWatchedCompanies } from "../src/index";
+
+describe("watches", () => {
+  it("diffs companies across snapshots", () => {
+    expect(
+      diffWatchedCompanies(
+        { a: "02", b: "02", c: "02", d: null },
+        { a: "02", b: "08", d: "02", e: "02" },
+      ),
+    ).toEqual({
+      added: ["e"],
+      statusChanged: [
+        { cnpj: "b", from: "02", to: "08" },
+        { cnpj: "d", from: null, to: "02" },
+      ],
+      missing: ["c"],
+    });
+    expect(diffWatchedCompanies({}, {})).toEqual({
+      added: [],
+      statusChanged: [],
+      missing: [],
+    });
+  });
+
+  it("stores watches in memory or on disk", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "orbio-watches-"));
+    const watch = {
+      name: "acme",
+      session_key: "conv",
+      snapshot: "2026-02",
+      snapshot_date: "2026-02-01",
+      companies: { "11222333000181": "02" },
+      truncated: false,
+      created_at: "2026-02-02T00:00:00.000Z",
+      checked_at: "2026-02-02T00:00:00.000Z",
+    };
+    try {
+      for (const store of [createMemoryWatchStore(), createFileWatchStore(join(dir, "w.json"))]) {
+        await store.put("ws", watch);
+        expect(await store.get("ws", "acme")).toEqual(watch);
+        expect(await store.list("other")).toEqual([]);
+      }
+      expect((await createFileWatchStore(join(dir, "w.json")).list("ws"))[0]?.name).toBe("acme");
+
+      await writeFile(join(dir, "bad.json"), "nope");
+      await expect(createFileWatchStore(join(dir, "bad.json")).list("ws")).rejects.toThrow(
+        `Watches file is not valid JSON: ${join(dir, "bad.json")}`,
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import { parseWorkspaceEntries, parseWorkspaceRouting, resolveWorkspace } from "../src/index";
+
+describe("workspace routing", () => {
+  const routing = parseWorkspaceRouting(
+    { channels: { " Slack ": "acme" }, teams: { T1: ["beta", "main", "beta"], T2: "acme" } },
+    ["main", "acme", "beta"],
+    "main",
+  );
+
+  it("parses routing rules against the configured workspaces", () => {
+    expect(routing).toEqual({
+      workspaces: ["main", "acme", "beta"],
+      default: { workspaceId: "main", allowed: ["main", "acme", "beta"] },
+      channels: { slack: { workspaceId: "acme", allowed: ["acme"] } },
+      teams: {
+        T1: { workspaceId: "beta", allowed: ["beta", "main"] },
+        T2: { workspaceId: "acme", allowed: ["acme"] },
+      },
+    });
+    expect(parseWorkspaceRouting({ default: "beta" }, ["main", "beta"], "main").default).toEqual({
+      workspaceId: "beta",
+      allowed: ["beta"],
+    });
+  });
+
+  it("prefers the team rule, then the channel rule, then the default", () => {
+    const where = { requested: null, teamId: null, channel: null };
+    expect(resolveWorkspace(routing, where)).toEqual({ workspaceId: "main" });
+    expect(resolveWorkspace(routing, { ...where, channel: "slack" })).toEqual({
+      workspaceId: "acme",
+    });
+    expect(resolveWorkspace(routing, { ...where, channel: "slack", teamId: "T1" })).toEqual({
+      workspaceId: "beta",
+    });
+  });
+
+  it("lets --workspace pick only what the matching rule allows", () => {
+    const where = { requested: null, teamId: null, channel: null };
+    expect(resolveWorkspace(routing, { ...where, requested: "beta" })).toEqual({
+      workspaceId: "beta",
+    });
+    expect(resolveWorkspace(routing, { ...where, channel: "slack", requested: "main" })).toEqual({
+      error: 'This chat uses Orbio workspace "acme"; --workspace cannot switch it.',
+    });
+    expect(resolveWorkspace(routing, { ...where, teamId: "T2", requested: "acme" })).toEqual({
+      workspaceId: "acme",
+    });
+    expect(resolveWorkspace(routing, { ...where, teamId: "T1", requested: "main" })).toEqual({
+      workspaceId: "main",
+    });
+    expect(resolveWorkspace(routing, { ...where, teamId: "T1", requested: "acme" })).toEqual({
+      error:
+        'This chat can use Orbio workspaces "beta", "main"; --workspace cannot switch to "acme".',
+    });
+    expect(resolveWorkspace(routing, { ...where, requested: "gamma" })).toEqual({
+      error: 'Unknown Orbio workspace "gamma".',
+    });
+  });
+
+  it.each([
+    ["a non-object map", () => parseWorkspaceEntries([]), "workspaces must be an object"],
+    [
+      "invalid names",
+      () => parseWorkspaceEntries({ "acme corp": {} }),
+      'workspaces.acme corp must be named with letters, digits, ".", "_" or "-"',
+    ],
+    [
+      "non-object entries",
+      () => parseWorkspaceEntries({ acme: "key" }),
+      "workspaces.acme must be an object",
+    ],
+    [
+      "shared settings",
+      () => parseWorkspaceEntries({ acme: { savedSearchStore: "memory" } }),
+      "workspaces.acme.savedSearchStore is not a workspace setting",
+    ],
+    [
+      "unknown routing targets",
+      () => parseWorkspaceRouting({ teams: { T1: "gamma" } }, ["main"], "main"),
+      'workspaceRouting.teams.T1 names unknown workspace "gamma"',
+    ],
+    [
+      "empty routing lists",
+      () => parseWorkspaceRouting({ channels: { slack: [] } }, ["main"], "main"),
+      "workspaceRouting.channels.slack must name a workspace",
+    ],
+    [
+      "non-object rules",
+      () => parseWorkspaceRouting({ channels: "slack" }, ["main"], "main"),
+      "workspaceRouting.channels must be an object",
+    ],
+  ])("rejects %s", (_title, parse, message) => {
+    expect(parse).toThrow(`Invalid plugin config: ${message}`);
+  });
+});